@@ -0,0 +1,107 @@
+/*
+ * Copyright 2025 SmartClone Contributors
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+/**
+ * Vector Index Benchmark for SmartClone Core
+ * Compares recall and latency of the HNSW index against the brute-force scan
+ *
+ * Usage: npm run benchmark:vector -- [records] [dimensions] [queries]
+ */
+
+import { pathToFileURL } from 'url';
+import { HNSWIndex } from '../src/core/hnswIndex';
+import { bruteForceSearch, type VectorSearchEntry } from '../src/core/vectorSearch';
+
+interface BenchmarkResult {
+  records: number;
+  dimensions: number;
+  queries: number;
+  k: number;
+  buildMs: number;
+  bruteForceMsPerQuery: number;
+  runs: Array<{
+    efSearch: number;
+    recall: number;
+    hnswMsPerQuery: number;
+    speedup: number;
+  }>;
+}
+
+function randomVector(dimensions: number): number[] {
+  return Array.from({ length: dimensions }, () => Math.random() * 2 - 1);
+}
+
+function runBenchmark(records: number, dimensions: number, queries: number, k = 10): BenchmarkResult {
+  const entries: VectorSearchEntry[] = Array.from({ length: records }, (_, index) => ({
+    id: `vector_${index}`,
+    vectors: [randomVector(dimensions)],
+    metadata: {},
+    timestamp: index
+  }));
+  const queryVectors = Array.from({ length: queries }, () => randomVector(dimensions));
+
+  const index = new HNSWIndex({ M: 16, efConstruction: 200, metric: 'cosine' });
+  const buildStart = performance.now();
+  for (const entry of entries) {
+    index.add(entry.id, entry.vectors[0]);
+  }
+  const buildMs = performance.now() - buildStart;
+
+  const bruteStart = performance.now();
+  const exact = queryVectors.map(query => new Set(
+    bruteForceSearch(entries, query, { k }).map(result => result.id)
+  ));
+  const bruteForceMsPerQuery = (performance.now() - bruteStart) / queries;
+
+  const runs = [16, 32, 64, 128, 256].map(efSearch => {
+    let hits = 0;
+    const start = performance.now();
+    const approximate = queryVectors.map(query => index.search(query, k, efSearch));
+    const hnswMsPerQuery = (performance.now() - start) / queries;
+
+    approximate.forEach((results, queryIndex) => {
+      hits += results.filter(result => exact[queryIndex].has(result.key)).length;
+    });
+
+    return {
+      efSearch,
+      recall: hits / (queries * k),
+      hnswMsPerQuery,
+      speedup: bruteForceMsPerQuery / hnswMsPerQuery
+    };
+  });
+
+  return { records, dimensions, queries, k, buildMs, bruteForceMsPerQuery, runs };
+}
+
+// Run the benchmark when executed directly (the package is an ES module, so there is no require.main)
+if (process.argv[1] && import.meta.url === pathToFileURL(process.argv[1]).href) {
+  const [records = 10000, dimensions = 128, queries = 100] = process.argv.slice(2).map(Number);
+
+  console.log(`📐 Benchmarking ${records} vectors x ${dimensions} dimensions, ${queries} queries...\n`);
+  const result = runBenchmark(records, dimensions, queries);
+
+  console.log(`HNSW build: ${result.buildMs.toFixed(0)} ms`);
+  console.log(`Brute force: ${result.bruteForceMsPerQuery.toFixed(3)} ms/query\n`);
+  console.table(result.runs.map(run => ({
+    efSearch: run.efSearch,
+    [`recall@${result.k}`]: run.recall.toFixed(3),
+    'ms/query': run.hnswMsPerQuery.toFixed(3),
+    speedup: `${run.speedup.toFixed(1)}x`
+  })));
+}
+
+export default runBenchmark;
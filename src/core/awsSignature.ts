@@ -0,0 +1,133 @@
+/*
+ * Copyright 2025 SmartClone Contributors
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+/**
+ * AWS Signature Version 4 request signing on WebCrypto, for S3-compatible object storage.
+ */
+
+import { requireWebCrypto } from './encryption';
+
+export interface AwsCredentials {
+  accessKeyId: string;
+  secretAccessKey: string;
+  /** Session token of temporary credentials. */
+  sessionToken?: string;
+}
+
+export interface SignRequestOptions {
+  method: string;
+  /** Request URL with an RFC 3986 encoded path. */
+  url: string;
+  headers?: Record<string, string>;
+  body?: string | Uint8Array;
+  region: string;
+  service?: string;
+  credentials: AwsCredentials;
+  /** Signing time. Defaults to now. */
+  date?: Date;
+}
+
+const encoder = new TextEncoder();
+
+/**
+ * Percent-encode a string as SigV4 requires (RFC 3986 unreserved characters only).
+ */
+export function encodeRfc3986(value: string): string {
+  return encodeURIComponent(value).replace(/[!'()*]/g, character =>
+    `%${character.charCodeAt(0).toString(16).toUpperCase()}`
+  );
+}
+
+function toHex(buffer: ArrayBuffer): string {
+  return Array.from(new Uint8Array(buffer), byte => byte.toString(16).padStart(2, '0')).join('');
+}
+
+function toBytes(value: string | Uint8Array) {
+  return typeof value === 'string' ? encoder.encode(value) : new Uint8Array(value);
+}
+
+async function sha256Hex(value: string | Uint8Array): Promise<string> {
+  const webCrypto = await requireWebCrypto();
+  return toHex(await webCrypto.subtle.digest('SHA-256', toBytes(value)));
+}
+
+async function hmac(key: string | Uint8Array | ArrayBuffer, value: string): Promise<ArrayBuffer> {
+  const webCrypto = await requireWebCrypto();
+  const keyBytes = key instanceof ArrayBuffer ? new Uint8Array(key) : toBytes(key);
+  const cryptoKey = await webCrypto.subtle.importKey('raw', keyBytes, { name: 'HMAC', hash: 'SHA-256' }, false, ['sign']);
+  return webCrypto.subtle.sign('HMAC', cryptoKey, encoder.encode(value));
+}
+
+function canonicalQuery(url: URL): string {
+  return Array.from(url.searchParams.entries())
+    .map(([key, value]) => [encodeRfc3986(key), encodeRfc3986(value)])
+    .sort(([keyA, valueA], [keyB, valueB]) =>
+      keyA < keyB ? -1 : keyA > keyB ? 1 : valueA < valueB ? -1 : valueA > valueB ? 1 : 0
+    )
+    .map(([key, value]) => `${key}=${value}`)
+    .join('&');
+}
+
+/**
+ * Sign a request and return the headers to send with it (the host header is left to fetch).
+ */
+export async function signRequest(options: SignRequestOptions): Promise<Record<string, string>> {
+  const url = new URL(options.url);
+  const service = options.service ?? 's3';
+  const amzDate = (options.date ?? new Date()).toISOString().replace(/[:-]|\.\d{3}/g, '');
+  const dateStamp = amzDate.slice(0, 8);
+  const payloadHash = await sha256Hex(options.body ?? '');
+
+  const headers: Record<string, string> = {
+    ...options.headers,
+    'x-amz-date': amzDate,
+    'x-amz-content-sha256': payloadHash
+  };
+  if (options.credentials.sessionToken) {
+    headers['x-amz-security-token'] = options.credentials.sessionToken;
+  }
+
+  const signed = new Map<string, string>([['host', url.host]]);
+  for (const [name, value] of Object.entries(headers)) {
+    signed.set(name.toLowerCase(), value.trim().replace(/\s+/g, ' '));
+  }
+  const signedNames = Array.from(signed.keys()).sort();
+  const signedHeaders = signedNames.join(';');
+
+  const canonicalRequest = [
+    options.method.toUpperCase(),
+    url.pathname || '/',
+    canonicalQuery(url),
+    signedNames.map(name => `${name}:${signed.get(name)}\n`).join(''),
+    signedHeaders,
+    payloadHash
+  ].join('\n');
+
+  const scope = `${dateStamp}/${options.region}/${service}/aws4_request`;
+  const stringToSign = ['AWS4-HMAC-SHA256', amzDate, scope, await sha256Hex(canonicalRequest)].join('\n');
+
+  let signingKey = await hmac(`AWS4${options.credentials.secretAccessKey}`, dateStamp);
+  for (const part of [options.region, service, 'aws4_request']) {
+    signingKey = await hmac(signingKey, part);
+  }
+  const signature = toHex(await hmac(signingKey, stringToSign));
+
+  return {
+    ...headers,
+    Authorization: `AWS4-HMAC-SHA256 Credential=${options.credentials.accessKeyId}/${scope}, `
+      + `SignedHeaders=${signedHeaders}, Signature=${signature}`
+  };
+}
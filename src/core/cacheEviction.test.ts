@@ -0,0 +1,69 @@
+/*
+ * Copyright 2025 SmartClone Contributors
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+import { CacheTracker, estimateItemSize } from './cacheEviction';
+
+describe('CacheTracker', () => {
+  it('tracks bytes and items against the tightest budget', () => {
+    const cache = new CacheTracker({ maxBytes: 100, maxItems: 4 });
+    cache.track('a', 'relational', 30);
+    cache.track('b', 'vector', 30);
+    cache.track('a', 'relational', 50);
+
+    expect(cache.size).toBe(2);
+    expect(cache.bytes).toBe(80);
+    expect(cache.usageRatio()).toBeCloseTo(0.8);
+    expect(cache.overBudget()).toBe(false);
+
+    cache.track('c', 'graph', 30);
+    expect(cache.overBudget()).toBe(true);
+    cache.untrack('c');
+    expect(cache.bytes).toBe(80);
+    expect(cache.typeOf('b')).toBe('vector');
+  });
+
+  it('orders eviction candidates by recency or by frequency', () => {
+    const lru = new CacheTracker({ maxItems: 1 });
+    const lfu = new CacheTracker({ maxItems: 1, eviction: 'lfu' });
+    for (const cache of [lru, lfu]) {
+      cache.track('a', 'relational', 1);
+      cache.touch('a');
+      cache.touch('a');
+      cache.track('b', 'relational', 1);
+      cache.track('c', 'relational', 1);
+      cache.touch('b');
+    }
+
+    expect(lru.candidates()).toEqual(['a', 'c', 'b']);
+    expect(lfu.candidates()).toEqual(['c', 'b', 'a']);
+    expect(new CacheTracker().budgeted).toBe(false);
+  });
+
+  it('reports expired records and the next expiry', () => {
+    const cache = new CacheTracker();
+    cache.track('old', 'relational', 1, 1000);
+    cache.track('new', 'vector', 1, 3000);
+    cache.track('forever', 'graph', 1);
+
+    expect(cache.expired(2000)).toEqual([{ id: 'old', type: 'relational' }]);
+    expect(cache.nextExpiry()).toBe(1000);
+  });
+});
+
+describe('estimateItemSize', () => {
+  it('counts encrypted strings by length and other values as JSON', () => {
+    expect(estimateItemSize({ data: 'abcd', metadata: { a: 1 } })).toBe(4 + 7);
+  });
+});
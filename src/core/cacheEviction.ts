@@ -0,0 +1,169 @@
+/*
+ * Copyright 2025 SmartClone Contributors
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+/**
+ * Size, access and expiry bookkeeping for the in-memory stores of hybrid storage.
+ * The tracker only ranks records; the storage decides which of them may actually be evicted.
+ */
+
+import type { PersistedStoreType } from './localPersistence';
+
+export type EvictionPolicy = 'lru' | 'lfu';
+
+export interface CacheOptions {
+  /** Budget for items held in memory, in bytes of their serialised (encrypted) form. */
+  maxBytes?: number;
+  /** Maximum number of items held in memory. */
+  maxItems?: number;
+  /** Least recently or least frequently used records are evicted first. Defaults to 'lru'. */
+  eviction?: EvictionPolicy;
+  /** Share of a budget or of the device quota at which quota pressure is reported. Defaults to 0.9. */
+  pressureThreshold?: number;
+  /**
+   * Minimum interval between device quota checks (navigator.storage.estimate()) in milliseconds.
+   * Defaults to one minute; 0 disables the check.
+   */
+  quotaCheckInterval?: number;
+}
+
+export interface QuotaPressureEvent {
+  /** "memory": the in-memory budget. "device": the storage quota the browser grants the origin. */
+  source: 'memory' | 'device';
+  usedBytes: number;
+  /** maxBytes for memory, the device quota otherwise. Unset for an item-count-only budget. */
+  budgetBytes?: number;
+  itemCount?: number;
+  /** Usage relative to the tightest budget. */
+  ratio: number;
+  /** Records evicted from memory; they are fetched from a connector again on demand. */
+  evicted: string[];
+  /** Records over budget that could not be evicted because no connector holds their current version yet. */
+  pinned: number;
+}
+
+export interface CacheUsage {
+  items: number;
+  bytes: number;
+  maxBytes?: number;
+  maxItems?: number;
+  /** Device storage from navigator.storage.estimate(), when available. */
+  device?: { total: number; available: number };
+}
+
+interface CacheEntry {
+  type: PersistedStoreType;
+  bytes: number;
+  hits: number;
+  lastAccess: number;
+  expiresAt?: number;
+}
+
+export class CacheTracker {
+  private entries: Map<string, CacheEntry> = new Map();
+  private totalBytes = 0;
+  // Access counter instead of timestamps, so records touched within the same millisecond still have an order
+  private accessCounter = 0;
+
+  constructor(private readonly options: CacheOptions = {}) {}
+
+  get size() {
+    return this.entries.size;
+  }
+
+  get bytes() {
+    return this.totalBytes;
+  }
+
+  get budgeted() {
+    return !!(this.options.maxBytes || this.options.maxItems);
+  }
+
+  track(id: string, type: PersistedStoreType, bytes: number, expiresAt?: number) {
+    const existing = this.entries.get(id);
+    this.totalBytes += bytes - (existing?.bytes ?? 0);
+    this.entries.set(id, {
+      type,
+      bytes,
+      hits: (existing?.hits ?? 0) + 1,
+      lastAccess: ++this.accessCounter,
+      expiresAt
+    });
+  }
+
+  touch(id: string) {
+    const entry = this.entries.get(id);
+    if (!entry) return;
+    entry.hits++;
+    entry.lastAccess = ++this.accessCounter;
+  }
+
+  untrack(id: string) {
+    const entry = this.entries.get(id);
+    if (!entry) return;
+    this.totalBytes -= entry.bytes;
+    this.entries.delete(id);
+  }
+
+  typeOf(id: string): PersistedStoreType | undefined {
+    return this.entries.get(id)?.type;
+  }
+
+  /** Usage relative to the tightest configured budget. */
+  usageRatio(): number {
+    const { maxBytes, maxItems } = this.options;
+    return Math.max(maxBytes ? this.totalBytes / maxBytes : 0, maxItems ? this.entries.size / maxItems : 0);
+  }
+
+  overBudget(): boolean {
+    const { maxBytes, maxItems } = this.options;
+    return (!!maxBytes && this.totalBytes > maxBytes) || (!!maxItems && this.entries.size > maxItems);
+  }
+
+  /** Tracked records in eviction order. */
+  candidates(): string[] {
+    const ranked = Array.from(this.entries.entries());
+    if (this.options.eviction === 'lfu') {
+      ranked.sort(([, a], [, b]) => a.hits - b.hits || a.lastAccess - b.lastAccess);
+    } else {
+      ranked.sort(([, a], [, b]) => a.lastAccess - b.lastAccess);
+    }
+    return ranked.map(([id]) => id);
+  }
+
+  expired(now = Date.now()): Array<{ id: string; type: PersistedStoreType }> {
+    const expired: Array<{ id: string; type: PersistedStoreType }> = [];
+    for (const [id, entry] of this.entries) {
+      if (entry.expiresAt !== undefined && entry.expiresAt <= now) expired.push({ id, type: entry.type });
+    }
+    return expired;
+  }
+
+  nextExpiry(): number | undefined {
+    let next: number | undefined;
+    for (const entry of this.entries.values()) {
+      if (entry.expiresAt !== undefined && (next === undefined || entry.expiresAt < next)) next = entry.expiresAt;
+    }
+    return next;
+  }
+}
+
+/**
+ * Approximate in-memory size of a stored item.
+ */
+export function estimateItemSize(item: { data: unknown; metadata: unknown }): number {
+  const size = (value: unknown) => (typeof value === 'string' ? value.length : (JSON.stringify(value) ?? '').length);
+  return size(item.data) + size(item.metadata);
+}
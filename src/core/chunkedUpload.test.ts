@@ -0,0 +1,188 @@
+/*
+ * Copyright 2025 SmartClone Contributors
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { runChunkedUpload, shouldUseChunkedUpload, type UploadProgress, type UploadSessionProtocol } from './chunkedUpload';
+import * as encryption from './encryption';
+import type { KeyStore } from './keyManagement';
+
+function memoryStore(): KeyStore & { values: Map<string, string> } {
+  const values = new Map<string, string>();
+  return {
+    values,
+    async get(key) {
+      return values.get(key) ?? null;
+    },
+    async set(key, value) {
+      values.set(key, value);
+    },
+    async delete(key) {
+      values.delete(key);
+    }
+  };
+}
+
+/**
+ * Provider keeping the bytes of each session, like an upload session endpoint.
+ */
+function fakeProvider(options: { granularity?: number; failWrites?: number[] } = {}) {
+  const sessions = new Map<string, number[]>();
+  const writes: Array<{ session: string; offset: number; length: number }> = [];
+  const failWrites = new Set(options.failWrites ?? []);
+  let created = 0;
+  const protocol: UploadSessionProtocol<{ url: string }> = {
+    granularity: options.granularity,
+    async create() {
+      const url = `session-${++created}`;
+      sessions.set(url, []);
+      return { url };
+    },
+    async status(session) {
+      return sessions.get(session.url)?.length ?? null;
+    },
+    async write(session, chunk, offset, totalBytes) {
+      writes.push({ session: session.url, offset, length: chunk.length });
+      const received = sessions.get(session.url)!;
+      if (failWrites.delete(writes.length)) {
+        // The connection drops after the provider kept half of the chunk
+        received.push(...chunk.subarray(0, chunk.length / 2));
+        throw new Error('connection reset');
+      }
+      received.push(...chunk);
+      return received.length === totalBytes ? { offset: totalBytes, done: true, raw: { url: session.url } } : { offset: received.length };
+    }
+  };
+  return { protocol, sessions, writes, expire: (url: string) => sessions.delete(url) };
+}
+
+function bytes(length: number, seed = 0) {
+  return Uint8Array.from({ length }, (_, index) => (index + seed) % 256);
+}
+
+const context = { connectorId: 'test', id: 'record' };
+
+describe('shouldUseChunkedUpload', () => {
+  it('uses sessions above the threshold', () => {
+    expect(shouldUseChunkedUpload(4 * 1024 * 1024)).toBe(false);
+    expect(shouldUseChunkedUpload(4 * 1024 * 1024 + 1)).toBe(true);
+    expect(shouldUseChunkedUpload(11, { threshold: 10 })).toBe(true);
+  });
+});
+
+describe('runChunkedUpload', () => {
+  it('uploads in chunks rounded to the granularity and reports progress', async () => {
+    const provider = fakeProvider({ granularity: 4 });
+    const sessionStore = memoryStore();
+    const progress: UploadProgress[] = [];
+    const body = bytes(20);
+
+    const raw = await runChunkedUpload(provider.protocol, body, context, {
+      chunkSize: 10,
+      sessionStore,
+      onProgress: update => progress.push(update)
+    });
+
+    expect(raw).toEqual({ url: 'session-1' });
+    expect(provider.writes.map(write => [write.offset, write.length])).toEqual([[0, 8], [8, 8], [16, 4]]);
+    expect(provider.sessions.get('session-1')).toEqual(Array.from(body));
+    expect(progress.map(update => update.uploadedBytes)).toEqual([0, 8, 16, 20]);
+    expect(sessionStore.values.size).toBe(0);
+  });
+
+  it('retries a failed chunk from the offset the provider reports', async () => {
+    const provider = fakeProvider({ failWrites: [2] });
+    const body = bytes(30);
+
+    await runChunkedUpload(provider.protocol, body, context, { chunkSize: 10, sessionStore: memoryStore() });
+
+    expect(provider.writes.map(write => [write.offset, write.length])).toEqual([[0, 10], [10, 10], [15, 10], [25, 5]]);
+    expect(provider.sessions.get('session-1')).toEqual(Array.from(body));
+  });
+
+  it('resumes the saved session of a failed upload of the same content', async () => {
+    const provider = fakeProvider({ failWrites: [2] });
+    const sessionStore = memoryStore();
+    const body = bytes(30);
+
+    await expect(runChunkedUpload(provider.protocol, body, context, { chunkSize: 10, maxRetries: 0, sessionStore }))
+      .rejects.toThrow('connection reset');
+    expect(sessionStore.values.size).toBe(1);
+
+    await runChunkedUpload(provider.protocol, body, context, { chunkSize: 10, sessionStore });
+    expect(provider.writes.slice(2).map(write => [write.session, write.offset])).toEqual([['session-1', 15], ['session-1', 25]]);
+    expect(provider.sessions.get('session-1')).toEqual(Array.from(body));
+    expect(sessionStore.values.size).toBe(0);
+  });
+
+  it('starts over when the saved session belongs to other content', async () => {
+    const provider = fakeProvider({ failWrites: [2] });
+    const sessionStore = memoryStore();
+
+    await expect(runChunkedUpload(provider.protocol, bytes(30), context, { chunkSize: 10, maxRetries: 0, sessionStore }))
+      .rejects.toThrow('connection reset');
+    const changed = bytes(30, 1);
+    await runChunkedUpload(provider.protocol, changed, context, { chunkSize: 10, sessionStore });
+
+    expect(provider.writes.slice(2).map(write => [write.session, write.offset])).toEqual([['session-2', 0], ['session-2', 10], ['session-2', 20]]);
+    expect(provider.sessions.get('session-2')).toEqual(Array.from(changed));
+    expect(sessionStore.values.size).toBe(0);
+  });
+
+  it('starts over when the saved session expired', async () => {
+    const provider = fakeProvider({ failWrites: [1] });
+    const sessionStore = memoryStore();
+    const body = bytes(20);
+
+    await expect(runChunkedUpload(provider.protocol, body, context, { chunkSize: 10, maxRetries: 0, sessionStore }))
+      .rejects.toThrow('connection reset');
+    provider.expire('session-1');
+    await runChunkedUpload(provider.protocol, body, context, { chunkSize: 10, sessionStore });
+
+    expect(provider.writes.slice(1).map(write => [write.session, write.offset])).toEqual([['session-2', 0], ['session-2', 10]]);
+    expect(provider.sessions.get('session-2')).toEqual(Array.from(body));
+  });
+
+  it('discards a stale session even when the new upload cannot start', async () => {
+    const provider = fakeProvider({ failWrites: [1] });
+    const sessionStore = memoryStore();
+
+    await expect(runChunkedUpload(provider.protocol, bytes(20), context, { chunkSize: 10, maxRetries: 0, sessionStore }))
+      .rejects.toThrow('connection reset');
+    provider.protocol.create = async () => {
+      throw new Error('quota exceeded');
+    };
+    await expect(runChunkedUpload(provider.protocol, bytes(20, 1), context, { chunkSize: 10, sessionStore }))
+      .rejects.toThrow('quota exceeded');
+    expect(sessionStore.values.size).toBe(0);
+  });
+
+  it('never resumes sessions without WebCrypto to fingerprint the content', async () => {
+    const provider = fakeProvider({ failWrites: [2] });
+    const sessionStore = memoryStore();
+    const resolveWebCrypto = jest.spyOn(encryption, 'resolveWebCrypto').mockResolvedValue(null);
+
+    try {
+      await expect(runChunkedUpload(provider.protocol, bytes(30), context, { chunkSize: 10, maxRetries: 0, sessionStore }))
+        .rejects.toThrow('connection reset');
+      expect(sessionStore.values.size).toBe(0);
+
+      // Same length, different bytes: only a digest could tell them apart
+      await runChunkedUpload(provider.protocol, bytes(30, 1), context, { chunkSize: 10, sessionStore });
+      expect(provider.sessions.get('session-2')).toEqual(Array.from(bytes(30, 1)));
+    } finally {
+      resolveWebCrypto.mockRestore();
+    }
+  });
+});
@@ -0,0 +1,182 @@
+/*
+ * Copyright 2025 SmartClone Contributors
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+/**
+ * Resumable chunked uploads for connectors whose single-request uploads are size limited.
+ * Provider specifics live in an UploadSessionProtocol; this module drives chunking, retries and resumption.
+ */
+
+import { resolveWebCrypto } from './encryption';
+import type { KeyStore } from './keyManagement';
+
+export interface UploadProgress {
+  connectorId: string;
+  /** Record ID. */
+  id: string;
+  uploadedBytes: number;
+  totalBytes: number;
+}
+
+export interface ChunkedUploadOptions {
+  /** Payloads larger than this many bytes use an upload session. Defaults to 4 MiB. */
+  threshold?: number;
+  /** Chunk size in bytes, rounded down to the provider's chunk granularity. Defaults to 5 MiB. */
+  chunkSize?: number;
+  /** Consecutive failed chunks tolerated before the upload fails. Defaults to 3. */
+  maxRetries?: number;
+  onProgress?: (progress: UploadProgress) => void;
+  /**
+   * Store for open upload sessions, so a failed upload resumes where it stopped even after a restart.
+   * Without a store sessions are kept in memory.
+   */
+  sessionStore?: KeyStore;
+}
+
+export interface ChunkWriteResult {
+  /** Bytes the provider has received so far. */
+  offset: number;
+  /** The provider finished the upload with this chunk. */
+  done?: boolean;
+  raw?: unknown;
+}
+
+export interface UploadSessionProtocol<Session> {
+  /** Chunk sizes must be a multiple of this many bytes (except for the last chunk). */
+  granularity?: number;
+  create(totalBytes: number): Promise<Session>;
+  /** Bytes the provider already holds, or null when the session expired or is unknown. */
+  status(session: Session, totalBytes: number): Promise<number | null>;
+  write(session: Session, chunk: Uint8Array<ArrayBuffer>, offset: number, totalBytes: number): Promise<ChunkWriteResult>;
+  /** Commit the upload when the provider needs an explicit final call. */
+  finish?(session: Session): Promise<unknown>;
+}
+
+interface SavedSession<Session> {
+  session: Session;
+  fingerprint: string | null;
+}
+
+const DEFAULT_THRESHOLD = 4 * 1024 * 1024;
+const DEFAULT_CHUNK_SIZE = 5 * 1024 * 1024;
+const MEMORY_SESSIONS = new Map<string, string>();
+
+function delay(milliseconds: number) {
+  return new Promise(resolve => setTimeout(resolve, milliseconds));
+}
+
+/**
+ * SHA-256 of the body, or null without WebCrypto: then content cannot be matched and sessions are never resumed.
+ */
+async function fingerprintOf(body: Uint8Array<ArrayBuffer>): Promise<string | null> {
+  const webCrypto = await resolveWebCrypto();
+  if (!webCrypto) return null;
+  const digest = new Uint8Array(await webCrypto.subtle.digest('SHA-256', body));
+  return `${body.length}:${Array.from(digest, byte => byte.toString(16).padStart(2, '0')).join('')}`;
+}
+
+export function shouldUseChunkedUpload(totalBytes: number, options?: ChunkedUploadOptions): boolean {
+  return totalBytes > (options?.threshold ?? DEFAULT_THRESHOLD);
+}
+
+/**
+ * Upload a body through a resumable session. A previous session for the same record and content is resumed;
+ * failed chunks are retried from the offset the provider reports.
+ */
+export async function runChunkedUpload<Session>(
+  protocol: UploadSessionProtocol<Session>,
+  body: Uint8Array<ArrayBuffer>,
+  context: { connectorId: string; id: string },
+  options: ChunkedUploadOptions = {}
+): Promise<unknown> {
+  const totalBytes = body.length;
+  const granularity = protocol.granularity ?? 1;
+  const chunkSize = Math.max(granularity, Math.floor((options.chunkSize ?? DEFAULT_CHUNK_SIZE) / granularity) * granularity);
+  const maxRetries = options.maxRetries ?? 3;
+  const sessionKey = `smartclone_upload_${context.connectorId}_${context.id}`;
+  const fingerprint = await fingerprintOf(body);
+
+  const loadSession = async (): Promise<SavedSession<Session> | null> => {
+    const raw = options.sessionStore ? await options.sessionStore.get(sessionKey) : MEMORY_SESSIONS.get(sessionKey);
+    return raw ? JSON.parse(raw) : null;
+  };
+  const saveSession = async (session: Session) => {
+    if (fingerprint === null) return;
+    const raw = JSON.stringify({ session, fingerprint } satisfies SavedSession<Session>);
+    if (options.sessionStore) await options.sessionStore.set(sessionKey, raw);
+    else MEMORY_SESSIONS.set(sessionKey, raw);
+  };
+  const clearSession = async () => {
+    if (options.sessionStore) await options.sessionStore.delete(sessionKey);
+    else MEMORY_SESSIONS.delete(sessionKey);
+  };
+  const startSession = async () => {
+    const created = await protocol.create(totalBytes);
+    await saveSession(created);
+    return created;
+  };
+
+  let session: Session | null = null;
+  let offset = 0;
+  const saved = await loadSession().catch(() => null);
+  if (saved && fingerprint !== null && saved.fingerprint === fingerprint) {
+    const resumedAt = await protocol.status(saved.session, totalBytes).catch(() => null);
+    if (resumedAt !== null) {
+      session = saved.session;
+      offset = resumedAt;
+    }
+  }
+  if (!session) {
+    // A session for other content (or one that expired) must never be resumed later
+    if (saved) await clearSession().catch(() => undefined);
+    session = await startSession();
+  }
+
+  const report = () => options.onProgress?.({ ...context, uploadedBytes: offset, totalBytes });
+  report();
+
+  let raw: unknown;
+  let failures = 0;
+  let done = false;
+  while (!done && offset < totalBytes) {
+    const chunk = body.subarray(offset, Math.min(offset + chunkSize, totalBytes));
+    try {
+      const result = await protocol.write(session, chunk, offset, totalBytes);
+      if (!result.done && result.offset <= offset) {
+        throw new Error(`Upload of ${context.id} made no progress at offset ${offset}`);
+      }
+      offset = result.offset;
+      done = !!result.done;
+      raw = result.raw;
+      failures = 0;
+      report();
+    } catch (error) {
+      // The session stays saved, so a later attempt can still resume it
+      if (++failures > maxRetries) throw error;
+      await delay(500 * 2 ** (failures - 1));
+      const resumedAt = await protocol.status(session, totalBytes).catch(() => null);
+      if (resumedAt === null) {
+        session = await startSession();
+        offset = 0;
+      } else {
+        offset = resumedAt;
+      }
+    }
+  }
+
+  if (protocol.finish) raw = await protocol.finish(session);
+  await clearSession().catch(() => undefined);
+  return raw;
+}
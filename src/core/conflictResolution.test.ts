@@ -0,0 +1,87 @@
+/*
+ * Copyright 2025 SmartClone Contributors
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+import {
+  compareClocks,
+  compareCopies,
+  computeContentHash,
+  incrementClock,
+  latestCopies,
+  mergeClocks,
+  pickCopy,
+  type RecordCopy
+} from './conflictResolution';
+
+function copy(providerId: string, overrides: Partial<RecordCopy> = {}): RecordCopy {
+  return { providerId, data: null, metadata: null, timestamp: 1, version: 1, ...overrides };
+}
+
+describe('version vectors', () => {
+  it('increments and merges per-replica counters', () => {
+    const clock = incrementClock(incrementClock(undefined, 'laptop'), 'laptop');
+    expect(clock).toEqual({ laptop: 2 });
+    expect(mergeClocks(clock, { phone: 1, laptop: 1 }, undefined)).toEqual({ laptop: 2, phone: 1 });
+  });
+
+  it('orders clocks causally', () => {
+    expect(compareClocks({ a: 1 }, { a: 2 })).toBe('before');
+    expect(compareClocks({ a: 2, b: 1 }, { a: 2 })).toBe('after');
+    expect(compareClocks({ a: 1 }, { a: 1 })).toBe('equal');
+    expect(compareClocks({ a: 2 }, { a: 1, b: 1 })).toBe('concurrent');
+  });
+});
+
+describe('compareCopies', () => {
+  it('orders copies without a clock before clocked ones and compares hashes otherwise', () => {
+    expect(compareCopies(copy('a', { hash: 'x' }), copy('b', { hash: 'y', clock: { a: 1 } }))).toBe('before');
+    expect(compareCopies(copy('a', { hash: 'x' }), copy('b', { hash: 'x' }))).toBe('equal');
+    expect(compareCopies(copy('a', { hash: 'x' }), copy('b', { hash: 'y' }))).toBe('concurrent');
+    expect(compareCopies(copy('a'), copy('b'))).toBe('concurrent');
+  });
+
+  it('hashes stored content deterministically', async () => {
+    const hash = await computeContentHash({ n: 1 }, { tag: 'x' });
+    expect(hash).toBe(await computeContentHash({ n: 1 }, { tag: 'x' }));
+    expect(hash).not.toBe(await computeContentHash({ n: 2 }, { tag: 'x' }));
+  });
+});
+
+describe('latestCopies', () => {
+  it('drops copies superseded by another copy', () => {
+    const newest = copy('b', { clock: { laptop: 2 } });
+    expect(latestCopies([copy('a', { clock: { laptop: 1 } }), newest])).toEqual([newest]);
+  });
+
+  it('keeps one copy per equal clock and every concurrent copy', () => {
+    const first = copy('a', { clock: { laptop: 1 } });
+    const same = copy('b', { clock: { laptop: 1 } });
+    const other = copy('c', { clock: { phone: 1 } });
+    expect(latestCopies([first, same, other])).toEqual([first, other]);
+  });
+});
+
+describe('pickCopy', () => {
+  const older = copy('a', { timestamp: 1, version: 3 });
+  const newer = copy('b', { timestamp: 2, version: 2 });
+
+  it('prefers the latest timestamp for last-writer-wins', () => {
+    expect(pickCopy([older, newer], 'last-writer-wins')).toBe(newer);
+  });
+
+  it('prefers the highest version and falls back to the timestamp', () => {
+    expect(pickCopy([older, newer], 'highest-version')).toBe(older);
+    expect(pickCopy([copy('a', { timestamp: 1 }), copy('b', { timestamp: 2 })], 'highest-version').providerId).toBe('b');
+  });
+});
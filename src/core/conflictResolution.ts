@@ -0,0 +1,141 @@
+/*
+ * Copyright 2025 SmartClone Contributors
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+/**
+ * Conflict detection for records held by several connectors.
+ * Copies carry a version vector (per-replica counters) and a hash of their stored (encrypted) content.
+ */
+
+import { bytesToBase64, resolveWebCrypto } from './encryption';
+
+export type VersionVector = Record<string, number>;
+
+export type ClockOrder = 'before' | 'after' | 'equal' | 'concurrent';
+
+/**
+ * One connector's copy of a record, decrypted.
+ */
+export interface RecordCopy {
+  providerId: string;
+  data: any;
+  metadata: any;
+  timestamp: number;
+  version: number;
+  clock?: VersionVector;
+  hash?: string;
+  /** The copy is a tombstone. */
+  deleted?: boolean;
+}
+
+export interface RecordConflict {
+  id: string;
+  type: 'vector' | 'graph' | 'relational';
+  copies: RecordCopy[];
+}
+
+/**
+ * Custom resolution: return one of the copies, or merged data and metadata that are written as a new version.
+ */
+export type ConflictResolver = (
+  conflict: RecordConflict
+) => RecordCopy | { data: any; metadata: any } | Promise<RecordCopy | { data: any; metadata: any }>;
+
+export type ConflictStrategy = 'last-writer-wins' | 'highest-version' | ConflictResolver;
+
+export interface ConflictReport {
+  id: string;
+  type: 'vector' | 'graph' | 'relational';
+  /**
+   * "stale": one copy causally supersedes the others. "concurrent": copies were changed independently
+   * and the strategy picked the result.
+   */
+  kind: 'stale' | 'concurrent';
+  strategy: 'last-writer-wins' | 'highest-version' | 'custom' | 'version-vector';
+  copies: Array<Pick<RecordCopy, 'providerId' | 'version' | 'timestamp' | 'clock' | 'hash' | 'deleted'>>;
+  /** Provider whose copy won, or "merged" for a custom merge. */
+  winner: string;
+  /** Providers that were sent the resolved record. */
+  repaired: string[];
+  resolvedAt: number;
+}
+
+/**
+ * SHA-256 of a stored record's data and metadata, base64 encoded. Undefined without WebCrypto.
+ */
+export async function computeContentHash(data: unknown, metadata: unknown): Promise<string | undefined> {
+  const webCrypto = await resolveWebCrypto();
+  if (!webCrypto) return undefined;
+  const digest = await webCrypto.subtle.digest('SHA-256', new TextEncoder().encode(JSON.stringify([data, metadata ?? null])));
+  return bytesToBase64(new Uint8Array(digest));
+}
+
+export function incrementClock(clock: VersionVector | undefined, replicaId: string): VersionVector {
+  return { ...(clock ?? {}), [replicaId]: (clock?.[replicaId] ?? 0) + 1 };
+}
+
+export function mergeClocks(...clocks: Array<VersionVector | undefined>): VersionVector {
+  const merged: VersionVector = {};
+  for (const clock of clocks) {
+    for (const [replica, counter] of Object.entries(clock ?? {})) {
+      merged[replica] = Math.max(merged[replica] ?? 0, counter);
+    }
+  }
+  return merged;
+}
+
+export function compareClocks(a: VersionVector, b: VersionVector): ClockOrder {
+  let aAhead = false;
+  let bAhead = false;
+  for (const replica of new Set([...Object.keys(a), ...Object.keys(b)])) {
+    const difference = (a[replica] ?? 0) - (b[replica] ?? 0);
+    if (difference > 0) aAhead = true;
+    if (difference < 0) bAhead = true;
+  }
+  if (aAhead && bAhead) return 'concurrent';
+  return aAhead ? 'after' : bAhead ? 'before' : 'equal';
+}
+
+/**
+ * Order two copies causally. A copy without a version vector predates them (0.1.0) and orders before one
+ * with a vector; without vectors on either side, differing content counts as concurrent.
+ */
+export function compareCopies(a: Pick<RecordCopy, 'clock' | 'hash'>, b: Pick<RecordCopy, 'clock' | 'hash'>): ClockOrder {
+  if (a.clock || b.clock) return compareClocks(a.clock ?? {}, b.clock ?? {});
+  return a.hash !== undefined && a.hash === b.hash ? 'equal' : 'concurrent';
+}
+
+/**
+ * Copies no other copy causally supersedes. A single survivor means the remaining copies are stale.
+ */
+export function latestCopies(copies: RecordCopy[]): RecordCopy[] {
+  const survivors = copies.filter(copy => !copies.some(other => other !== copy && compareCopies(copy, other) === 'before'));
+  // Equal clocks describe the same change (e.g. a re-encrypted copy); keep the first of each
+  return survivors.filter((copy, index) =>
+    !survivors.slice(0, index).some(previous => compareCopies(previous, copy) === 'equal')
+  );
+}
+
+/**
+ * Pick a winner among concurrent copies with a built-in strategy. Earlier copies win ties.
+ */
+export function pickCopy(copies: RecordCopy[], strategy: 'last-writer-wins' | 'highest-version'): RecordCopy {
+  return copies.reduce((best, copy) => {
+    if (strategy === 'highest-version' && copy.version !== best.version) {
+      return copy.version > best.version ? copy : best;
+    }
+    return copy.timestamp > best.timestamp ? copy : best;
+  });
+}
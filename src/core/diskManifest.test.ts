@@ -0,0 +1,103 @@
+/*
+ * Copyright 2025 SmartClone Contributors
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+import { promises as fs } from 'fs';
+import { tmpdir } from 'os';
+import path from 'path';
+import { DiskManifest, type DiskManifestEntry } from './diskManifest';
+
+describe('DiskManifest', () => {
+  let directory: string;
+  let snapshotPath: string;
+  let journalPath: string;
+
+  beforeEach(async () => {
+    directory = await fs.mkdtemp(path.join(tmpdir(), 'smartclone-manifest-'));
+    snapshotPath = path.join(directory, 'index.manifest.json');
+    journalPath = path.join(directory, 'index.manifest.log');
+  });
+
+  afterEach(async () => {
+    await fs.rm(directory, { recursive: true, force: true });
+  });
+
+  const open = (rebuild: () => Promise<Array<[string, DiskManifestEntry]>> = async () => []) =>
+    new DiskManifest(snapshotPath, journalPath, rebuild);
+
+  it('indexes existing files once when there is no manifest yet', async () => {
+    const rebuild = jest.fn(async (): Promise<Array<[string, DiskManifestEntry]>> => [['a', { file: 'a.json' }]]);
+    expect(await open(rebuild).get('a')).toEqual({ file: 'a.json' });
+    expect(await open(rebuild).get('a')).toEqual({ file: 'a.json' });
+    expect(rebuild).toHaveBeenCalledTimes(1);
+  });
+
+  it('journals changes so another instance reads them', async () => {
+    const manifest = open();
+    await manifest.set('a', { file: 'a.json', timestamp: 1 });
+    await manifest.set('b', { file: 'b.json' });
+    await manifest.remove('a');
+
+    const journal = await fs.readFile(journalPath, 'utf-8');
+    expect(journal.trim().split('\n')).toHaveLength(3);
+
+    const reopened = open();
+    expect(await reopened.get('a')).toBeUndefined();
+    expect(await reopened.get('b')).toEqual({ file: 'b.json' });
+  });
+
+  it('picks up changes another instance made after it loaded', async () => {
+    const first = open();
+    const second = open();
+    await first.set('a', { file: 'a.json' });
+    expect(await second.get('a')).toEqual({ file: 'a.json' });
+
+    await second.set('b', { file: 'b.json' });
+    await first.remove('a');
+    expect(await first.get('b')).toEqual({ file: 'b.json' });
+    expect(await second.get('a')).toBeUndefined();
+    expect((await second.page()).page.map(([id]) => id)).toEqual(['b']);
+  });
+
+  it('recovers from a torn journal line', async () => {
+    const manifest = open();
+    await manifest.set('a', { file: 'a.json' });
+    await fs.appendFile(journalPath, '["b",{"fi');
+
+    const reopened = open();
+    expect(await reopened.get('a')).toEqual({ file: 'a.json' });
+    expect(await reopened.get('b')).toBeUndefined();
+    // The torn line was folded away, so later appends stay readable
+    expect(await fs.readFile(journalPath, 'utf-8')).toBe('');
+    await reopened.set('c', { file: 'c.json' });
+    expect(await open().get('c')).toEqual({ file: 'c.json' });
+  });
+
+  it('pages entries in ID order by prefix and cursor', async () => {
+    const manifest = open();
+    for (const id of ['users_2', 'orders_1', 'users_1', 'users_3']) {
+      await manifest.set(id, { file: `${id}.json` });
+    }
+
+    const first = await manifest.page({ prefix: 'users_', limit: 2 });
+    expect(first.page.map(([id]) => id)).toEqual(['users_1', 'users_2']);
+    expect(first.nextCursor).toBe('users_2');
+
+    const second = await manifest.page({ prefix: 'users_', limit: 2, cursor: first.nextCursor });
+    expect(second.page.map(([id]) => id)).toEqual(['users_3']);
+    expect(second.nextCursor).toBeUndefined();
+
+    expect((await manifest.page()).page.map(([id]) => id)).toEqual(['orders_1', 'users_1', 'users_2', 'users_3']);
+  });
+});
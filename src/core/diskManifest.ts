@@ -0,0 +1,241 @@
+/*
+ * Copyright 2025 SmartClone Contributors
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+/**
+ * Index of the records in a local disk connector directory.
+ * A snapshot file plus an append-only journal keeps each change O(1); the journal is folded into the
+ * snapshot once it grows larger than the index. The index is read again when another instance or process
+ * changed either file. Only available in Node.js environments.
+ */
+
+export interface DiskManifestEntry {
+  /** Payload file path relative to the connector directory. */
+  file: string;
+  type?: string;
+  timestamp?: number;
+  size?: number;
+}
+
+interface ManifestSnapshot {
+  v: 1;
+  entries: Record<string, DiskManifestEntry>;
+}
+
+/** Journal line: an entry, or null for a removed record. */
+type JournalLine = [string, DiskManifestEntry | null];
+
+/** Inode, size and modification time of the snapshot and journal files. */
+interface FileStamps {
+  snapshot: string;
+  journal: string;
+  journalSize: number;
+}
+
+const MIN_COMPACTION_LENGTH = 1000;
+
+function isMissing(error: unknown) {
+  return (error as { code?: string }).code === 'ENOENT';
+}
+
+export class DiskManifest {
+  private entries: Map<string, DiskManifestEntry> | null = null;
+  private sortedIds: string[] | null = null;
+  private loading: Promise<Map<string, DiskManifestEntry>> | null = null;
+  private writing: Promise<unknown> = Promise.resolve();
+  private journalLength = 0;
+  /** The snapshot and journal as this instance last read or wrote them. */
+  private stamps: FileStamps | null = null;
+
+  /**
+   * @param rebuild Scans the directory for payload files when there is no manifest yet.
+   */
+  constructor(
+    private readonly snapshotPath: string,
+    private readonly journalPath: string,
+    private readonly rebuild: () => Promise<Array<[string, DiskManifestEntry]>>
+  ) {}
+
+  private async readStamps(): Promise<FileStamps> {
+    const fs = await import('fs/promises');
+    const stat = async (file: string) => {
+      try {
+        return await fs.stat(file);
+      } catch (error) {
+        if (isMissing(error)) return null;
+        throw error;
+      }
+    };
+    const [snapshot, journal] = [await stat(this.snapshotPath), await stat(this.journalPath)];
+    return {
+      snapshot: snapshot ? `${snapshot.ino}:${snapshot.size}:${snapshot.mtimeMs}` : '',
+      journal: journal ? `${journal.ino}:${journal.size}:${journal.mtimeMs}` : '',
+      journalSize: journal?.size ?? 0
+    };
+  }
+
+  private async isCurrent(): Promise<boolean> {
+    if (!this.entries || !this.stamps) return false;
+    const stamps = await this.readStamps();
+    return stamps.snapshot === this.stamps.snapshot && stamps.journal === this.stamps.journal;
+  }
+
+  private async load(): Promise<Map<string, DiskManifestEntry>> {
+    if (!this.loading && await this.isCurrent()) return this.entries!;
+    if (!this.loading) {
+      this.loading = this.readFromDisk().then(entries => {
+        this.entries = entries;
+        this.sortedIds = null;
+        return entries;
+      }).finally(() => {
+        this.loading = null;
+      });
+    }
+    return this.loading;
+  }
+
+  private async readFromDisk(): Promise<Map<string, DiskManifestEntry>> {
+    const fs = await import('fs/promises');
+    // Taken before reading, so a change made while reading is picked up by the next load
+    this.stamps = await this.readStamps();
+    this.journalLength = 0;
+    let snapshot: ManifestSnapshot | null = null;
+    let journal: string | null = null;
+    try {
+      snapshot = JSON.parse(await fs.readFile(this.snapshotPath, 'utf-8'));
+    } catch (error) {
+      if (!isMissing(error)) throw error;
+    }
+    try {
+      journal = await fs.readFile(this.journalPath, 'utf-8');
+    } catch (error) {
+      if (!isMissing(error)) throw error;
+    }
+
+    if (!snapshot && journal === null) {
+      const entries = new Map(await this.rebuild());
+      await this.writeSnapshot(entries);
+      return entries;
+    }
+
+    const entries = new Map(Object.entries(snapshot?.entries ?? {}));
+    let torn = false;
+    for (const line of (journal ?? '').split('\n')) {
+      if (!line.trim()) continue;
+      try {
+        const [id, entry] = JSON.parse(line) as JournalLine;
+        if (entry) entries.set(id, entry);
+        else entries.delete(id);
+        this.journalLength++;
+      } catch {
+        // A torn last line from an interrupted append; the payload file itself was written before it
+        torn = true;
+      }
+    }
+    // Appending after a torn line would corrupt the next entry too, so start a fresh journal
+    if (torn || (journal && !journal.endsWith('\n'))) {
+      await this.writeSnapshot(entries);
+    }
+    return entries;
+  }
+
+  private async writeSnapshot(entries: Map<string, DiskManifestEntry>) {
+    const fs = await import('fs/promises');
+    const path = await import('path');
+    const { randomUUID } = await import('crypto');
+    await fs.mkdir(path.dirname(this.snapshotPath), { recursive: true });
+    const snapshot: ManifestSnapshot = { v: 1, entries: Object.fromEntries(entries) };
+    const temporaryPath = `${this.snapshotPath}.${randomUUID()}.tmp`;
+    await fs.writeFile(temporaryPath, JSON.stringify(snapshot), 'utf-8');
+    await fs.rename(temporaryPath, this.snapshotPath);
+    // Replaying the journal over a newer snapshot is harmless, so a crash before this point loses nothing
+    await fs.writeFile(this.journalPath, '', 'utf-8');
+    this.journalLength = 0;
+    this.stamps = await this.readStamps();
+  }
+
+  /**
+   * Apply a change in memory and append it to the journal. Changes are written in order.
+   */
+  private record(id: string, entry: DiskManifestEntry | null): Promise<void> {
+    const run = this.writing.then(async () => {
+      const entries = await this.load();
+      if (entry) {
+        if (!entries.has(id)) this.sortedIds = null;
+        entries.set(id, entry);
+      } else if (entries.delete(id)) {
+        this.sortedIds = null;
+      }
+
+      const fs = await import('fs/promises');
+      const line = `${JSON.stringify([id, entry] satisfies JournalLine)}\n`;
+      const before = this.stamps;
+      await fs.appendFile(this.journalPath, line, 'utf-8');
+      // Keep the cached index only when no other writer appended in between; otherwise the next load reads the files
+      const after = await this.readStamps();
+      const appendedAlone = before && before.snapshot === after.snapshot
+        && after.journalSize === before.journalSize + Buffer.byteLength(line);
+      this.stamps = appendedAlone ? after : null;
+      if (++this.journalLength > Math.max(MIN_COMPACTION_LENGTH, entries.size)) {
+        await this.writeSnapshot(entries);
+      }
+    });
+    this.writing = run.catch(() => undefined);
+    return run;
+  }
+
+  async get(id: string): Promise<DiskManifestEntry | undefined> {
+    return (await this.load()).get(id);
+  }
+
+  set(id: string, entry: DiskManifestEntry) {
+    return this.record(id, entry);
+  }
+
+  remove(id: string) {
+    return this.record(id, null);
+  }
+
+  /**
+   * Entries in record ID order. The cursor is the last ID of the previous page.
+   */
+  async page(options: { prefix?: string; limit?: number; cursor?: string } = {}) {
+    const entries = await this.load();
+    if (!this.sortedIds) {
+      this.sortedIds = Array.from(entries.keys()).sort();
+    }
+    const ids = this.sortedIds;
+    const after = options.cursor ?? options.prefix;
+
+    // Binary search for the first ID after the cursor (or at the prefix)
+    let low = 0;
+    let high = ids.length;
+    while (after !== undefined && low < high) {
+      const middle = (low + high) >> 1;
+      if (options.cursor !== undefined ? ids[middle] <= after : ids[middle] < after) low = middle + 1;
+      else high = middle;
+    }
+
+    const page: Array<[string, DiskManifestEntry]> = [];
+    let index = low;
+    for (; index < ids.length; index++) {
+      if (options.prefix && !ids[index].startsWith(options.prefix)) break;
+      if (options.limit && page.length >= options.limit) break;
+      page.push([ids[index], entries.get(ids[index])!]);
+    }
+    const more = index < ids.length && (!options.prefix || ids[index].startsWith(options.prefix));
+    return { page, nextCursor: more && page.length ? page[page.length - 1][0] : undefined };
+  }
+}
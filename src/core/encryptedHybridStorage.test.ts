@@ -0,0 +1,810 @@
+/*
+ * Copyright 2025 SmartClone Contributors
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+import type { QuotaPressureEvent } from './cacheEviction';
+import type { ConflictReport, ConflictResolver, ConflictStrategy } from './conflictResolution';
+import { encryptedHybridStorage } from './encryptedHybridStorage';
+import { DecryptionError, getEnvelopeKeyId, isEncryptedEnvelope } from './encryption';
+import type { KeyStore } from './keyManagement';
+import type { StorageConnector, StorageSyncPayload } from './storageConnectors';
+import { ArchiveIntegrityError } from './storeArchive';
+
+/**
+ * Connector keeping payloads in memory, as a cloud provider would.
+ */
+function memoryConnector(id = 'memory') {
+  const payloads = new Map<string, StorageSyncPayload>();
+  const connector: StorageConnector = {
+    id,
+    type: 'custom',
+    autoSync: true,
+    async initialize() {},
+    async store(payload) {
+      payloads.set(payload.id, JSON.parse(JSON.stringify(payload)));
+      return { success: true, providerId: id };
+    },
+    async retrieve(reference) {
+      const payload = payloads.get(reference.id);
+      return payload ? { ...payload, providerId: id } : null;
+    },
+    // Pages of two entries, so callers have to follow the cursor
+    async list(options = {}) {
+      const start = Number(options.cursor ?? 0);
+      const entries = Array.from(payloads.values())
+        .slice(start, start + 2)
+        .map(payload => ({ id: payload.id, providerId: id, timestamp: payload.timestamp }));
+      return { entries, nextCursor: start + 2 < payloads.size ? String(start + 2) : undefined };
+    }
+  };
+  return { connector, payloads, config: { type: 'custom' as const, id, factory: () => connector } };
+}
+
+function memoryKeyStore(): KeyStore {
+  const values = new Map<string, string>();
+  return {
+    async get(name) {
+      return values.get(name) ?? null;
+    },
+    async set(name, value) {
+      values.set(name, value);
+    },
+    async delete(name) {
+      values.delete(name);
+    }
+  };
+}
+
+describe('encryptedHybridStorage encryption', () => {
+  it('stores data and metadata as envelopes and decrypts them on retrieve', async () => {
+    const remote = memoryConnector();
+    const storage = await encryptedHybridStorage({ encryptionLevel: 'full', connectors: [remote.config], awaitSyncByDefault: true });
+
+    const id = await storage.store({ patient: 'Alice Smith' }, { type: 'relational', metadata: { ward: 'B' } });
+    const payload = remote.payloads.get(id)!;
+    expect(isEncryptedEnvelope(payload.data)).toBe(true);
+    expect(isEncryptedEnvelope(payload.metadata)).toBe(true);
+    expect(JSON.stringify(payload.data)).not.toContain('Alice');
+
+    const record = await storage.retrieve(id);
+    expect(record.data).toEqual({ patient: 'Alice Smith' });
+    expect(record.metadata).toEqual({ ward: 'B' });
+  });
+
+  it('sends no plaintext data or metadata to connectors', async () => {
+    const remote = memoryConnector();
+    const storage = await encryptedHybridStorage({ encryptionLevel: 'full', connectors: [remote.config], awaitSyncByDefault: true });
+
+    const id = await storage.store({ patient: 'Alice Smith' }, { type: 'relational', metadata: { diagnosis: 'influenza', ward: 'B7' } });
+    const stored = JSON.stringify(remote.payloads.get(id));
+    for (const plaintext of ['Alice Smith', 'influenza', 'B7', 'diagnosis', 'patient']) {
+      expect(stored).not.toContain(plaintext);
+    }
+  });
+
+  it('encrypts only metadata at the metadata level', async () => {
+    const remote = memoryConnector();
+    const storage = await encryptedHybridStorage({ encryptionLevel: 'metadata', connectors: [remote.config], awaitSyncByDefault: true });
+
+    const id = await storage.store({ title: 'public' }, { metadata: { owner: 'alice' } });
+    expect(remote.payloads.get(id)!.data).toEqual({ title: 'public' });
+    expect(isEncryptedEnvelope(remote.payloads.get(id)!.metadata)).toBe(true);
+    expect((await storage.retrieve(id)).metadata).toEqual({ owner: 'alice' });
+  });
+
+  it('throws DecryptionError for a tampered connector copy', async () => {
+    const remote = memoryConnector();
+    const storage = await encryptedHybridStorage({ encryptionLevel: 'full', connectors: [remote.config] });
+    const sealed = await storage.encrypt({ balance: 10 }) as string;
+    const tampered = sealed.replace(/"ct":"(.)/, (_match, first) => `"ct":"${first === 'A' ? 'B' : 'A'}`);
+    remote.payloads.set('relational_1', { id: 'relational_1', type: 'relational', data: tampered, metadata: await storage.encrypt({}), timestamp: 1 });
+
+    expect(await storage.decrypt(sealed)).toEqual({ balance: 10 });
+    await expect(storage.retrieve('relational_1')).rejects.toThrow(DecryptionError);
+  });
+
+  it('rejects ciphertexts moved to another record and plaintext in encrypted fields', async () => {
+    const remote = memoryConnector();
+    const storage = await encryptedHybridStorage({ encryptionLevel: 'full', connectors: [remote.config], awaitSyncByDefault: true });
+    const id = await storage.store({ balance: 10 }, { type: 'relational' });
+    const original = remote.payloads.get(id)!;
+
+    remote.payloads.set('relational_copy', { ...original, id: 'relational_copy' });
+    remote.payloads.set('relational_plain', { ...original, id: 'relational_plain', data: { balance: 1000000 } });
+    await expect(storage.retrieve('relational_copy')).rejects.toThrow(DecryptionError);
+    await expect(storage.retrieve('relational_plain')).rejects.toThrow(DecryptionError);
+  });
+});
+
+describe('encryptedHybridStorage key persistence', () => {
+  it('decrypts data written in an earlier session with the persisted key', async () => {
+    const options = {
+      encryptionLevel: 'full' as const,
+      persistEncryptionKey: true,
+      encryptionPassphrase: 'correct horse',
+      keyDerivation: { iterations: 1000 },
+      keyStore: memoryKeyStore()
+    };
+    const sealed = await (await encryptedHybridStorage(options)).encrypt({ note: 'kept' });
+
+    expect(await (await encryptedHybridStorage(options)).decrypt(sealed)).toEqual({ note: 'kept' });
+  });
+
+  it('refuses to persist the key without a passphrase unless allowUnwrappedKey is set', async () => {
+    const keyStore = memoryKeyStore();
+    await expect(encryptedHybridStorage({ encryptionLevel: 'full', persistEncryptionKey: true, keyStore }))
+      .rejects.toThrow('persistEncryptionKey needs an encryptionPassphrase');
+
+    const options = { encryptionLevel: 'full' as const, persistEncryptionKey: true, allowUnwrappedKey: true, keyStore };
+    const sealed = await (await encryptedHybridStorage(options)).encrypt('kept');
+    expect(await (await encryptedHybridStorage(options)).decrypt(sealed)).toBe('kept');
+  });
+
+  it('moves the key to another device through exportKey and importKey', async () => {
+    const first = await encryptedHybridStorage({ encryptionLevel: 'full', keyDerivation: { iterations: 1000 } });
+    const second = await encryptedHybridStorage({ encryptionLevel: 'full' });
+    const sealed = await first.encrypt('shared');
+
+    const keyId = first.listKeys()[0].id;
+    await expect(second.decrypt(sealed)).rejects.toThrow(new DecryptionError(`Encryption key ${keyId} is not in the key ring; import it with importKey()`));
+    await second.importKey((await first.exportKey('transfer'))!, 'transfer');
+    expect(await second.decrypt(sealed)).toBe('shared');
+  });
+});
+
+describe('encryptedHybridStorage key rotation', () => {
+  it('re-encrypts local and connector copies under the new key in the background', async () => {
+    const remote = memoryConnector();
+    const storage = await encryptedHybridStorage({ encryptionLevel: 'full', connectors: [remote.config], awaitSyncByDefault: true });
+    const local = await storage.store({ n: 1 }, { type: 'relational' });
+    const sealedElsewhere = await storage.encrypt({ n: 2 });
+    remote.payloads.set('relational_remote', {
+      id: 'relational_remote', type: 'relational', data: sealedElsewhere, metadata: await storage.encrypt({}), timestamp: 1
+    });
+    const previousKeyId = storage.listKeys()[0].id;
+    const progress: number[] = [];
+
+    const rotation = await storage.rotateKey({ onProgress: update => progress.push(update.processed) });
+    const report = await rotation.completion;
+
+    expect(report).toMatchObject({ keyId: rotation.keyId, previousKeyId, failed: 0, retiredPrevious: false });
+    expect(report.processed).toBe(report.total);
+    expect(progress.length).toBe(report.total);
+    for (const id of [local, 'relational_remote']) {
+      expect(getEnvelopeKeyId(remote.payloads.get(id)!.data)).toBe(rotation.keyId);
+    }
+    expect((await storage.retrieve(local)).data).toEqual({ n: 1 });
+    expect(storage.listKeys().map(key => [key.id, key.status])).toEqual([[previousKeyId, 'decrypt-only'], [rotation.keyId, 'active']]);
+    expect(await storage.decrypt(sealedElsewhere)).toEqual({ n: 2 });
+  });
+
+  it('retires the previous key when asked, after which its envelopes no longer open', async () => {
+    const storage = await encryptedHybridStorage({ encryptionLevel: 'full' });
+    const id = await storage.store({ n: 1 }, { type: 'relational' });
+    const sealedBefore = await storage.encrypt('old');
+
+    const report = await (await storage.rotateKey({ retirePrevious: true })).completion;
+
+    expect(report.retiredPrevious).toBe(true);
+    expect((await storage.retrieve(id)).data).toEqual({ n: 1 });
+    await expect(storage.decrypt(sealedBefore)).rejects.toThrow(`Encryption key ${report.previousKeyId} is retired`);
+    await expect(storage.retireKey(report.keyId)).rejects.toThrow('The active encryption key cannot be retired');
+  });
+
+  it('advances the version vector so re-encrypted copies supersede the old ones', async () => {
+    const remote = memoryConnector();
+    const storage = await encryptedHybridStorage({
+      encryptionLevel: 'full', connectors: [remote.config], awaitSyncByDefault: true, replicaId: 'laptop'
+    });
+    const id = await storage.store({ n: 1 }, { type: 'relational' });
+
+    await (await storage.rotateKey()).completion;
+
+    expect(remote.payloads.get(id)).toMatchObject({ version: 1, clock: { laptop: 2 } });
+  });
+
+  it('counts connector copies it could not rewrite as failed and keeps the previous key', async () => {
+    const remote = memoryConnector();
+    const storage = await encryptedHybridStorage({ encryptionLevel: 'full', connectors: [remote.config], awaitSyncByDefault: true });
+    const id = await storage.store({ n: 1 }, { type: 'relational' });
+    remote.payloads.set('relational_remote', {
+      id: 'relational_remote', type: 'relational', data: await storage.encrypt({ n: 2 }), metadata: await storage.encrypt({}), timestamp: 1
+    });
+    const previousKeyId = storage.listKeys()[0].id;
+    remote.connector.store = async () => ({ success: false, providerId: 'memory', error: 'offline' });
+
+    const report = await (await storage.rotateKey({ retirePrevious: true })).completion;
+
+    expect(report).toMatchObject({ total: 2, processed: 0, failed: 2, retiredPrevious: false });
+    expect(report.failures).toEqual([
+      { id, providerId: 'memory', error: 'offline' },
+      { id: 'relational_remote', providerId: 'memory', error: 'offline' }
+    ]);
+    expect(getEnvelopeKeyId(remote.payloads.get(id)!.data)).toBe(previousKeyId);
+    expect(storage.listKeys()[0]).toMatchObject({ id: previousKeyId, status: 'decrypt-only' });
+  });
+
+  it('keeps the previous key when connector copies were not checked', async () => {
+    const remote = memoryConnector();
+    const storage = await encryptedHybridStorage({ encryptionLevel: 'full', connectors: [remote.config], awaitSyncByDefault: true });
+    await storage.store({ n: 1 }, { type: 'relational' });
+
+    const report = await (await storage.rotateKey({ retirePrevious: true, includeConnectors: false })).completion;
+
+    expect(report).toMatchObject({ failed: 0, retiredPrevious: false, retirementBlockedBy: 'unchecked connector copies' });
+  });
+
+  it('does not bring back records deleted while the rotation runs', async () => {
+    const remote = memoryConnector();
+    const storage = await encryptedHybridStorage({ encryptionLevel: 'full', connectors: [remote.config], awaitSyncByDefault: true });
+    await storage.store({ n: 1 }, { type: 'relational' });
+    const deleted = await storage.store({ n: 2 }, { type: 'relational' });
+    let deletion: Promise<unknown> | undefined;
+
+    const rotation = await storage.rotateKey({
+      includeConnectors: false,
+      onProgress: update => {
+        if (update.processed === 1) deletion = storage.delete(deleted);
+      }
+    });
+    await rotation.completion;
+    await deletion;
+
+    expect(await storage.query({}, { type: 'relational' })).toHaveLength(1);
+    expect(remote.payloads.get(deleted)).toMatchObject({ deleted: true });
+  });
+});
+
+describe('encryptedHybridStorage vector queries', () => {
+  it('searches fully encrypted vector records by similarity', async () => {
+    const remote = memoryConnector();
+    const storage = await encryptedHybridStorage({ encryptionLevel: 'full', connectors: [remote.config], awaitSyncByDefault: true });
+    const east = await storage.store([[1, 0]], { type: 'vector', metadata: { label: 'east' } });
+    const north = await storage.store([[0, 1]], { type: 'vector', metadata: { label: 'north' } });
+    await storage.store([[-1, 0]], { type: 'vector', metadata: { label: 'west' } });
+
+    const results = await storage.query([0.9, 0.1], { type: 'vector', limit: 2 });
+    expect(results.map((result: { id: string }) => result.id)).toEqual([east, north]);
+    expect(results[0].metadata).toEqual({ label: 'east' });
+    expect(isEncryptedEnvelope(remote.payloads.get(east)!.data)).toBe(true);
+
+    const filtered = await storage.query({ vector: [1, 0] }, { type: 'vector', filter: { label: 'north' }, minScore: -1 });
+    expect(filtered.map((result: { id: string }) => result.id)).toEqual([north]);
+    expect(await storage.query([1, 0], { type: 'vector', minScore: 0.5 })).toHaveLength(1);
+  });
+
+  it('rejects vectors and queries whose dimensions differ from the store', async () => {
+    const storage = await encryptedHybridStorage({ vectorIndex: { type: 'flat' } });
+    await expect(storage.store([[1, 0], [1, 0, 0]], { type: 'vector' })).rejects.toThrow('has 3 dimensions, but the vector store holds 2');
+    const id = await storage.store([[1, 0]], { type: 'vector' });
+
+    await expect(storage.store([[1, 0, 0]], { type: 'vector' })).rejects.toThrow('has 3 dimensions, but the vector store holds 2');
+    await storage.store([[0, 1]], { type: 'vector' });
+    await expect(storage.update(id, [[1, 0, 0]], { replace: true })).rejects.toThrow('has 3 dimensions');
+    await expect(storage.query([1, 0, 0], { type: 'vector' })).rejects.toThrow('Query vector has 3 dimensions, but the vector store holds 2');
+    await expect(storage.query({ vector: [1] })).rejects.toThrow('Query vector has 1 dimensions');
+  });
+});
+
+describe('encryptedHybridStorage vector index', () => {
+  it('answers queries through the HNSW index like the exact scan', async () => {
+    const indexed = await encryptedHybridStorage({ encryptionLevel: 'full', vectorIndex: { type: 'hnsw', M: 8 } });
+    const flat = await encryptedHybridStorage({ encryptionLevel: 'full', vectorIndex: { type: 'flat' } });
+    const ids: string[][] = [[], []];
+    for (let position = 0; position < 40; position++) {
+      const vector = [Math.cos(position / 7), Math.sin(position / 7)];
+      ids[0].push(await indexed.store([vector], { type: 'vector', metadata: { position } }));
+      ids[1].push(await flat.store([vector], { type: 'vector', metadata: { position } }));
+    }
+
+    const positions = async (storage: typeof indexed) =>
+      (await storage.query([1, 0], { type: 'vector', limit: 5 })).map((result: { metadata: { position: number } }) => result.metadata.position);
+    expect(await positions(indexed)).toEqual(await positions(flat));
+    expect(indexed.exportVectorIndex().hnsw?.nodes).toHaveLength(40);
+  });
+
+  it('uses the configured index metric by default, indexed or flat', async () => {
+    const indexed = await encryptedHybridStorage({ vectorIndex: { type: 'hnsw', metric: 'euclidean' } });
+    const flat = await encryptedHybridStorage({ vectorIndex: { type: 'flat', metric: 'euclidean' } });
+    for (const storage of [indexed, flat]) {
+      await storage.store([[1, 0]], { type: 'vector', metadata: { label: 'unit' } });
+      await storage.store([[10, 0]], { type: 'vector', metadata: { label: 'long' } });
+    }
+
+    // Cosine would score both vectors alike; euclidean prefers the closer one
+    for (const storage of [indexed, flat]) {
+      const [nearest] = await storage.query([9, 0], { type: 'vector', limit: 1 });
+      expect(nearest).toMatchObject({ metadata: { label: 'long' }, distance: 1 });
+    }
+  });
+
+  it('persists the index through connectors and restores it elsewhere', async () => {
+    const remote = memoryConnector();
+    const options = { encryptionLevel: 'full' as const, connectors: [remote.config], vectorIndex: { type: 'hnsw' as const } };
+    const writer = await encryptedHybridStorage({ ...options, awaitSyncByDefault: true });
+    const id = await writer.store([[1, 0]], { type: 'vector', metadata: { label: 'east' } });
+    await writer.store([[0, 1]], { type: 'vector', metadata: { label: 'north' } });
+
+    const [result] = await writer.persistVectorIndex();
+    expect(result.success).toBe(true);
+    const [snapshot] = Array.from(remote.payloads.values()).filter(payload => payload.id === 'smartclone__vector-index');
+    expect(isEncryptedEnvelope(snapshot.data)).toBe(true);
+
+    const reader = await encryptedHybridStorage(options);
+    await reader.importKey((await writer.exportKey('transfer'))!, 'transfer');
+    expect(await reader.restoreVectorIndex()).toBe(true);
+    const [nearest] = await reader.query([1, 0.1], { type: 'vector', limit: 1 });
+    expect(nearest).toMatchObject({ id, metadata: { label: 'east' } });
+  });
+});
+
+describe('encryptedHybridStorage graph queries', () => {
+  it('merges encrypted graph records into one queryable graph', async () => {
+    const storage = await encryptedHybridStorage({ encryptionLevel: 'full' });
+    await storage.store({ nodes: ['alice', 'bob'], edges: [{ source: 'alice', target: 'bob' }] }, { type: 'graph', metadata: { team: 'core' } });
+    await storage.store({ nodes: ['carol'], edges: [{ source: 'bob', target: 'carol' }] }, { type: 'graph', metadata: { team: 'ops' } });
+
+    const graph = await storage.getGraph();
+    expect(graph.traverse('alice', { depth: 2 }).map(result => result.node.id)).toEqual(['alice', 'bob', 'carol']);
+    expect(await storage.getGraph()).toBe(graph);
+
+    const core = await storage.getGraph({ filter: { team: 'core' } });
+    expect(core.getNode('carol')).toBeUndefined();
+  });
+});
+
+describe('encryptedHybridStorage relational queries', () => {
+  it('filters, sorts and paginates encrypted relational records', async () => {
+    const storage = await encryptedHybridStorage({ encryptionLevel: 'full' });
+    for (const [name, age] of [['Ada', 36], ['Bo', 29], ['Cy', 41]] as const) {
+      await storage.store({ name, age }, { type: 'relational', metadata: { team: age > 30 ? 'core' : 'ops' } });
+    }
+
+    const first = await storage.query({ metadata: { team: 'core' }, orderBy: '-age', limit: 1 }, { type: 'relational' });
+    expect(first.map((record: any) => record.data.name)).toEqual(['Cy']);
+
+    const next = await storage.query({ metadata: { team: 'core' }, orderBy: '-age', limit: 1, cursor: first[0].cursor }, { type: 'relational' });
+    expect(next.map((record: any) => record.data.name)).toEqual(['Ada']);
+  });
+});
+
+describe('encryptedHybridStorage hybrid queries', () => {
+  it('boosts vector records linked to nearby graph nodes', async () => {
+    const storage = await encryptedHybridStorage({ encryptionLevel: 'full' });
+    const near = await storage.store([[0.6, 0.8]], { type: 'vector', metadata: { nodeId: 'acme' } });
+    const similar = await storage.store([[1, 0]], { type: 'vector', metadata: { nodeId: 'other' } });
+    await storage.store({ nodes: ['acme', 'other'], edges: [] }, { type: 'graph' });
+
+    const plain = await storage.query([1, 0], { type: 'vector', limit: 2 });
+    expect(plain.map((result: any) => result.id)).toEqual([similar, near]);
+
+    const boosted = await storage.hybridQuery({
+      vector: [1, 0],
+      graph: { node: 'acme' },
+      fusion: { method: 'weighted', weights: { vector: 1, graph: 2 } }
+    });
+    expect(boosted.map(result => result.id)).toEqual([near, similar]);
+  });
+});
+
+describe('encryptedHybridStorage update and delete', () => {
+  it('merges object updates, bumps the version and syncs the new copy', async () => {
+    const remote = memoryConnector();
+    const storage = await encryptedHybridStorage({ encryptionLevel: 'full', connectors: [remote.config], awaitSyncByDefault: true });
+    const id = await storage.store({ name: 'Ada', role: 'user' }, { type: 'relational', metadata: { team: 'core' } });
+
+    const updated = await storage.update(id, { role: 'admin' }, { metadata: { reviewed: true } });
+    expect(updated.version).toBe(2);
+    expect(remote.payloads.get(id)!.version).toBe(2);
+
+    const record = await storage.retrieve(id);
+    expect(record.data).toEqual({ name: 'Ada', role: 'admin' });
+    expect(record.metadata).toEqual({ team: 'core', reviewed: true });
+
+    await storage.update(id, { name: 'Bo' }, { replace: true });
+    expect((await storage.retrieve(id)).data).toEqual({ name: 'Bo' });
+  });
+
+  it('writes tombstones on every connector, including those that can delete', async () => {
+    const deleting = memoryConnector('deleting');
+    deleting.connector.delete = async reference => {
+      deleting.payloads.delete(reference.id);
+    };
+    const appendOnly = memoryConnector('append-only');
+    const storage = await encryptedHybridStorage({
+      encryptionLevel: 'full',
+      connectors: [deleting.config, appendOnly.config],
+      awaitSyncByDefault: true
+    });
+    const id = await storage.store({ name: 'Ada' }, { type: 'relational' });
+
+    const results = await storage.delete(id);
+    expect(results).toEqual([
+      expect.objectContaining({ providerId: 'deleting', success: true, tombstone: true }),
+      expect.objectContaining({ providerId: 'append-only', success: true, tombstone: true })
+    ]);
+    expect(deleting.payloads.get(id)).toEqual(expect.objectContaining({ deleted: true, data: null, version: 2 }));
+    expect(appendOnly.payloads.get(id)).toEqual(expect.objectContaining({ deleted: true, data: null, version: 2 }));
+
+    await expect(storage.retrieve(id)).rejects.toThrow(`Item with id ${id} not found`);
+    expect(await storage.query({ where: {} }, { type: 'relational' })).toEqual([]);
+  });
+});
+
+describe('encryptedHybridStorage sync outbox', () => {
+  it('reports failed syncs and delivers them on flushSync', async () => {
+    const remote = memoryConnector();
+    const store = remote.connector.store;
+    let online = false;
+    remote.connector.store = async payload => online ? store(payload) : { success: false, providerId: 'memory', error: 'offline' };
+    const storage = await encryptedHybridStorage({ connectors: [remote.config], awaitSyncByDefault: true });
+
+    const id = await storage.store({ name: 'Ada' }, { type: 'relational' });
+    expect(storage.getSyncStatus()).toEqual({
+      pending: 1,
+      online: true,
+      connectors: [expect.objectContaining({ connectorId: 'memory', pending: 1, lastError: 'offline' })]
+    });
+
+    online = true;
+    const status = await storage.flushSync();
+    expect(status.pending).toBe(0);
+    expect(remote.payloads.has(id)).toBe(true);
+  });
+
+  it('keeps queued operations for the next storage after close', async () => {
+    const remote = memoryConnector();
+    remote.connector.store = async () => ({ success: false, providerId: 'memory', error: 'offline' });
+    const options = { connectors: [remote.config], awaitSyncByDefault: true, syncStateStore: memoryKeyStore() };
+    const storage = await encryptedHybridStorage(options);
+
+    await storage.store({ name: 'Ada' }, { type: 'relational' });
+    await storage.close();
+
+    const reopened = await encryptedHybridStorage(options);
+    expect(reopened.getSyncStatus().connectors).toEqual([expect.objectContaining({ pending: 1, lastError: 'offline' })]);
+    await reopened.close();
+  });
+});
+
+describe('encryptedHybridStorage conflict resolution', () => {
+  const settle = () => new Promise(resolve => setTimeout(resolve, 20));
+
+  async function devices(conflictStrategy?: ConflictStrategy) {
+    const first = memoryConnector('first');
+    const second = memoryConnector('second');
+    const reports: ConflictReport[] = [];
+    const open = (replicaId: string) => encryptedHybridStorage({
+      encryptionLevel: 'full',
+      keyDerivation: { iterations: 1000 },
+      connectors: [first.config, second.config],
+      awaitSyncByDefault: true,
+      replicaId,
+      conflictStrategy,
+      onConflict: (report: ConflictReport) => reports.push(report)
+    });
+    const laptop = await open('laptop');
+    const phone = await open('phone');
+    const tablet = await open('tablet');
+    const exported = (await laptop.exportKey('transfer'))!;
+    await phone.importKey(exported, 'transfer');
+    await tablet.importKey(exported, 'transfer');
+    return { first, second, laptop, phone, tablet, reports };
+  }
+
+  it('replaces stale connector copies with the causally newer one', async () => {
+    const { first, second, laptop, phone, tablet, reports } = await devices();
+    const id = await laptop.store({ n: 1 }, { type: 'relational' });
+    await phone.update(id, { n: 2 }, { syncTargets: ['first'] });
+
+    expect((await tablet.retrieve(id)).data).toEqual({ n: 2 });
+    expect(reports).toEqual([expect.objectContaining({ id, kind: 'stale', strategy: 'version-vector', winner: 'first', repaired: ['second'] })]);
+
+    await settle();
+    expect(second.payloads.get(id)!.clock).toEqual(first.payloads.get(id)!.clock);
+  });
+
+  it('settles concurrent changes with the conflict strategy', async () => {
+    const merge: ConflictResolver = ({ copies }) => ({ data: Object.assign({}, ...copies.map(copy => copy.data)), metadata: {} });
+    const { first, second, laptop, phone, tablet, reports } = await devices(merge);
+    const id = await laptop.store({ n: 1 }, { type: 'relational' });
+    // Both devices change the same version of the record
+    await phone.retrieve(id);
+    await laptop.update(id, { fromLaptop: true }, { syncTargets: ['second'] });
+    await phone.update(id, { fromPhone: true }, { syncTargets: ['first'] });
+
+    expect((await tablet.retrieve(id)).data).toEqual({ n: 1, fromLaptop: true, fromPhone: true });
+    expect(reports).toEqual([expect.objectContaining({ kind: 'concurrent', strategy: 'custom', winner: 'merged', repaired: ['first', 'second'] })]);
+
+    await settle();
+    expect(first.payloads.get(id)!.clock).toEqual({ laptop: 2, phone: 1, tablet: 1 });
+    expect(second.payloads.get(id)!.clock).toEqual({ laptop: 2, phone: 1, tablet: 1 });
+  });
+});
+
+describe('encryptedHybridStorage pull', () => {
+  async function devices() {
+    const remote = memoryConnector();
+    const open = () => encryptedHybridStorage({
+      encryptionLevel: 'full',
+      keyDerivation: { iterations: 1000 },
+      connectors: [remote.config],
+      awaitSyncByDefault: true
+    });
+    const laptop = await open();
+    const phone = await open();
+    await phone.importKey((await laptop.exportKey('transfer'))!, 'transfer');
+    return { remote, laptop, phone };
+  }
+
+  it('imports new and changed records from every listing page', async () => {
+    const { laptop, phone } = await devices();
+    const ids = [];
+    for (const n of [1, 2, 3]) {
+      ids.push(await laptop.store({ n }, { type: 'relational' }));
+    }
+
+    const first = await phone.pull();
+    expect(first).toEqual(expect.objectContaining({ imported: 3, deleted: 0, failed: 0 }));
+    expect((await phone.retrieve(ids[2], { source: 'memory' })).data).toEqual({ n: 3 });
+
+    await laptop.update(ids[0], { n: 10 });
+    const second = await phone.pull();
+    expect(second.imported).toBe(1);
+    expect((await phone.retrieve(ids[0], { source: 'memory' })).data).toEqual({ n: 10 });
+  });
+
+  it('removes records whose connector copy is a tombstone', async () => {
+    const { remote, laptop, phone } = await devices();
+    // Removing the file would leave nothing to pull
+    remote.connector.delete = async reference => {
+      remote.payloads.delete(reference.id);
+    };
+    const id = await laptop.store({ n: 1 }, { type: 'relational' });
+    await phone.pull();
+
+    await laptop.delete(id);
+    expect((await phone.pull()).deleted).toBe(1);
+    await expect(phone.retrieve(id, { source: 'memory' })).rejects.toThrow('not found');
+  });
+
+  it('re-reads an overlap window below the watermark for uploads that finished late', async () => {
+    const { remote, laptop, phone } = await devices();
+    const id = await laptop.store({ n: 1 }, { type: 'relational' });
+    await phone.pull();
+
+    const late = await laptop.store({ n: 2 }, { type: 'relational' });
+    remote.payloads.get(late)!.timestamp = remote.payloads.get(id)!.timestamp - 1000;
+    expect((await phone.pull({ overlap: 0 })).imported).toBe(0);
+    const report = await phone.pull();
+    // The unchanged record in the window is retrieved again but skipped
+    expect(report).toMatchObject({ imported: 1, skipped: 1, failed: 0 });
+    expect((await phone.retrieve(late, { source: 'memory' })).data).toEqual({ n: 2 });
+  });
+
+  it('keeps the watermark before records that failed to import', async () => {
+    const { remote, laptop, phone } = await devices();
+    const id = await laptop.store({ n: 1 }, { type: 'relational' });
+    const retrieve = remote.connector.retrieve!;
+    remote.connector.retrieve = async () => {
+      throw new Error('unavailable');
+    };
+
+    const failed = await phone.pull();
+    expect(failed.failed).toBe(1);
+    expect(failed.connectors[0].failures).toEqual([{ id, error: new Error('unavailable') }]);
+
+    remote.connector.retrieve = retrieve;
+    expect((await phone.pull()).imported).toBe(1);
+  });
+});
+
+describe('encryptedHybridStorage payload encoding', () => {
+  it('syncs encoded payloads and reads records written without encoding', async () => {
+    const remote = memoryConnector();
+    const plain = await encryptedHybridStorage({ encryptionLevel: 'none', connectors: [remote.config], awaitSyncByDefault: true });
+    const legacy = await plain.store([[0.25, 0.5]], { type: 'vector' });
+
+    const storage = await encryptedHybridStorage({
+      encryptionLevel: 'none',
+      connectors: [remote.config],
+      awaitSyncByDefault: true,
+      payloadEncoding: { vectorEncoding: 'float32', compression: 'gzip', minCompressionSize: 0 }
+    });
+    const id = await storage.store([[0.25, 0.5]], { type: 'vector', metadata: { label: 'packed' } });
+
+    expect(remote.payloads.get(id)!.encoding).toEqual({ v: 1, vectors: 'float32' });
+    expect(typeof remote.payloads.get(id)!.data).toBe('string');
+    expect((await storage.retrieve(id)).data).toEqual([[0.25, 0.5]]);
+    const [nearest] = await storage.query([0.25, 0.5], { type: 'vector', limit: 1 });
+    expect(nearest.id).toBe(id);
+    expect((await storage.retrieve(legacy)).data).toEqual([[0.25, 0.5]]);
+  });
+});
+
+describe('encryptedHybridStorage expiry and cache budget', () => {
+  it('deletes expired records locally and on connectors', async () => {
+    const remote = memoryConnector();
+    const storage = await encryptedHybridStorage({ connectors: [remote.config], awaitSyncByDefault: true });
+    const expiring = await storage.store({ token: 'abc' }, { type: 'relational', ttl: 300 });
+    const kept = await storage.store({ token: 'def' }, { type: 'relational' });
+    expect(remote.payloads.get(expiring)!.expiresAt).toBeDefined();
+    expect(await storage.purgeExpired()).toEqual([]);
+
+    // The expiry timer purges the record without an explicit purgeExpired call
+    await new Promise(resolve => setTimeout(resolve, 350));
+    await expect(storage.retrieve(expiring, { source: 'memory' })).rejects.toThrow('not found');
+    expect(remote.payloads.get(expiring)!.deleted).toBe(true);
+    expect((await storage.retrieve(kept)).data).toEqual({ token: 'def' });
+  });
+
+  it('evicts synced records over budget and fetches them again on demand', async () => {
+    const remote = memoryConnector();
+    const events: QuotaPressureEvent[] = [];
+    const storage = await encryptedHybridStorage({
+      connectors: [remote.config],
+      awaitSyncByDefault: true,
+      cache: { maxItems: 2 },
+      onQuotaPressure: event => events.push(event)
+    });
+    const ids = [];
+    for (const n of [1, 2, 3]) {
+      ids.push(await storage.store({ n }, { type: 'relational' }));
+    }
+
+    expect(await storage.getStorageUsage()).toEqual(expect.objectContaining({ items: 2, maxItems: 2 }));
+    expect(events).toContainEqual(expect.objectContaining({ source: 'memory', evicted: [ids[0]] }));
+    expect((await storage.retrieve(ids[0])).data).toEqual({ n: 1 });
+  });
+
+  it('returns the same query results after evicting records', async () => {
+    const remote = memoryConnector();
+    const storage = await encryptedHybridStorage({
+      encryptionLevel: 'full', connectors: [remote.config], awaitSyncByDefault: true, cache: { maxItems: 1 }
+    });
+    const vector = await storage.store([[1, 0]], { type: 'vector' });
+    const row = await storage.store({ name: 'Ada' }, { type: 'relational' });
+    await storage.store({ nodes: [{ id: 'acme', labels: ['company'] }], edges: [] }, { type: 'graph' });
+    expect((await storage.getStorageUsage()).items).toBe(1);
+
+    const [nearest] = await storage.query([1, 0], { type: 'vector', limit: 1 });
+    expect(nearest.id).toBe(vector);
+    expect((await storage.query({ where: { name: 'Ada' } }, { type: 'relational' })).map(record => record.id)).toEqual([row]);
+    expect(await storage.query({})).toHaveLength(3);
+  });
+
+  it('removes evicted records from queries once they expire or are deleted elsewhere', async () => {
+    const remote = memoryConnector();
+    const open = () => encryptedHybridStorage({
+      keyDerivation: { iterations: 1000 }, connectors: [remote.config], awaitSyncByDefault: true, cache: { maxItems: 1 }
+    });
+    const [laptop, phone] = [await open(), await open()];
+    const expiring = await laptop.store({ n: 1 }, { type: 'relational', ttl: 300 });
+    const deleted = await laptop.store({ n: 2 }, { type: 'relational' });
+    await laptop.store({ n: 3 }, { type: 'relational' });
+    expect(await laptop.query({ orderBy: 'n' }, { type: 'relational' })).toHaveLength(3);
+
+    await new Promise(resolve => setTimeout(resolve, 350));
+    expect(remote.payloads.get(expiring)!.deleted).toBe(true);
+    await phone.delete(deleted);
+    await laptop.pull();
+    expect((await laptop.query({ orderBy: 'n' }, { type: 'relational' })).map(record => record.data)).toEqual([{ n: 3 }]);
+    expect(await laptop.query({}, { type: 'relational' })).toHaveLength(1);
+  });
+
+  it('keeps records in memory until a connector holds them', async () => {
+    const remote = memoryConnector();
+    remote.connector.store = async () => ({ success: false, providerId: 'memory', error: 'offline' });
+    const storage = await encryptedHybridStorage({ connectors: [remote.config], awaitSyncByDefault: true, cache: { maxItems: 1 } });
+    await storage.store({ n: 1 }, { type: 'relational' });
+    await storage.store({ n: 2 }, { type: 'relational' });
+
+    expect((await storage.getStorageUsage()).items).toBe(2);
+  });
+});
+
+describe('encryptedHybridStorage archives', () => {
+  const options = { encryptionLevel: 'full' as const, keyDerivation: { iterations: 1000 } };
+
+  it('moves records and keys to another device', async () => {
+    const source = await encryptedHybridStorage(options);
+    const id = await source.store({ name: 'Ada' }, { type: 'relational', metadata: { team: 'core' } });
+    const vector = await source.store([[1, 0]], { type: 'vector' });
+    const { blob, items } = await source.exportArchive({ passphrase: 'backup' });
+    expect(items).toBe(2);
+    expect(await blob!.text()).not.toContain('Ada');
+
+    const target = await encryptedHybridStorage(options);
+    const report = await target.importArchive(blob!, { passphrase: 'backup' });
+    expect(report).toEqual(expect.objectContaining({ total: 2, added: 2, keysImported: 1 }));
+    expect((await target.retrieve(id)).data).toEqual({ name: 'Ada' });
+    const [nearest] = await target.query([1, 0], { type: 'vector', limit: 1 });
+    expect(nearest.id).toBe(vector);
+  });
+
+  it('keeps or overwrites local records depending on the mode', async () => {
+    const device = await encryptedHybridStorage(options);
+    const id = await device.store({ n: 1 }, { type: 'relational' });
+    const { blob } = await device.exportArchive({ passphrase: 'backup' });
+    await device.update(id, { n: 2 });
+
+    expect(await device.importArchive(blob!, { passphrase: 'backup', mode: 'keep-local' })).toEqual(expect.objectContaining({ skipped: 1 }));
+    expect((await device.retrieve(id)).data).toEqual({ n: 2 });
+
+    expect(await device.importArchive(blob!, { passphrase: 'backup', mode: 'overwrite' })).toEqual(expect.objectContaining({ updated: 1 }));
+    expect((await device.retrieve(id)).data).toEqual({ n: 1 });
+  });
+
+  it('authenticates archives without a passphrase with the data key', async () => {
+    const device = await encryptedHybridStorage(options);
+    await device.store({ n: 1 }, { type: 'relational' });
+    const { blob } = await device.exportArchive({ includeKeys: false });
+
+    expect((await device.importArchive(blob!)).skipped).toBe(1);
+    await expect((await encryptedHybridStorage(options)).importArchive(blob!)).rejects.toThrow('which this storage does not hold');
+  });
+
+  it('imports nothing from an altered archive or with the wrong passphrase', async () => {
+    const source = await encryptedHybridStorage(options);
+    await source.store({ n: 1 }, { type: 'relational' });
+    const { blob } = await source.exportArchive({ passphrase: 'backup' });
+    const text = await blob!.text();
+
+    const target = await encryptedHybridStorage(options);
+    await expect(target.importArchive(new Blob([text.replace('"relational"', '"graph"')]), { passphrase: 'backup' }))
+      .rejects.toThrow(ArchiveIntegrityError);
+    await expect(target.importArchive(blob!, { passphrase: 'wrong' })).rejects.toThrow('the passphrase is wrong');
+    await expect(target.importArchive(blob!)).rejects.toThrow('pass it to importArchive');
+    expect((await target.getStorageUsage()).items).toBe(0);
+  });
+});
+
+describe('encryptedHybridStorage record IDs and upserts', () => {
+  it('continues a record stored under the same ID', async () => {
+    const remote = memoryConnector();
+    const storage = await encryptedHybridStorage({ connectors: [remote.config], awaitSyncByDefault: true });
+
+    expect(await storage.store({ name: 'Ada' }, { id: 'user-42' })).toBe('user-42');
+    const first = remote.payloads.get('user-42')!;
+    await storage.store({ name: 'Ada' }, { id: 'user-42' });
+    expect(remote.payloads.get('user-42')).toEqual(first);
+
+    await storage.store({ name: 'Ada L.' }, { id: 'user-42' });
+    expect(remote.payloads.get('user-42')!.version).toBe(2);
+    expect((await storage.retrieve('user-42')).data).toEqual({ name: 'Ada L.' });
+
+    await storage.store({ name: 'Bob' }, { id: 'user-42', ifExists: 'skip' });
+    expect((await storage.retrieve('user-42')).data).toEqual({ name: 'Ada L.' });
+    await expect(storage.store({ name: 'Bob' }, { id: 'user-42', ifExists: 'error' })).rejects.toThrow('Item with id user-42 already exists');
+    await expect(storage.store({}, { id: '../escape' })).rejects.toThrow('Invalid record id');
+  });
+
+  it('upserts records only held by a connector', async () => {
+    const remote = memoryConnector();
+    const writer = await encryptedHybridStorage({ encryptionLevel: 'none', connectors: [remote.config], awaitSyncByDefault: true });
+    await writer.store({ n: 1 }, { id: 'shared', type: 'relational' });
+
+    const other = await encryptedHybridStorage({ encryptionLevel: 'none', connectors: [remote.config], awaitSyncByDefault: true });
+    await other.store({ n: 2 }, { id: 'shared', type: 'relational' });
+    expect(remote.payloads.get('shared')).toEqual(expect.objectContaining({ data: { n: 2 }, version: 2 }));
+  });
+
+  it('stores the same document once with content-addressed IDs', async () => {
+    const storage = await encryptedHybridStorage({});
+    const id = await storage.store({ title: 'doc', body: 'text' }, { type: 'relational', contentAddressed: true });
+
+    expect(await storage.store({ body: 'text', title: 'doc' }, { type: 'relational', contentAddressed: true })).toBe(id);
+    expect((await storage.retrieve(id)).version).toBe(1);
+  });
+});
@@ -22,6 +22,8 @@
 // Types
 import {
   buildConnectors,
+  deletePayloadAcrossConnectors,
+  selectConnectors,
   syncPayloadAcrossConnectors,
   type ConnectorSyncResult,
   type StorageConnector,
@@ -29,11 +31,166 @@ import {
   type StorageRetrieveResult,
   type StorageSyncPayload
 } from './storageConnectors';
+import {
+  DecryptionError,
+  decodeLegacyValue,
+  decryptValue,
+  encryptValue,
+  generateEncryptionKey,
+  getEnvelopeKeyId,
+  isBoundEnvelope,
+  isEncryptedEnvelope
+} from './encryption';
+import {
+  LEGACY_KEY_ID,
+  createDefaultKeyStore,
+  createKeyId,
+  exportKeyRing,
+  importKeyRing,
+  loadOrCreateKeyRing,
+  type KeyDerivationOptions,
+  type KeyRing,
+  type KeyRingEntry,
+  type KeyRingRecord,
+  type KeyStatus,
+  type KeyStore,
+  type WrappedKeyRecord
+} from './keyManagement';
+import {
+  bruteForceSearch,
+  extractQueryVector,
+  extractVectors,
+  matchesMetadataFilter,
+  type MetadataFilter,
+  type SimilarityMetric,
+  type VectorSearchEntry,
+  type VectorSearchResult
+} from './vectorSearch';
+import {
+  HNSWIndex,
+  addRecordVectors,
+  recordVectorKey,
+  removeRecordVectors,
+  searchRecordsWithIndex,
+  type SerializedHNSWIndex,
+  type VectorIndexOptions
+} from './hnswIndex';
+import {
+  isGraphData,
+  mergeGraphRecords,
+  type GraphRecord,
+  type KnowledgeGraph
+} from './graphQuery';
+import {
+  isRelationalQuery,
+  runRelationalQuery,
+  type RelationalEntry
+} from './relationalQuery';
+import {
+  isHybridQuery,
+  runHybridQuery,
+  type HybridCandidate,
+  type HybridQuery,
+  type HybridQueryResult
+} from './hybridQuery';
+import {
+  createDefaultPersistenceBackend,
+  type PersistedItem,
+  type PersistedStoreType,
+  type PersistenceBackend
+} from './localPersistence';
+import {
+  SyncOutbox,
+  type OutboxEntry,
+  type SyncOutboxOptions,
+  type SyncStatus
+} from './syncOutbox';
+import {
+  compareCopies,
+  computeContentHash,
+  incrementClock,
+  latestCopies,
+  mergeClocks,
+  pickCopy,
+  type ConflictReport,
+  type ConflictStrategy,
+  type RecordCopy
+} from './conflictResolution';
+import {
+  CacheTracker,
+  estimateItemSize,
+  type CacheOptions,
+  type CacheUsage,
+  type QuotaPressureEvent
+} from './cacheEviction';
+import { estimateStorage } from '../utils/deviceDetection';
+import {
+  ARCHIVE_FORMAT,
+  ARCHIVE_VERSION,
+  ArchiveIntegrityError,
+  createArchiveSalt,
+  createArchiveWriter,
+  createFileSink,
+  deriveArchiveDataKey,
+  deriveArchivePassphraseKey,
+  readArchiveItems,
+  replayableSource,
+  verifyArchive,
+  type ArchiveAuthentication,
+  type ArchiveSource
+} from './storeArchive';
+import {
+  assertValidRecordId,
+  canonicalJson,
+  createContentAddressedId,
+  createRecordId
+} from './recordIds';
+import {
+  BOUND_SCHEMA_VERSION,
+  CURRENT_SCHEMA_VERSION,
+  LEGACY_SCHEMA_VERSION,
+  createMigrationRegistry,
+  type MigrationContext,
+  type RecordMigration
+} from './schemaMigration';
+import {
+  decodePayload,
+  encodePayload,
+  type PayloadEncoding,
+  type PayloadEncodingOptions
+} from './payloadEncoding';
+
+const DEFAULT_PULL_OVERLAP = 5 * 60 * 1000;
+const ARCHIVE_IMPORT_BATCH = 500;
 
 export interface StorageOptions {
   storagePrefix?: string;
   encryptionLevel?: 'none' | 'metadata' | 'full';
   persistEncryptionKey?: boolean;
+  /**
+   * Passphrase used to wrap the persisted encryption key. Required by persistEncryptionKey unless allowUnwrappedKey is set.
+   */
+  encryptionPassphrase?: string;
+  /**
+   * Persist the encryption key without a passphrase, readable by anyone who can read the key store.
+   */
+  allowUnwrappedKey?: boolean;
+  /**
+   * Key store used when persistEncryptionKey is true. Defaults to localStorage or IndexedDB when available.
+   */
+  keyStore?: KeyStore;
+  /**
+   * Key derivation settings for passphrase wrapping.
+   */
+  keyDerivation?: KeyDerivationOptions;
+  /**
+   * Persist encrypted items locally so they survive a reload. Defaults to IndexedDB when available.
+   */
+  persistLocally?: boolean;
+  /**
+   * Local persistence backend. Implies persistLocally; use createFileBackend in Node.js.
+   */
+  persistenceBackend?: PersistenceBackend;
   /**
    * External storage connectors (local disk, cloud providers, custom implementations).
    */
@@ -46,6 +203,50 @@ export interface StorageOptions {
    * Default connector targets when syncTargets are omitted in store options.
    */
   defaultSyncTargets?: string[];
+  /**
+   * Identifier of this replica in record version vectors. Use a stable value per device;
+   * defaults to a random ID per storage instance.
+   */
+  replicaId?: string;
+  /**
+   * How concurrent copies of a record on different connectors are settled. Defaults to last-writer-wins.
+   */
+  conflictStrategy?: ConflictStrategy;
+  /**
+   * Called with a report whenever connector copies of a record diverged and were reconciled.
+   */
+  onConflict?: (report: ConflictReport) => void;
+  /**
+   * Store for synchronisation bookkeeping (outbox, pull watermarks). Defaults to localStorage or IndexedDB
+   * when available; in Node.js pass createFileKeyStore.
+   */
+  syncStateStore?: KeyStore;
+  /**
+   * Outbox retrying failed or interrupted connector synchronisation with backoff. Set to false to disable.
+   */
+  syncOutbox?: SyncOutboxOptions | false;
+  /**
+   * Approximate nearest neighbour index for the vector store. Without it vector queries scan every record.
+   */
+  vectorIndex?: VectorIndexOptions;
+  /**
+   * Compress record data and pack vector arrays as binary before encryption. Records are decoded according to
+   * their own encoding header, so data written with other settings or before this option stays readable.
+   */
+  payloadEncoding?: PayloadEncodingOptions;
+  /**
+   * In-memory budget and eviction policy. Records over budget are dropped from memory once a connector holds
+   * their current version, and fetched again on demand.
+   */
+  cache?: CacheOptions;
+  /**
+   * Called when the in-memory budget or the device storage quota comes under pressure, and when records are evicted.
+   */
+  onQuotaPressure?: (event: QuotaPressureEvent) => void;
+  /**
+   * Additional record migrations. A migration from the same schema version replaces the built-in one.
+   */
+  migrations?: RecordMigration[];
 }
 
 export interface StoreOptions {
@@ -63,6 +264,25 @@ export interface StoreOptions {
    * Await synchronisation completion before resolving store.
    */
   awaitSync?: boolean;
+  /**
+   * Time to live in milliseconds. The record is deleted, locally and on connectors, once it expires.
+   */
+  ttl?: number;
+  /**
+   * Store under this ID instead of a generated one.
+   */
+  id?: string;
+  /**
+   * Derive the ID from the data: "<type>_" plus the SHA-256 of its canonical JSON, so storing the same
+   * document twice yields one record. Ignored when id is set.
+   */
+  contentAddressed?: boolean;
+  /**
+   * What to do when a record with the supplied or content-addressed ID exists, locally or on a connector.
+   * "upsert" (default): replace it as its next version; unchanged data and metadata without a ttl are a no-op.
+   * "skip": keep it. "error": throw.
+   */
+  ifExists?: 'upsert' | 'skip' | 'error';
 }
 
 export interface RetrieveOptions {
@@ -75,6 +295,35 @@ export interface RetrieveOptions {
   connectors?: string[];
 }
 
+export interface UpdateOptions {
+  type?: 'vector' | 'graph' | 'relational' | 'auto';
+  /**
+   * Metadata fields merged into the existing metadata.
+   */
+  metadata?: Record<string, any>;
+  /**
+   * Replace the data with the patch instead of shallow-merging plain objects.
+   */
+  replace?: boolean;
+  syncTargets?: string[];
+  skipSync?: boolean;
+  awaitSync?: boolean;
+  /**
+   * New time to live in milliseconds, counted from the update. Without it the record keeps its expiry.
+   */
+  ttl?: number;
+}
+
+export interface DeleteOptions {
+  type?: 'vector' | 'graph' | 'relational' | 'auto';
+  syncTargets?: string[];
+  skipSync?: boolean;
+  /**
+   * Await connector deletion and resolve with its results.
+   */
+  awaitSync?: boolean;
+}
+
 export interface QueryOptions {
   type?: 'vector' | 'graph' | 'relational' | 'auto';
   limit?: number;
@@ -83,40 +332,195 @@ export interface QueryOptions {
    */
   source?: 'memory' | 'connectors' | 'all';
   connectors?: string[];
+  /**
+   * Similarity metric for vector queries. Defaults to the vectorIndex metric, or cosine.
+   */
+  metric?: SimilarityMetric;
+  /**
+   * Minimum similarity score for vector query results.
+   */
+  minScore?: number;
+  /**
+   * Metadata filter applied to vector query candidates.
+   */
+  filter?: MetadataFilter;
+}
+
+export interface PullOptions {
+  /** Connectors to pull from. Defaults to every connector able to list and retrieve. */
+  connectors?: string[];
+  /** Ignore the stored watermarks and compare every listed record. */
+  full?: boolean;
+  /**
+   * Milliseconds below the watermark that are read again, for uploads that finished after the last pull
+   * with an earlier connector time (uploads in flight, clock skew between provider servers). Defaults to 5 minutes.
+   */
+  overlap?: number;
+  onProgress?: (progress: { providerId: string; listed: number; currentId: string }) => void;
 }
 
-// Simple mock implementation of crypto functions
-async function generateEncryptionKey(): Promise<CryptoKey | null> {
-  if (typeof window !== 'undefined' && 'crypto' in window) {
-    return window.crypto.subtle.generateKey(
-      {
-        name: 'AES-GCM',
-        length: 256
-      },
-      true,
-      ['encrypt', 'decrypt']
-    ) as Promise<CryptoKey>;
-  }
+export interface ConnectorPullSummary {
+  providerId: string;
+  listed: number;
+  imported: number;
+  deleted: number;
+  skipped: number;
+  failed: number;
+  failures: Array<{ id: string; error: unknown }>;
+  /**
+   * Connector time up to which the connector has been pulled; later pulls skip entries older than it minus the overlap.
+   */
+  watermark?: number;
+}
 
-  // Fallback for non-browser environments or older browsers
-  // This is just a placeholder - in production you'd want a proper fallback
-  console.warn('WebCrypto not available, using mock key');
-  return null;
+export interface PullReport {
+  imported: number;
+  deleted: number;
+  skipped: number;
+  failed: number;
+  connectors: ConnectorPullSummary[];
 }
 
-async function encrypt(data: any, key: CryptoKey | null): Promise<string> {
-  // Simple mock implementation
-  // In a real implementation, this would properly encrypt the data
-  return 'encrypted:' + JSON.stringify(data);
+export interface GraphQueryOptions {
+  /** Restrict the merged graph to these graph record IDs. */
+  records?: string[];
+  /** Only merge graph records whose metadata matches this filter. */
+  filter?: MetadataFilter;
 }
 
-async function decrypt(encryptedData: string, key: CryptoKey | null): Promise<any> {
-  // Simple mock implementation
-  // In a real implementation, this would properly decrypt the data
-  if (encryptedData.startsWith('encrypted:')) {
-    return JSON.parse(encryptedData.substring(10));
-  }
-  return encryptedData;
+export interface KeyRotationProgress {
+  keyId: string;
+  total: number;
+  processed: number;
+  failed: number;
+  /** Record currently being re-encrypted. */
+  currentId?: string;
+}
+
+export interface KeyRotationReport extends KeyRotationProgress {
+  previousKeyId: string;
+  /** IDs of records that could not be re-encrypted, with the reason. */
+  failures: Array<{ id: string; providerId?: string; error: unknown }>;
+  /** Whether the previous key was retired after a failure-free rotation. */
+  retiredPrevious: boolean;
+  /** Why retirePrevious was not honoured although nothing failed: copies that may still use the previous key. */
+  retirementBlockedBy?: string;
+}
+
+export interface KeyRotationOptions {
+  /**
+   * Retire the previous key once every record was re-encrypted without failures and no local record, queued
+   * sync or connector copy still uses it. Connector copies are only checked with includeConnectors.
+   */
+  retirePrevious?: boolean;
+  /**
+   * Also re-encrypt records that only exist on connectors able to list and retrieve. Defaults to true.
+   */
+  includeConnectors?: boolean;
+  onProgress?: (progress: KeyRotationProgress) => void;
+}
+
+export interface MigrationProgress {
+  /** Records checked. */
+  total: number;
+  migrated: number;
+  failed: number;
+  /** Record currently being migrated. */
+  currentId?: string;
+}
+
+export interface MigrationReport extends MigrationProgress {
+  /** IDs of records that could not be migrated, with the reason. */
+  failures: Array<{ id: string; providerId?: string; error: unknown }>;
+}
+
+export interface MigrationOptions {
+  /**
+   * Also migrate records that only exist on connectors able to list and retrieve. Defaults to true.
+   */
+  includeConnectors?: boolean;
+  /**
+   * Accept the unencrypted "encrypted:" and plain values of 0.1.0 records and encrypt them. Only enable this
+   * for stores known to hold 0.1.0 data: such values cannot be told apart from forged ones.
+   */
+  legacyPlaintext?: boolean;
+  onProgress?: (progress: MigrationProgress) => void;
+}
+
+export interface ArchiveExportOptions {
+  /** Passphrase wrapping the key material in the archive. Defaults to the storage's encryptionPassphrase. */
+  passphrase?: string;
+  /** Include the key ring; a passphrase is then required. Defaults to true. */
+  includeKeys?: boolean;
+  /** Include the encrypted vector index so it does not have to be rebuilt on import. Defaults to true. */
+  includeVectorIndex?: boolean;
+  /** Node.js: stream the archive to this file instead of returning a Blob. */
+  path?: string;
+}
+
+export interface ArchiveExportResult {
+  items: number;
+  bytes: number;
+  /** The archive, unless it was written to a file. */
+  blob?: Blob;
+  path?: string;
+}
+
+export interface ArchiveImportOptions {
+  /**
+   * "merge" (default): newer copies win by version vector, concurrent ones go through the conflict strategy.
+   * "keep-local": only add records missing locally. "overwrite": archived copies always win.
+   * "replace": clear the local stores first.
+   */
+  mode?: 'merge' | 'keep-local' | 'overwrite' | 'replace';
+  /** Passphrase unwrapping the archived keys. Defaults to the storage's encryptionPassphrase. */
+  passphrase?: string;
+  /** Add the archived keys to the key ring as decrypt-only keys. Defaults to true. */
+  importKeys?: boolean;
+  /** Send imported records to connectors. Defaults to false. */
+  sync?: boolean;
+}
+
+export interface ArchiveImportReport {
+  total: number;
+  added: number;
+  updated: number;
+  skipped: number;
+  keysImported: number;
+  vectorIndexRestored: boolean;
+}
+
+export interface KeyRotation {
+  keyId: string;
+  /** Resolves once background re-encryption has finished. */
+  completion: Promise<KeyRotationReport>;
+}
+
+/**
+ * Serialisable snapshot of the searchable vector view, persisted next to the data.
+ * Record vectors are omitted when the HNSW graph (which holds them) is included.
+ */
+export interface SerializedVectorIndex {
+  v: 1;
+  records: Array<{
+    id: string;
+    metadata: Record<string, any>;
+    timestamp: number;
+    vectorCount: number;
+    vectors?: number[][];
+  }>;
+  hnsw: SerializedHNSWIndex | null;
+}
+
+export interface KeyInfo {
+  id: string;
+  status: KeyStatus;
+  createdAt: number;
+  retiredAt?: number;
+}
+
+function isPlainObject(value: unknown): value is Record<string, any> {
+  return !!value && typeof value === 'object' && !Array.isArray(value);
 }
 
 /**
@@ -127,37 +531,163 @@ export async function encryptedHybridStorage(options: StorageOptions = {}) {
     storagePrefix = 'smartclone',
     encryptionLevel = 'metadata',
     persistEncryptionKey = false,
+    encryptionPassphrase,
+    allowUnwrappedKey = false,
+    keyDerivation,
     connectors: connectorConfigs = [],
     awaitSyncByDefault = false,
-    defaultSyncTargets = []
+    defaultSyncTargets = [],
+    vectorIndex: vectorIndexOptions,
+    persistLocally = false,
+    syncOutbox: syncOutboxOptions = {},
+    replicaId = `replica-${createKeyId()}`,
+    conflictStrategy = 'last-writer-wins',
+    onConflict,
+    payloadEncoding,
+    cache: cacheOptions = {},
+    onQuotaPressure,
+    migrations: customMigrations
   } = options;
 
   // Setup encryption
-  let encryptionKey: CryptoKey | null = null;
+  if (persistEncryptionKey && encryptionLevel !== 'none' && !encryptionPassphrase && !allowUnwrappedKey) {
+    throw new Error('persistEncryptionKey needs an encryptionPassphrase; set allowUnwrappedKey to store the key unwrapped');
+  }
+  const keyName = `${storagePrefix}_enckey`;
+  const keyStore = persistEncryptionKey ? options.keyStore ?? createDefaultKeyStore() : null;
+  if (persistEncryptionKey && !keyStore) {
+    console.warn('No key store available, the encryption key will not be persisted');
+  }
+
+  let keyRing: KeyRing | null = null;
 
   if (encryptionLevel !== 'none') {
-    if (persistEncryptionKey && typeof localStorage !== 'undefined') {
-      const storedKey = localStorage.getItem(`${storagePrefix}_enckey`);
-      if (storedKey) {
-        try {
-          // In a real implementation, you'd properly import the key
-          // For now, generate a new key as we can't store CryptoKey directly
-          console.log('Stored key found, generating new key');
-          encryptionKey = await generateEncryptionKey();
-        } catch (e) {
-          console.warn('Failed to load stored key, generating new one', e);
-        }
-      }
+    keyRing = await loadOrCreateKeyRing({
+      keyStore,
+      keyName,
+      passphrase: encryptionPassphrase,
+      derivation: keyDerivation
+    });
+  }
+
+  async function persistKeyRing() {
+    if (!keyRing || !keyStore) return;
+    await keyStore.set(keyName, JSON.stringify(await exportKeyRing(keyRing, encryptionPassphrase, keyDerivation)));
+  }
+
+  function getActiveKey(): KeyRingEntry | null {
+    if (!keyRing) return null;
+    return keyRing.keys.find(entry => entry.id === keyRing!.activeKeyId && entry.key) ?? null;
+  }
+
+  function resolveDecryptionKey(value: unknown): CryptoKey {
+    const envelopeKeyId = getEnvelopeKeyId(value);
+    const keyId = envelopeKeyId ?? LEGACY_KEY_ID;
+    // Envelopes from before key rings carry no key ID; they were sealed with the only key there was
+    const entry = keyRing?.keys.find(candidate => candidate.id === keyId) ?? (envelopeKeyId ? undefined : getActiveKey());
+    if (!entry) {
+      throw new DecryptionError(`Encryption key ${keyId} is not in the key ring; import it with importKey()`);
+    }
+    if (!entry.key) {
+      throw new DecryptionError(`Encryption key ${keyId} is retired`);
     }
+    return entry.key;
+  }
 
-    if (!encryptionKey) {
-      encryptionKey = await generateEncryptionKey();
+  /**
+   * Additional data binding an encrypted field to its record, so ciphertexts cannot be moved between records.
+   */
+  function recordBinding(type: string, id: string, field: 'data' | 'metadata'): string {
+    return `smartclone:${type}:${id}:${field}`;
+  }
 
-      if (persistEncryptionKey && typeof localStorage !== 'undefined') {
-        // In a real implementation, you'd properly export and store the key
-        localStorage.setItem(`${storagePrefix}_enckey`, 'mock-key-storage');
-      }
+  async function sealValue(value: any, binding?: string): Promise<any> {
+    const active = getActiveKey();
+    if (!active || !active.key) return value;
+    return encryptValue(value, active.key, active.id, binding);
+  }
+
+  /**
+   * @param requireBinding reject envelopes that are not bound to the binding
+   * @throws DecryptionError when the value is not an envelope or fails authentication
+   */
+  async function openValue(value: any, binding?: string, requireBinding = false): Promise<any> {
+    if (!keyRing) return value;
+    if (!isEncryptedEnvelope(value)) {
+      throw new DecryptionError('Encrypted field is not an encrypted envelope');
+    }
+    if (requireBinding && !isBoundEnvelope(value)) {
+      throw new DecryptionError('Encrypted field is not bound to its record');
+    }
+    return decryptValue(value, resolveDecryptionKey(value), binding);
+  }
+
+  function retireKeyById(keyId: string) {
+    if (!keyRing) return;
+    if (keyId === keyRing.activeKeyId) {
+      throw new Error('The active encryption key cannot be retired');
+    }
+    const entry = keyRing.keys.find(candidate => candidate.id === keyId);
+    if (!entry) {
+      throw new Error(`Encryption key ${keyId} not found`);
     }
+    entry.status = 'retired';
+    entry.retiredAt = Date.now();
+    delete entry.key;
+  }
+
+  async function encryptRecord(data: any, metadata: Record<string, any>, type: PersistedStoreType, id: string) {
+    const active = getActiveKey();
+    const encoded = payloadEncoding ? await encodePayload(data, payloadEncoding, type) : { data };
+    const encryptedData = active && encryptionLevel === 'full'
+      ? await sealValue(encoded.data, recordBinding(type, id, 'data'))
+      : encoded.data;
+    const encryptedMetadata: Record<string, any> | string = active && (encryptionLevel === 'metadata' || encryptionLevel === 'full')
+      ? await sealValue(metadata, recordBinding(type, id, 'metadata'))
+      : metadata;
+    return {
+      data: encryptedData,
+      metadata: encryptedMetadata,
+      keyId: active?.id,
+      hash: await computeContentHash(encryptedData, encryptedMetadata),
+      encoding: encoded.encoding
+    };
+  }
+
+  /**
+   * @param legacyPlaintext accept the unencrypted values of 0.1.0 records
+   * @throws DecryptionError when an encrypted field is not an envelope bound to the record
+   */
+  async function decryptRecord(
+    item: { id: string; data: any; metadata: any; encoding?: PayloadEncoding; schemaVersion?: number },
+    type: PersistedStoreType,
+    legacyPlaintext = false
+  ) {
+    const version = migrations.versionOf(item);
+    const open = (value: any, field: 'data' | 'metadata') => {
+      if (legacyPlaintext && version === LEGACY_SCHEMA_VERSION && !isEncryptedEnvelope(value)) {
+        return decodeLegacyValue(value);
+      }
+      return openValue(value, recordBinding(type, item.id, field), version >= BOUND_SCHEMA_VERSION);
+    };
+    const decryptedData = await decodePayload(
+      encryptionLevel === 'full' ? await open(item.data, 'data') : item.data,
+      item.encoding
+    );
+    const decryptedMetadata = encryptionLevel === 'metadata' || encryptionLevel === 'full'
+      ? await open(item.metadata, 'metadata')
+      : item.metadata;
+    return { data: decryptedData, metadata: decryptedMetadata };
+  }
+
+  const migrations = createMigrationRegistry(customMigrations);
+
+  function migrationContext(type: PersistedStoreType, id: string, legacyPlaintext = false): MigrationContext {
+    return {
+      type,
+      open: item => decryptRecord(item, type, legacyPlaintext),
+      seal: (data, metadata) => encryptRecord(data, metadata, type, id)
+    };
   }
 
   // Build connectors for external persistence layers
@@ -165,192 +695,1132 @@ export async function encryptedHybridStorage(options: StorageOptions = {}) {
     ? await buildConnectors(connectorConfigs)
     : [];
 
+  const syncStateStore = options.syncStateStore ?? (connectors.length ? createDefaultKeyStore() : null);
+
+  // Outbox of connector operations that are retried until the connector confirms them
+  const outbox = connectors.length && syncOutboxOptions !== false
+    ? new SyncOutbox(
+      syncOutboxOptions.store ?? syncStateStore,
+      `${storagePrefix}_outbox`,
+      deliverOutboxEntry,
+      syncOutboxOptions
+    )
+    : null;
+
   // In-memory storage for this simplified version
   const vectorStore: Map<string, any> = new Map();
   const graphStore: Map<string, any> = new Map();
   const relationalStore: Map<string, any> = new Map();
+  const stores: Record<PersistedStoreType, Map<string, any>> = {
+    vector: vectorStore,
+    graph: graphStore,
+    relational: relationalStore
+  };
 
-  return {
-    // Store data in the appropriate format
-    async store(data: any, options: StoreOptions = {}): Promise<string> {
-      const {
-        type = 'auto',
-        metadata = {}
-      } = options;
+  // Durable local backend. The maps are loaded from it lazily and written through on every change.
+  const persistence = options.persistenceBackend
+    ?? (persistLocally ? createDefaultPersistenceBackend(`${storagePrefix}-data`) : null);
+  if (persistLocally && !persistence) {
+    console.warn('No local persistence backend available, stored items will not survive a reload');
+  }
+  let persistenceLoad: Promise<void> | null = null;
 
-      // Determine data type if auto
-      let dataType = type;
-      if (dataType === 'auto') {
-        if (Array.isArray(data) && data.length > 0 && Array.isArray(data[0])) {
-          dataType = 'vector';
-        } else if (typeof data === 'object' && data && data.nodes && data.edges) {
-          dataType = 'graph';
-        } else {
-          dataType = 'relational';
+  function loadPersistedItems() {
+    if (!persistence) return Promise.resolve();
+    if (!persistenceLoad) {
+      persistenceLoad = Promise.all((Object.keys(stores) as PersistedStoreType[]).map(async type => {
+        for (const item of await persistence.load(type)) {
+          // Items written since startup are newer than their persisted copies
+          if (!stores[type].has(item.id)) {
+            stores[type].set(item.id, item);
+            trackItem(type, item);
+          }
         }
-      }
+      })).then(() => enforceCacheBudget());
+      persistenceLoad.catch(() => {
+        persistenceLoad = null;
+      });
+    }
+    return persistenceLoad;
+  }
 
-      // Generate ID
-      const id = `${dataType}_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+  async function putItem(type: PersistedStoreType, item: PersistedItem) {
+    stores[type].set(item.id, item);
+    trackItem(type, item);
+    if (persistence) {
+      await persistence.put(type, item);
+    }
+    enforceCacheBudget(item.id);
+    checkDeviceQuota();
+  }
 
-      // Encrypt if needed
-      let encryptedData = data;
-      if (encryptionKey && encryptionLevel === 'full') {
-        encryptedData = await encrypt(data, encryptionKey);
-      }
+  // Size, access and expiry of the items held in memory
+  const cache = new CacheTracker(cacheOptions);
+  const pressureThreshold = cacheOptions.pressureThreshold ?? 0.9;
+  // Record versions a connector confirmed holding; only those may be evicted from memory
+  const syncedVersions: Map<string, number> = new Map();
+  // Records evicted from memory. They stay in the decrypted query views, so exports, deletions and expiry
+  // still have to reach them
+  const evictedItems: Map<string, Pick<PersistedItem, 'version' | 'clock' | 'expiresAt'> & { type: PersistedStoreType }> = new Map();
+  let memoryPressure = false;
+  let lastQuotaCheck = 0;
+  let expiryTimer: ReturnType<typeof setTimeout> | null = null;
+  let closed = false;
+  let scheduledExpiry: number | undefined;
 
-      // Encrypt metadata if needed
-      let encryptedMetadata: Record<string, any> | string = metadata;
-      if (encryptionKey && (encryptionLevel === 'metadata' || encryptionLevel === 'full')) {
-        encryptedMetadata = await encrypt(metadata, encryptionKey);
-      }
+  function isExpired(record: { expiresAt?: number }) {
+    return record.expiresAt !== undefined && record.expiresAt <= Date.now();
+  }
 
-      // Store data
-      const timestamp = Date.now();
-      const item = {
-        id,
-        data: encryptedData,
-        metadata: encryptedMetadata,
-        timestamp
-      };
+  function trackItem(type: PersistedStoreType, item: PersistedItem) {
+    cache.track(item.id, type, estimateItemSize(item), item.expiresAt);
+    evictedItems.delete(item.id);
+    if (item.expiresAt !== undefined && (scheduledExpiry === undefined || item.expiresAt < scheduledExpiry)) {
+      scheduleExpiry();
+    }
+  }
 
-      switch (dataType) {
-        case 'vector':
-          vectorStore.set(id, item);
-          break;
-        case 'graph':
-          graphStore.set(id, item);
-          break;
-        case 'relational':
-          relationalStore.set(id, item);
-          break;
-      }
+  function markSynced(id: string, version?: number) {
+    syncedVersions.set(id, version ?? 1);
+    if (cache.overBudget()) enforceCacheBudget();
+  }
 
-      if (connectors.length && !options.skipSync) {
-        const payload: StorageSyncPayload = {
-          id,
-          type: dataType as 'vector' | 'graph' | 'relational',
-          data: encryptedData,
-          metadata: encryptedMetadata,
-          timestamp,
-          storeOptions: options
-        };
+  function emitQuotaPressure(event: QuotaPressureEvent) {
+    try {
+      onQuotaPressure?.(event);
+    } catch (listenerError) {
+      console.warn('onQuotaPressure listener failed', listenerError);
+    }
+  }
 
-        const syncTargets = options.syncTargets ?? defaultSyncTargets;
-        const syncPromise = syncPayloadAcrossConnectors(
-          payload,
-          connectors,
-          syncTargets.length ? syncTargets : undefined
-        );
+  function isEvictable(type: PersistedStoreType, id: string) {
+    const item = stores[type].get(id);
+    return !!item && syncedVersions.get(id) === (item.version ?? 1) && !outbox?.hasPending(id);
+  }
 
-        if (options.awaitSync ?? awaitSyncByDefault) {
-          await syncPromise;
-        } else {
-          syncPromise.catch(error => {
-            console.warn('Connector synchronisation failed', error);
-          });
+  /**
+   * Drop least valuable records from memory until the budget holds. Persisted and connector copies are kept,
+   * and so are the decrypted query views, so queries return the same results.
+   */
+  function enforceCacheBudget(keep?: string) {
+    if (!cache.budgeted) return;
+    const evicted: string[] = [];
+    let pinned = 0;
+    if (cache.overBudget()) {
+      for (const id of cache.candidates()) {
+        if (!cache.overBudget()) break;
+        const type = cache.typeOf(id) as PersistedStoreType;
+        if (id === keep) continue;
+        if (!isEvictable(type, id)) {
+          pinned++;
+          continue;
         }
+        const { version, clock, expiresAt } = stores[type].get(id)!;
+        stores[type].delete(id);
+        cache.untrack(id);
+        syncedVersions.delete(id);
+        evictedItems.set(id, { type, version, clock, expiresAt });
+        evicted.push(id);
       }
+    }
 
-      return id;
-    },
-
-    // Retrieve data by ID
-    async retrieve(id: string, options: RetrieveOptions = {}): Promise<any> {
-      const { type = 'auto', source = 'all', connectors: preferredConnectors } = options;
-
-      let item = null;
+    const ratio = cache.usageRatio();
+    const pressured = ratio >= pressureThreshold;
+    // Report evictions, and sustained pressure only when it starts
+    if (evicted.length || (pressured && !memoryPressure)) {
+      emitQuotaPressure({
+        source: 'memory',
+        usedBytes: cache.bytes,
+        budgetBytes: cacheOptions.maxBytes,
+        itemCount: cache.size,
+        ratio,
+        evicted,
+        pinned
+      });
+    }
+    memoryPressure = pressured;
+  }
 
-      // If type specified, look only in that store
-      if (type !== 'auto') {
-        switch (type) {
-          case 'vector':
-            item = vectorStore.get(id);
-            break;
-          case 'graph':
-            item = graphStore.get(id);
-            break;
-          case 'relational':
-            item = relationalStore.get(id);
-            break;
-        }
-      } else {
-        // Try each store
-        item = vectorStore.get(id) || graphStore.get(id) || relationalStore.get(id);
+  function checkDeviceQuota() {
+    const interval = cacheOptions.quotaCheckInterval ?? 60 * 1000;
+    if (!onQuotaPressure || !interval || Date.now() - lastQuotaCheck < interval) return;
+    lastQuotaCheck = Date.now();
+    estimateStorage().then(storage => {
+      if (!storage || !storage.total) return;
+      const usedBytes = storage.total - storage.available;
+      const ratio = usedBytes / storage.total;
+      if (ratio >= pressureThreshold) {
+        emitQuotaPressure({ source: 'device', usedBytes, budgetBytes: storage.total, ratio, evicted: [], pinned: 0 });
       }
+    }).catch(error => console.warn('Storage quota check failed', error));
+  }
 
-      if (!item) {
-        if (source === 'memory') {
-          throw new Error(`Item with id ${id} not found`);
-        }
+  function nextExpiry(): number | undefined {
+    let next = cache.nextExpiry();
+    for (const { expiresAt } of evictedItems.values()) {
+      if (expiresAt !== undefined && (next === undefined || expiresAt < next)) next = expiresAt;
+    }
+    return next;
+  }
 
-        // Attempt to retrieve from connectors
-        if (connectors.length && (source === 'connectors' || source === 'all')) {
-          const connectorOrder = preferredConnectors && preferredConnectors.length
-            ? preferredConnectors
-            : connectors.map(connector => connector.id);
+  function scheduleExpiry() {
+    if (expiryTimer) clearTimeout(expiryTimer);
+    expiryTimer = null;
+    scheduledExpiry = nextExpiry();
+    if (scheduledExpiry === undefined || closed) return;
 
-          for (const connectorId of connectorOrder) {
-            const connector = connectors.find(itemConnector => itemConnector.id === connectorId);
-            if (!connector || !connector.retrieve) continue;
-            try {
-              const result = await connector.retrieve({
-                id,
-                type: type !== 'auto' ? (type as 'vector' | 'graph' | 'relational') : undefined
-              });
-              if (result) {
-                const retrieved: StorageRetrieveResult = result;
-                const localItem = {
-                  id: retrieved.id,
-                  data: retrieved.data,
-                  metadata: retrieved.metadata,
-                  timestamp: retrieved.timestamp ?? Date.now()
-                };
-
-                switch (retrieved.type) {
-                  case 'vector':
-                    vectorStore.set(retrieved.id, localItem);
-                    break;
-                  case 'graph':
-                    graphStore.set(retrieved.id, localItem);
-                    break;
-                  case 'relational':
-                    relationalStore.set(retrieved.id, localItem);
-                    break;
-                }
+    // Timer delays are capped at about 24.8 days; the purge reschedules for anything later
+    expiryTimer = setTimeout(() => {
+      expiryTimer = null;
+      purgeExpired().catch(error => console.warn('Failed to purge expired records', error));
+    }, Math.min(Math.max(0, scheduledExpiry - Date.now()), 0x7fffffff));
+    // Pending expiries must not keep a Node.js process alive
+    (expiryTimer as { unref?: () => void }).unref?.();
+  }
 
-                item = localItem;
-                break;
-              }
-            } catch (error) {
-              console.warn(`Failed to retrieve item ${id} from connector ${connectorId}`, error);
-            }
+  /**
+   * Delete records whose time to live has passed, locally and on connectors.
+   */
+  async function purgeExpired(): Promise<string[]> {
+    const purged: string[] = [];
+    for (const { id, type } of cache.expired()) {
+      const item = stores[type].get(id);
+      if (!item) continue;
+      try {
+        await removeRecord(type, item);
+        purged.push(id);
+      } catch (error) {
+        console.warn(`Failed to delete expired record ${id}`, error);
+      }
+    }
+    for (const [id, evicted] of Array.from(evictedItems)) {
+      if (!isExpired(evicted)) continue;
+      try {
+        await removeRecord(evicted.type, { id, version: evicted.version, clock: evicted.clock });
+        purged.push(id);
+      } catch (error) {
+        console.warn(`Failed to delete expired record ${id}`, error);
+      }
+    }
+    scheduleExpiry();
+    return purged;
+  }
+
+  // Decrypted view of vector records used for similarity search.
+  // It lives in memory only; connectors and persisted items only ever see ciphertext.
+  const vectorEntries: Map<string, VectorSearchEntry> = new Map();
+  let hnswIndex = vectorIndexOptions && vectorIndexOptions.type !== 'flat'
+    ? new HNSWIndex(vectorIndexOptions)
+    : null;
+  const vectorIndexRecordId = `${storagePrefix}__vector-index`;
+
+  // Queries without a metric use the index metric, whether the index is flat or HNSW
+  const defaultMetric: SimilarityMetric = vectorIndexOptions?.metric ?? 'cosine';
+
+  /**
+   * Vector length shared by the vector store, or null while it is empty.
+   */
+  function storeDimensions(except?: string): number | null {
+    for (const entry of vectorEntries.values()) {
+      if (entry.id !== except) return entry.vectors[0].length;
+    }
+    return null;
+  }
+
+  function dimensionMismatch(id: string, vectors: number[][]): string | null {
+    const expected = storeDimensions(id) ?? vectors[0].length;
+    const mismatch = vectors.find(vector => vector.length !== expected);
+    return mismatch ? `Vector record ${id} has ${mismatch.length} dimensions, but the vector store holds ${expected}` : null;
+  }
+
+  /**
+   * Reject vectors that differ in length from each other or from the rest of the store before they are written.
+   */
+  async function assertVectorDimensions(id: string, data: unknown) {
+    const vectors = extractVectors(data);
+    if (!vectors) return;
+    await hydrateVectorIndex();
+    const mismatch = dimensionMismatch(id, vectors);
+    if (mismatch) throw new Error(mismatch);
+  }
+
+  function assertQueryDimensions(queryVector: number[]) {
+    const dimensions = storeDimensions();
+    if (dimensions !== null && queryVector.length !== dimensions) {
+      throw new Error(`Query vector has ${queryVector.length} dimensions, but the vector store holds ${dimensions}`);
+    }
+  }
+
+  function indexVectorRecord(id: string, data: any, metadata: Record<string, any>, timestamp: number) {
+    unindexVectorRecord(id);
+    const vectors = extractVectors(data);
+    if (!vectors) return;
+    // Writes are checked up front; this only catches records from replicas that skipped the check
+    const mismatch = dimensionMismatch(id, vectors);
+    if (mismatch) {
+      console.warn(`${mismatch}; leaving it out of vector search`);
+      return;
+    }
+    const entry: VectorSearchEntry = { id, vectors, metadata: metadata ?? {}, timestamp };
+    vectorEntries.set(id, entry);
+    if (hnswIndex) {
+      addRecordVectors(hnswIndex, entry);
+    }
+  }
+
+  function unindexVectorRecord(id: string) {
+    const existing = vectorEntries.get(id);
+    if (!existing) return;
+    vectorEntries.delete(id);
+    if (hnswIndex) {
+      removeRecordVectors(hnswIndex, existing);
+    }
+  }
+
+  // Decrypted relational records used for filtering and sorting. Memory only, like vectorEntries.
+  const relationalEntries: Map<string, RelationalEntry> = new Map();
+
+  function indexRelationalRecord(id: string, data: any, metadata: Record<string, any>, timestamp: number) {
+    relationalEntries.set(id, { id, data, metadata: metadata ?? {}, timestamp });
+  }
+
+  // Decrypted graph records, merged on demand into a knowledge graph. Memory only, like vectorEntries.
+  const graphEntries: Map<string, GraphRecord & { metadata: Record<string, any> }> = new Map();
+  let mergedGraph: KnowledgeGraph | null = null;
+
+  function indexGraphRecord(id: string, data: any, metadata: Record<string, any>, timestamp: number) {
+    mergedGraph = null;
+    if (isGraphData(data)) {
+      graphEntries.set(id, { id, data, metadata: metadata ?? {}, timestamp });
+    } else {
+      graphEntries.delete(id);
+    }
+  }
+
+  function indexRecord(type: PersistedStoreType, id: string, data: any, metadata: Record<string, any>, timestamp: number) {
+    switch (type) {
+      case 'vector':
+        indexVectorRecord(id, data, metadata, timestamp);
+        break;
+      case 'graph':
+        indexGraphRecord(id, data, metadata, timestamp);
+        break;
+      case 'relational':
+        indexRelationalRecord(id, data, metadata, timestamp);
+        break;
+    }
+  }
+
+  /**
+   * Drop a record from its decrypted view, e.g. after deletion or when a newer copy has to be decrypted again.
+   */
+  function unindexRecord(type: PersistedStoreType, id: string) {
+    switch (type) {
+      case 'vector':
+        unindexVectorRecord(id);
+        break;
+      case 'graph':
+        graphEntries.delete(id);
+        mergedGraph = null;
+        break;
+      case 'relational':
+        relationalEntries.delete(id);
+        break;
+    }
+  }
+
+  /**
+   * Decrypt store items that are missing from a decrypted view, e.g. after retrieval from a connector.
+   */
+  async function hydrateView(
+    type: PersistedStoreType,
+    isIndexed: (id: string) => boolean,
+    index: (id: string, data: any, metadata: Record<string, any>, timestamp: number) => void
+  ) {
+    await loadPersistedItems();
+    for (const item of Array.from(stores[type].values())) {
+      if (isIndexed(item.id)) continue;
+      try {
+        const current = await upgradeItem(type, item);
+        const decrypted = await decryptRecord(current, type);
+        index(item.id, decrypted.data, decrypted.metadata, current.timestamp);
+      } catch (error) {
+        console.warn(`Failed to index record ${item.id}`, error);
+      }
+    }
+  }
+
+  const hydrateVectorIndex = () => hydrateView('vector', id => vectorEntries.has(id), indexVectorRecord);
+  const hydrateGraphIndex = () => hydrateView('graph', id => graphEntries.has(id), indexGraphRecord);
+  const hydrateRelationalIndex = () => hydrateView('relational', id => relationalEntries.has(id), indexRelationalRecord);
+
+  function searchVectors(queryVector: number[], searchOptions: {
+    k: number;
+    metric?: SimilarityMetric;
+    minScore?: number;
+    filter?: MetadataFilter;
+  }): VectorSearchResult[] {
+    assertQueryDimensions(queryVector);
+    const options = { ...searchOptions, metric: searchOptions.metric ?? defaultMetric };
+    if (hnswIndex && hnswIndex.size) {
+      return searchRecordsWithIndex(hnswIndex, vectorEntries, queryVector, options);
+    }
+    return bruteForceSearch(vectorEntries.values(), queryVector, options);
+  }
+
+  /**
+   * Hybrid query over the decrypted vector and relational views, boosted by the merged graph.
+   */
+  async function searchHybrid(hybridQuery: HybridQuery): Promise<HybridQueryResult[]> {
+    await hydrateVectorIndex();
+    await hydrateRelationalIndex();
+    if (hybridQuery.graph) {
+      await hydrateGraphIndex();
+      if (!mergedGraph) {
+        mergedGraph = mergeGraphRecords(graphEntries.values());
+      }
+    }
+
+    const candidates: HybridCandidate[] = [
+      ...Array.from(vectorEntries.values(), entry => ({
+        id: entry.id,
+        type: 'vector' as const,
+        data: entry.vectors,
+        metadata: entry.metadata,
+        timestamp: entry.timestamp
+      })),
+      ...Array.from(relationalEntries.values(), entry => ({ ...entry, type: 'relational' as const }))
+    ];
+
+    return runHybridQuery({
+      candidates,
+      graph: hybridQuery.graph ? mergedGraph : null,
+      searchVectors: (queryVector, { k, metric, candidateIds }) => {
+        // The index only helps when no filter narrowed the candidates
+        if (candidateIds.size === vectorEntries.size) {
+          return searchVectors(queryVector, { k, metric });
+        }
+        assertQueryDimensions(queryVector);
+        const subset = Array.from(candidateIds, id => vectorEntries.get(id))
+          .filter((entry): entry is VectorSearchEntry => !!entry);
+        return bruteForceSearch(subset, queryVector, { k, metric: metric ?? defaultMetric });
+      }
+    }, hybridQuery);
+  }
+
+  function exportVectorIndexSnapshot(): SerializedVectorIndex {
+    return {
+      v: 1,
+      records: Array.from(vectorEntries.values()).map(entry => ({
+        id: entry.id,
+        metadata: entry.metadata,
+        timestamp: entry.timestamp,
+        vectorCount: entry.vectors.length,
+        ...(hnswIndex ? {} : { vectors: entry.vectors })
+      })),
+      hnsw: hnswIndex ? hnswIndex.toJSON() : null
+    };
+  }
+
+  function importVectorIndexSnapshot(snapshot: SerializedVectorIndex) {
+    const restoredGraph = snapshot.hnsw
+      ? HNSWIndex.fromJSON(snapshot.hnsw, { efSearch: vectorIndexOptions?.efSearch })
+      : null;
+
+    vectorEntries.clear();
+    for (const record of snapshot.records) {
+      const vectors = record.vectors ?? Array.from({ length: record.vectorCount }, (_, position) =>
+        restoredGraph?.getVector(recordVectorKey(record.id, position)) ?? []
+      ).filter(vector => vector.length > 0);
+      vectorEntries.set(record.id, { id: record.id, vectors, metadata: record.metadata, timestamp: record.timestamp });
+    }
+
+    if (!vectorIndexOptions || vectorIndexOptions.type === 'flat') {
+      hnswIndex = null;
+    } else if (restoredGraph) {
+      hnswIndex = restoredGraph;
+    } else {
+      hnswIndex = new HNSWIndex(vectorIndexOptions);
+      for (const entry of vectorEntries.values()) {
+        addRecordVectors(hnswIndex, entry);
+      }
+    }
+  }
+
+  /**
+   * Retry a queued operation against its connector with the current local copy of the record.
+   */
+  async function deliverOutboxEntry(entry: OutboxEntry): Promise<ConnectorSyncResult | null> {
+    const connector = connectors.find(candidate => candidate.id === entry.connectorId);
+    if (!connector) return null;
+
+    if (entry.operation === 'delete') {
+      const [result] = await deletePayloadAcrossConnectors(
+        { id: entry.id, type: entry.type, timestamp: Date.now(), version: entry.version, clock: entry.clock },
+        [connector],
+        [connector.id]
+      );
+      return result ?? null;
+    }
+
+    await loadPersistedItems();
+    const item = stores[entry.type].get(entry.id);
+    if (!item) return null;
+    const [result] = await syncPayloadAcrossConnectors({
+      id: item.id,
+      type: entry.type,
+      data: item.data,
+      metadata: item.metadata,
+      timestamp: item.timestamp,
+      keyId: item.keyId,
+      version: item.version,
+      clock: item.clock,
+      hash: item.hash,
+      encoding: item.encoding,
+      expiresAt: item.expiresAt,
+      schemaVersion: item.schemaVersion
+    }, [connector], [connector.id]);
+    if (result?.success) markSynced(item.id, item.version);
+    return result ?? null;
+  }
+
+  /**
+   * Send a store or delete operation to connectors, recording it in the outbox first.
+   */
+  async function dispatchSync(
+    operation: 'store' | 'delete',
+    payload: StorageSyncPayload,
+    targets?: string[]
+  ): Promise<ConnectorSyncResult[]> {
+    const selected = selectConnectors(connectors, targets);
+    if (!selected.length) return [];
+    const selectedIds = selected.map(connector => connector.id);
+
+    const entries = outbox
+      ? await outbox.enqueue(selectedIds.map(connectorId => ({
+        connectorId,
+        id: payload.id,
+        type: payload.type,
+        operation,
+        version: payload.version,
+        ...(operation === 'delete' ? { clock: payload.clock } : {})
+      })))
+      : [];
+    const results = operation === 'store'
+      ? await syncPayloadAcrossConnectors(payload, selected, selectedIds)
+      : await deletePayloadAcrossConnectors(payload, selected, selectedIds);
+    if (outbox) {
+      await outbox.settle(entries, results);
+    }
+    if (operation === 'store' && results.some(result => result.success)) {
+      markSynced(payload.id, payload.version);
+    }
+    return results;
+  }
+
+  /**
+   * Settle diverging connector copies of a record: a causally newer copy wins outright, concurrent copies
+   * go through the conflict strategy. Outdated connectors are sent the result and a report is emitted.
+   */
+  async function reconcileCopies(id: string, found: StorageRetrieveResult[]): Promise<StorageRetrieveResult> {
+    const raw = new Map<RecordCopy, StorageRetrieveResult>();
+    for (const result of found) {
+      try {
+        const decrypted = result.deleted ? { data: null, metadata: null } : await decryptRecord(result, result.type);
+        raw.set({
+          providerId: result.providerId,
+          data: decrypted.data,
+          metadata: decrypted.metadata,
+          timestamp: result.timestamp ?? 0,
+          version: result.version ?? 1,
+          clock: result.clock,
+          hash: result.hash,
+          deleted: result.deleted
+        }, result);
+      } catch (error) {
+        console.warn(`Ignoring undecryptable copy of ${id} on connector ${result.providerId}`, error);
+      }
+    }
+
+    const copies = Array.from(raw.keys());
+    if (!copies.length) return found[0];
+
+    const latest = latestCopies(copies);
+    const type = found[0].type;
+    let winner: RecordCopy | null = latest[0];
+    let merged: { data: any; metadata: any } | null = null;
+    let strategy: ConflictReport['strategy'] = 'version-vector';
+
+    if (latest.length > 1) {
+      if (typeof conflictStrategy === 'function') {
+        strategy = 'custom';
+        const resolution = await conflictStrategy({ id, type, copies: latest });
+        winner = copies.find(copy => copy === resolution || copy.providerId === (resolution as RecordCopy).providerId) ?? null;
+        merged = winner ? null : resolution;
+      } else {
+        strategy = conflictStrategy;
+        winner = pickCopy(latest, conflictStrategy);
+      }
+    }
+
+    let resolved: StorageRetrieveResult;
+    let outdated: RecordCopy[];
+    if (winner) {
+      const chosen = winner;
+      outdated = copies.filter(copy => copy !== chosen && compareCopies(copy, chosen) !== 'equal');
+      if (!outdated.length) return raw.get(chosen) as StorageRetrieveResult;
+      resolved = raw.get(chosen) as StorageRetrieveResult;
+    } else {
+      outdated = copies;
+      const sealed = await encryptRecord(merged!.data, merged!.metadata, type, id);
+      resolved = {
+        id,
+        type,
+        data: sealed.data,
+        metadata: sealed.metadata,
+        keyId: sealed.keyId,
+        hash: sealed.hash,
+        encoding: sealed.encoding,
+        expiresAt: raw.get(latest[0])?.expiresAt,
+        schemaVersion: CURRENT_SCHEMA_VERSION,
+        timestamp: Date.now(),
+        version: Math.max(...copies.map(copy => copy.version)) + 1,
+        clock: incrementClock(mergeClocks(...copies.map(copy => copy.clock)), replicaId),
+        providerId: 'merged'
+      };
+    }
+
+    const repaired = outdated.map(copy => copy.providerId);
+    const { providerId, raw: rawResult, ...payload } = resolved;
+    dispatchSync(resolved.deleted ? 'delete' : 'store', { ...payload, timestamp: payload.timestamp ?? Date.now() }, repaired).catch(error => {
+      console.warn(`Failed to repair connector copies of ${id}`, error);
+    });
+
+    onConflict?.({
+      id,
+      type,
+      kind: latest.length > 1 ? 'concurrent' : 'stale',
+      strategy,
+      copies: copies.map(({ providerId: copyProvider, version, timestamp, clock, hash, deleted }) => ({
+        providerId: copyProvider,
+        version,
+        timestamp,
+        clock,
+        hash,
+        deleted
+      })),
+      winner: winner ? winner.providerId : 'merged',
+      repaired,
+      resolvedAt: Date.now()
+    });
+
+    return resolved;
+  }
+
+  // Per-connector pull watermarks, persisted in the sync state store when there is one
+  const watermarksName = `${storagePrefix}_pull`;
+  let watermarks: Record<string, number> | null = null;
+
+  async function loadWatermarks(): Promise<Record<string, number>> {
+    if (!watermarks) {
+      const raw = syncStateStore ? await syncStateStore.get(watermarksName) : null;
+      watermarks = raw ? JSON.parse(raw) : {};
+    }
+    return watermarks as Record<string, number>;
+  }
+
+  async function saveWatermarks() {
+    if (syncStateStore && watermarks) {
+      await syncStateStore.set(watermarksName, JSON.stringify(watermarks));
+    }
+  }
+
+  async function removeLocalItem(type: PersistedStoreType, id: string) {
+    stores[type].delete(id);
+    cache.untrack(id);
+    syncedVersions.delete(id);
+    evictedItems.delete(id);
+    if (persistence) {
+      await persistence.delete(type, id);
+    }
+    unindexRecord(type, id);
+  }
+
+  /**
+   * Delete a record locally and send the deletion to connectors.
+   */
+  async function removeRecord(type: PersistedStoreType, item: any, options: DeleteOptions = {}): Promise<ConnectorSyncResult[]> {
+    await removeLocalItem(type, item.id);
+
+    if (!connectors.length || options.skipSync) return [];
+
+    const syncTargets = options.syncTargets ?? defaultSyncTargets;
+    const deletion = dispatchSync(
+      'delete',
+      {
+        id: item.id,
+        type,
+        data: null,
+        metadata: {},
+        timestamp: Date.now(),
+        version: (item.version ?? 1) + 1,
+        clock: incrementClock(item.clock, replicaId)
+      },
+      syncTargets
+    );
+
+    if (options.awaitSync ?? awaitSyncByDefault) {
+      return deletion;
+    }
+    deletion.catch(error => {
+      console.warn('Connector deletion failed', error);
+    });
+    return [];
+  }
+
+  /**
+   * Import a connector's copy of a record when it is newer than the local one.
+   */
+  async function pullRecord(connector: StorageConnector, id: string): Promise<'imported' | 'deleted' | 'skipped'> {
+    const remote = await connector.retrieve!({ id });
+    if (!remote) return 'skipped';
+
+    const memoryType = (Object.keys(stores) as PersistedStoreType[]).find(type => stores[type].has(id));
+    const local = memoryType ? stores[memoryType].get(id) : null;
+    // Evicted records are still held in the query views, so deletions have to reach them too
+    const localType = memoryType ?? evictedItems.get(id)?.type;
+
+    let resolved: StorageRetrieveResult = remote;
+    if (local) {
+      const order = compareCopies(remote, local);
+      if (order === 'equal' || order === 'before') return 'skipped';
+      if (order === 'concurrent') {
+        const localCopy: StorageRetrieveResult = { ...local, type: localType as PersistedStoreType, providerId: 'local' };
+        resolved = await reconcileCopies(id, [localCopy, remote]);
+        if (resolved === localCopy) return 'skipped';
+      }
+    }
+
+    if (resolved.deleted) {
+      if (!localType) return 'skipped';
+      await removeLocalItem(localType, id);
+      return 'deleted';
+    }
+    // Expired copies count as deleted; a device holding the record also deletes it on connectors
+    if (isExpired(resolved)) {
+      if (!localType) return 'skipped';
+      await removeRecord(localType, resolved);
+      return 'deleted';
+    }
+
+    if (localType && localType !== resolved.type) {
+      stores[localType].delete(id);
+      unindexRecord(localType, id);
+    }
+    await putItem(resolved.type, {
+      id,
+      data: resolved.data,
+      metadata: resolved.metadata,
+      timestamp: resolved.timestamp ?? Date.now(),
+      keyId: resolved.keyId,
+      version: resolved.version,
+      clock: resolved.clock,
+      hash: resolved.hash,
+      encoding: resolved.encoding,
+      expiresAt: resolved.expiresAt,
+      schemaVersion: resolved.schemaVersion
+    });
+    unindexRecord(resolved.type, id);
+    if (resolved.providerId !== 'merged') markSynced(id, resolved.version);
+    return 'imported';
+  }
+
+  /**
+   * Newest live connector copy of a record, as a local item. Nothing is cached.
+   */
+  async function fetchConnectorItem(id: string): Promise<PersistedItem | null> {
+    let newest: StorageRetrieveResult | null = null;
+    for (const connector of connectors) {
+      if (!connector.retrieve) continue;
+      const copy = await connector.retrieve({ id }).catch(error => {
+        console.warn(`Failed to retrieve item ${id} from connector ${connector.id}`, error);
+        return null;
+      });
+      if (!copy || copy.deleted || isExpired(copy)) continue;
+      if (!newest || compareCopies(copy, newest) === 'after') newest = copy;
+    }
+    if (!newest) return null;
+    const { providerId, raw, type, deleted, ...item } = newest;
+    return { ...item, timestamp: item.timestamp ?? Date.now() };
+  }
+
+  /**
+   * Merge imported keys into the key ring. With activate the imported active key becomes the active key;
+   * otherwise imported keys can only decrypt.
+   */
+  function mergeKeyRing(imported: KeyRing, activate: boolean) {
+    const activeKeyId = activate || !keyRing ? imported.activeKeyId : keyRing.activeKeyId;
+    const merged: KeyRingEntry[] = keyRing ? [...keyRing.keys] : [];
+    for (const entry of imported.keys) {
+      const index = merged.findIndex(existing => existing.id === entry.id);
+      if (index === -1) {
+        merged.push(entry);
+      } else if (entry.key) {
+        merged[index] = entry;
+      }
+    }
+    keyRing = {
+      activeKeyId,
+      keys: merged.map(entry => ({
+        ...entry,
+        status: entry.id === activeKeyId ? 'active' : entry.status === 'active' ? 'decrypt-only' : entry.status
+      }))
+    };
+  }
+
+  /**
+   * Find a stored (encrypted) item locally or, failing that, on connectors and cache it locally.
+   */
+  async function locateItem(id: string, options: RetrieveOptions = {}): Promise<{ type: PersistedStoreType; item: any }> {
+    const { type = 'auto', source = 'all', connectors: preferredConnectors } = options;
+    await loadPersistedItems();
+
+    let item: any = null;
+    let itemType: PersistedStoreType | null = null;
+
+    // If type specified, look only in that store
+    const candidateTypes = type !== 'auto' ? [type] : (Object.keys(stores) as PersistedStoreType[]);
+    for (const candidateType of candidateTypes) {
+      item = stores[candidateType].get(id);
+      if (item) {
+        itemType = candidateType;
+        break;
+      }
+    }
+
+    if (item && isExpired(item)) {
+      await removeRecord(itemType as PersistedStoreType, item);
+      throw new Error(`Item with id ${id} not found`);
+    }
+    if (item) {
+      cache.touch(id);
+    }
+
+    if (!item) {
+      if (source === 'memory') {
+        throw new Error(`Item with id ${id} not found`);
+      }
+
+      // Attempt to retrieve from connectors
+      if (connectors.length && (source === 'connectors' || source === 'all')) {
+        const connectorOrder = preferredConnectors && preferredConnectors.length
+          ? preferredConnectors
+          : connectors.map(connector => connector.id);
+
+        // Read every connector's copy so diverging copies are detected instead of trusting the first hit
+        const copies = (await Promise.all(connectorOrder.map(async connectorId => {
+          const connector = connectors.find(itemConnector => itemConnector.id === connectorId);
+          if (!connector || !connector.retrieve) return null;
+          try {
+            return await connector.retrieve({
+              id,
+              type: type !== 'auto' ? (type as 'vector' | 'graph' | 'relational') : undefined
+            });
+          } catch (error) {
+            console.warn(`Failed to retrieve item ${id} from connector ${connectorId}`, error);
+            return null;
           }
+        }))).filter((copy): copy is StorageRetrieveResult => !!copy);
+
+        const live = copies.filter(copy => !isExpired(copy));
+        const retrieved = live.length > 1 ? await reconcileCopies(id, live) : live[0];
+
+        // Tombstones mark deleted records
+        if (retrieved && !retrieved.deleted) {
+          const localItem = {
+            id: retrieved.id,
+            data: retrieved.data,
+            metadata: retrieved.metadata,
+            timestamp: retrieved.timestamp ?? Date.now(),
+            keyId: retrieved.keyId,
+            version: retrieved.version,
+            clock: retrieved.clock,
+            hash: retrieved.hash,
+            encoding: retrieved.encoding,
+            expiresAt: retrieved.expiresAt,
+            schemaVersion: retrieved.schemaVersion
+          };
+
+          await putItem(retrieved.type, localItem);
+          unindexRecord(retrieved.type, retrieved.id);
+          if (retrieved.providerId !== 'merged') markSynced(id, retrieved.version);
+
+          item = localItem;
+          itemType = retrieved.type;
         }
+      }
+
+      if (!item) {
+        throw new Error(`Item with id ${id} not found`);
+      }
+    }
+
+    return { type: itemType as PersistedStoreType, item };
+  }
+
+  /**
+   * Existing record under an ID about to be stored, migrated to the current schema version.
+   */
+  async function findExistingRecord(id: string): Promise<{ type: PersistedStoreType; item: PersistedItem } | null> {
+    let located: { type: PersistedStoreType; item: PersistedItem };
+    try {
+      located = await locateItem(id);
+    } catch {
+      return null;
+    }
+    return { type: located.type, item: await upgradeItem(located.type, located.item) };
+  }
+
+  /**
+   * Bring a stored item to the current schema version. A migrated item replaces the local copy and is sent
+   * to connectors, in the background unless awaitSync is set.
+   * @throws SchemaVersionError when the item was written by a newer release
+   */
+  async function upgradeItem(
+    type: PersistedStoreType,
+    item: PersistedItem,
+    upgradeOptions: { awaitSync?: boolean; legacyPlaintext?: boolean } = {}
+  ): Promise<PersistedItem> {
+    const { awaitSync = false, legacyPlaintext = false } = upgradeOptions;
+    if (!migrations.needsMigration(item)) return item;
+    const migrated = await migrations.migrate(item, migrationContext(type, item.id, legacyPlaintext));
+    // The local copy may have been replaced or removed meanwhile
+    if (stores[type].get(item.id) !== item) return migrated;
+
+    await putItem(type, migrated);
+    unindexRecord(type, item.id);
+    if (connectors.length) {
+      const syncPromise = dispatchSync('store', { ...migrated, type });
+      if (awaitSync) {
+        await syncPromise;
+      } else {
+        syncPromise.catch(error => {
+          console.warn(`Failed to synchronise migrated record ${item.id}`, error);
+        });
+      }
+    }
+    return migrated;
+  }
 
-        if (!item) {
-          throw new Error(`Item with id ${id} not found`);
+  // Load queued operations from a previous session and schedule their retries
+  if (outbox) {
+    await outbox.start();
+  }
+
+  return {
+    // Store data in the appropriate format
+    async store(data: any, options: StoreOptions = {}): Promise<string> {
+      const {
+        type = 'auto',
+        metadata = {}
+      } = options;
+
+      // Determine data type if auto
+      let dataType = type;
+      if (dataType === 'auto') {
+        if (Array.isArray(data) && data.length > 0 && Array.isArray(data[0])) {
+          dataType = 'vector';
+        } else if (typeof data === 'object' && data && data.nodes && data.edges) {
+          dataType = 'graph';
+        } else {
+          dataType = 'relational';
+        }
+      }
+
+      // Generate an ID unless the caller supplied one or asked for a content-addressed one
+      let id: string;
+      if (options.id !== undefined) {
+        assertValidRecordId(options.id);
+        id = options.id;
+      } else if (options.contentAddressed) {
+        id = await createContentAddressedId(dataType, data);
+      } else {
+        id = createRecordId(dataType);
+      }
+      if (id === vectorIndexRecordId) {
+        throw new Error(`Record id ${id} is reserved`);
+      }
+      if (dataType === 'vector') {
+        await assertVectorDimensions(id, data);
+      }
+
+      // A record stored under a known ID continues the existing record's history
+      await loadPersistedItems();
+      const existing = options.id !== undefined || options.contentAddressed ? await findExistingRecord(id) : null;
+      if (existing) {
+        const { ifExists = 'upsert' } = options;
+        if (ifExists === 'error') {
+          throw new Error(`Item with id ${id} already exists`);
+        }
+        if (ifExists === 'skip') {
+          return id;
+        }
+        if (options.ttl === undefined && existing.type === dataType) {
+          const current = await decryptRecord(existing.item, existing.type);
+          if (canonicalJson([current.data, current.metadata ?? {}]) === canonicalJson([data, metadata])) {
+            return id;
+          }
+        }
+      }
+
+      // Encrypt data and metadata according to the encryption level
+      const {
+        data: encryptedData,
+        metadata: encryptedMetadata,
+        keyId,
+        hash,
+        encoding
+      } = await encryptRecord(data, metadata, dataType as PersistedStoreType, id);
+      const clock = incrementClock(existing?.item.clock, replicaId);
+      const version = (existing?.item.version ?? 0) + 1;
+
+      // Store data
+      const timestamp = existing ? Math.max(Date.now(), existing.item.timestamp + 1) : Date.now();
+      const expiresAt = options.ttl !== undefined ? timestamp + options.ttl : undefined;
+      const item = {
+        id,
+        data: encryptedData,
+        metadata: encryptedMetadata,
+        timestamp,
+        keyId,
+        version,
+        clock,
+        hash,
+        encoding,
+        expiresAt,
+        schemaVersion: CURRENT_SCHEMA_VERSION
+      };
+
+      if (existing && existing.type !== dataType) {
+        await removeLocalItem(existing.type, id);
+      }
+      await putItem(dataType as PersistedStoreType, item);
+      indexRecord(dataType as PersistedStoreType, id, data, metadata, timestamp);
+
+      if (connectors.length && !options.skipSync) {
+        const payload: StorageSyncPayload = {
+          id,
+          type: dataType as 'vector' | 'graph' | 'relational',
+          data: encryptedData,
+          metadata: encryptedMetadata,
+          timestamp,
+          keyId,
+          version,
+          clock,
+          hash,
+          encoding,
+          expiresAt,
+          schemaVersion: CURRENT_SCHEMA_VERSION
+        };
+
+        const syncTargets = options.syncTargets ?? defaultSyncTargets;
+        const syncPromise = dispatchSync('store', payload, syncTargets);
+
+        if (options.awaitSync ?? awaitSyncByDefault) {
+          await syncPromise;
+        } else {
+          syncPromise.catch(error => {
+            console.warn('Connector synchronisation failed', error);
+          });
         }
       }
 
-      // Decrypt if needed
-      let decryptedData = item.data;
-      if (encryptionKey && encryptionLevel === 'full' && typeof item.data === 'string') {
-        decryptedData = await decrypt(item.data, encryptionKey);
-      }
+      return id;
+    },
+
+    // Retrieve data by ID
+    async retrieve(id: string, options: RetrieveOptions = {}): Promise<any> {
+      const located = await locateItem(id, options);
+      const item = await upgradeItem(located.type, located.item);
 
-      // Decrypt metadata if needed
-      let decryptedMetadata = item.metadata;
-      if (encryptionKey && (encryptionLevel === 'metadata' || encryptionLevel === 'full') && typeof item.metadata === 'string') {
-        decryptedMetadata = await decrypt(item.metadata, encryptionKey);
-      }
+      // Decrypt data and metadata with the key recorded in their envelopes
+      const { data: decryptedData, metadata: decryptedMetadata } = await decryptRecord(item, located.type);
 
       return {
         id: item.id,
         data: decryptedData,
         metadata: decryptedMetadata,
-        timestamp: item.timestamp
+        timestamp: item.timestamp,
+        version: item.version ?? 1
+      };
+    },
+
+    /**
+     * Update a record in place. Plain object data is shallow-merged with the patch unless replace is set;
+     * the ID is kept while version and timestamp are bumped.
+     */
+    async update(id: string, patch: any, options: UpdateOptions = {}): Promise<any> {
+      const located = await locateItem(id, { type: options.type });
+      const { type } = located;
+      const item = await upgradeItem(type, located.item);
+      const current = await decryptRecord(item, type);
+
+      const data = patch === undefined
+        ? current.data
+        : !options.replace && isPlainObject(current.data) && isPlainObject(patch)
+          ? { ...current.data, ...patch }
+          : patch;
+      const metadata = options.metadata ? { ...(current.metadata ?? {}), ...options.metadata } : current.metadata;
+      if (type === 'vector') {
+        await assertVectorDimensions(id, data);
+      }
+
+      const {
+        data: encryptedData,
+        metadata: encryptedMetadata,
+        keyId,
+        hash,
+        encoding
+      } = await encryptRecord(data, metadata, type, id);
+      const timestamp = Math.max(Date.now(), item.timestamp + 1);
+      const updated = {
+        id,
+        data: encryptedData,
+        metadata: encryptedMetadata,
+        timestamp,
+        keyId,
+        version: (item.version ?? 1) + 1,
+        clock: incrementClock(item.clock, replicaId),
+        hash,
+        encoding,
+        expiresAt: options.ttl !== undefined ? timestamp + options.ttl : item.expiresAt,
+        schemaVersion: CURRENT_SCHEMA_VERSION
       };
+      await putItem(type, updated);
+      indexRecord(type, id, data, metadata, updated.timestamp);
+
+      if (connectors.length && !options.skipSync) {
+        const syncTargets = options.syncTargets ?? defaultSyncTargets;
+        const syncPromise = dispatchSync('store', { ...updated, type }, syncTargets);
+
+        if (options.awaitSync ?? awaitSyncByDefault) {
+          await syncPromise;
+        } else {
+          syncPromise.catch(error => {
+            console.warn('Connector synchronisation failed', error);
+          });
+        }
+      }
+
+      return { id, data, metadata, timestamp: updated.timestamp, version: updated.version };
+    },
+
+    /**
+     * Delete a record locally and replace it on connectors with a tombstone that other devices pull.
+     */
+    async delete(id: string, options: DeleteOptions = {}): Promise<ConnectorSyncResult[]> {
+      const { type, item } = await locateItem(id, { type: options.type });
+      return removeRecord(type, item, options);
     },
 
     // Query data (simplified)
@@ -361,9 +1831,30 @@ export async function encryptedHybridStorage(options: StorageOptions = {}) {
         source = 'memory',
         connectors: preferredConnectors
       } = options;
+      await loadPersistedItems();
+
+      // Vector similarity, graph proximity and relational filters fused into one ranking
+      if (type === 'auto' && isHybridQuery(query)) {
+        return searchHybrid({ ...query, limit: query.limit ?? limit, minScore: query.minScore ?? options.minScore });
+      }
+
+      // Similarity search over decrypted in-memory vectors
+      const queryVector = type === 'vector' || type === 'auto' ? extractQueryVector(query) : null;
+      if (queryVector) {
+        await hydrateVectorIndex();
+        return searchVectors(queryVector, {
+          k: limit,
+          metric: options.metric,
+          minScore: options.minScore,
+          filter: options.filter
+        });
+      }
 
-      // This is a simplified implementation
-      // A real implementation would have proper querying logic for each type
+      // Declarative filter/sort/paginate query over decrypted relational records
+      if ((type === 'relational' || type === 'auto') && isRelationalQuery(query)) {
+        await hydrateRelationalIndex();
+        return runRelationalQuery(relationalEntries.values(), query, limit);
+      }
 
       const memoryResults: any[] = [];
 
@@ -382,6 +1873,10 @@ export async function encryptedHybridStorage(options: StorageOptions = {}) {
         } else if (type === 'relational') {
           memoryResults.push(...Array.from(relationalStore.values()).map(item => ({ id: item.id })));
         }
+        // Evicted records are still held locally, only not in memory
+        for (const [id, evicted] of evictedItems) {
+          if (type === 'auto' || type === evicted.type) memoryResults.push({ id });
+        }
       }
 
       const connectorResults: any[] = [];
@@ -418,11 +1913,39 @@ export async function encryptedHybridStorage(options: StorageOptions = {}) {
       return combined.slice(0, limit);
     },
 
+    /**
+     * Rank records by vector similarity and graph proximity, restricted by data and metadata filters.
+     */
+    async hybridQuery(hybridQuery: HybridQuery): Promise<HybridQueryResult[]> {
+      return searchHybrid(hybridQuery);
+    },
+
+    /**
+     * Merge stored graph records into one knowledge graph for neighbour, traversal and path queries.
+     * Without options the merged graph of every record is cached until the graph store changes.
+     */
+    async getGraph(graphOptions: GraphQueryOptions = {}): Promise<KnowledgeGraph> {
+      await hydrateGraphIndex();
+      const { records, filter } = graphOptions;
+      if (!records && !filter) {
+        if (!mergedGraph) {
+          mergedGraph = mergeGraphRecords(graphEntries.values());
+        }
+        return mergedGraph;
+      }
+
+      const selected = Array.from(graphEntries.values()).filter(entry =>
+        (!records || records.includes(entry.id)) && matchesMetadataFilter(entry.metadata, filter)
+      );
+      return mergeGraphRecords(selected);
+    },
+
     /**
      * Trigger synchronisation for a given identifier with optional connector targets.
      */
     async sync(id: string, targets?: string[]): Promise<ConnectorSyncResult[]> {
       if (!connectors.length) return [];
+      await loadPersistedItems();
 
       const item = vectorStore.get(id) || graphStore.get(id) || relationalStore.get(id);
       if (!item) {
@@ -436,32 +1959,742 @@ export async function encryptedHybridStorage(options: StorageOptions = {}) {
         type,
         data: item.data,
         metadata: item.metadata,
-        timestamp: item.timestamp
+        timestamp: item.timestamp,
+        keyId: item.keyId,
+        version: item.version,
+        clock: item.clock,
+        hash: item.hash,
+        encoding: item.encoding,
+        expiresAt: item.expiresAt,
+        schemaVersion: item.schemaVersion
+      };
+
+      return dispatchSync('store', payload, targets);
+    },
+
+    /**
+     * Download records other devices uploaded. Connectors are listed page by page; entries the connector
+     * stored before its watermark (less the overlap) are skipped, and newer copies replace or reconcile with local ones.
+     */
+    async pull(pullOptions: PullOptions = {}): Promise<PullReport> {
+      const { connectors: preferredConnectors, full = false, overlap = DEFAULT_PULL_OVERLAP, onProgress } = pullOptions;
+      await loadPersistedItems();
+      const marks = await loadWatermarks();
+      const report: PullReport = { imported: 0, deleted: 0, skipped: 0, failed: 0, connectors: [] };
+
+      const sources = preferredConnectors && preferredConnectors.length
+        ? connectors.filter(connector => preferredConnectors.includes(connector.id))
+        : connectors;
+
+      for (const connector of sources) {
+        if (!connector.list || !connector.retrieve) continue;
+
+        const since = full ? undefined : marks[connector.id];
+        const summary: ConnectorPullSummary = {
+          providerId: connector.id,
+          listed: 0,
+          imported: 0,
+          deleted: 0,
+          skipped: 0,
+          failed: 0,
+          failures: [],
+          watermark: since
+        };
+        report.connectors.push(summary);
+
+        let highest = since ?? 0;
+        let lowestFailed: number | undefined;
+        let listingFailed = false;
+        let cursor: string | undefined;
+        do {
+          let page;
+          try {
+            page = await connector.list({ cursor });
+          } catch (error) {
+            summary.failed++;
+            summary.failures.push({ id: '*', error });
+            listingFailed = true;
+            break;
+          }
+
+          for (const entry of page.entries) {
+            if (entry.id === vectorIndexRecordId) continue;
+            summary.listed++;
+            onProgress?.({ providerId: connector.id, listed: summary.listed, currentId: entry.id });
+
+            if (since !== undefined && entry.timestamp !== undefined && entry.timestamp < since - overlap) {
+              summary.skipped++;
+              continue;
+            }
+
+            try {
+              summary[await pullRecord(connector, entry.id)]++;
+              if (entry.timestamp !== undefined) highest = Math.max(highest, entry.timestamp);
+            } catch (error) {
+              summary.failed++;
+              summary.failures.push({ id: entry.id, error });
+              if (entry.timestamp !== undefined) lowestFailed = Math.min(lowestFailed ?? Infinity, entry.timestamp);
+            }
+          }
+          cursor = page.nextCursor;
+        } while (cursor);
+
+        // Failed entries are retried next time, so the watermark must not pass them
+        if (!listingFailed) {
+          summary.watermark = lowestFailed !== undefined ? Math.min(highest, lowestFailed) : highest;
+          marks[connector.id] = summary.watermark;
+        }
+
+        report.imported += summary.imported;
+        report.deleted += summary.deleted;
+        report.skipped += summary.skipped;
+        report.failed += summary.failed;
+      }
+
+      await saveWatermarks();
+      return report;
+    },
+
+    /**
+     * Stop background work: outbox retries, its 'online' listener and the expiry timer. Queued operations stay
+     * in the outbox and are retried by the next storage opened on the same syncStateStore.
+     */
+    async close(): Promise<void> {
+      closed = true;
+      if (expiryTimer) clearTimeout(expiryTimer);
+      expiryTimer = null;
+      await outbox?.stop();
+    },
+
+    /**
+     * Items and bytes held in memory against the configured budget, plus the device quota where it can be read.
+     */
+    async getStorageUsage(): Promise<CacheUsage> {
+      await loadPersistedItems();
+      const device = await estimateStorage();
+      return {
+        items: cache.size,
+        bytes: cache.bytes,
+        maxBytes: cacheOptions.maxBytes,
+        maxItems: cacheOptions.maxItems,
+        ...(device ? { device } : {})
       };
+    },
+
+    /**
+     * Delete expired records now instead of waiting for their scheduled expiry. Resolves to the deleted IDs.
+     */
+    async purgeExpired(): Promise<string[]> {
+      await loadPersistedItems();
+      return purgeExpired();
+    },
+
+    /**
+     * Queue depth and last error per connector for synchronisation tracked by the outbox.
+     */
+    getSyncStatus(): SyncStatus {
+      return outbox ? outbox.status() : { pending: 0, online: true, connectors: [] };
+    },
+
+    /**
+     * Retry every queued synchronisation now, including entries that exhausted their attempts.
+     */
+    async flushSync(): Promise<SyncStatus> {
+      if (!outbox) return { pending: 0, online: true, connectors: [] };
+      await outbox.flush(true);
+      return outbox.status();
+    },
+
+    /**
+     * Access configured connectors for advanced scenarios.
+     */
+    getConnectors(): StorageConnector[] {
+      return [...connectors];
+    },
+
+    /**
+     * Snapshot of the decrypted vector view and HNSW graph. Contains plaintext; handle with care.
+     */
+    exportVectorIndex(): SerializedVectorIndex {
+      return exportVectorIndexSnapshot();
+    },
 
+    /**
+     * Encrypt the vector index snapshot and synchronise it to connectors next to the data.
+     */
+    async persistVectorIndex(targets?: string[]): Promise<ConnectorSyncResult[]> {
+      if (!connectors.length) return [];
+      await hydrateVectorIndex();
+      const snapshot = exportVectorIndexSnapshot();
+      const active = getActiveKey();
+      // Compression only: packing the snapshot's vectors lossily would change search results after a restore
+      const encoded = payloadEncoding ? await encodePayload(snapshot, payloadEncoding) : { data: snapshot };
       return syncPayloadAcrossConnectors(
-        payload,
+        {
+          id: vectorIndexRecordId,
+          type: 'vector',
+          data: await sealValue(encoded.data, recordBinding('vector', vectorIndexRecordId, 'data')),
+          metadata: await sealValue(
+            { kind: 'vector-index', records: snapshot.records.length },
+            recordBinding('vector', vectorIndexRecordId, 'metadata')
+          ),
+          timestamp: Date.now(),
+          keyId: active?.id,
+          encoding: encoded.encoding,
+          schemaVersion: CURRENT_SCHEMA_VERSION
+        },
         connectors,
         targets && targets.length ? targets : undefined
       );
     },
 
     /**
-     * Access configured connectors for advanced scenarios.
+     * Restore a vector index snapshot persisted with persistVectorIndex.
+     * Resolves to false when no connector holds a snapshot.
      */
-    getConnectors(): StorageConnector[] {
-      return [...connectors];
+    async restoreVectorIndex(preferredConnectors?: string[]): Promise<boolean> {
+      const connectorOrder = preferredConnectors && preferredConnectors.length
+        ? preferredConnectors
+        : connectors.map(connector => connector.id);
+
+      for (const connectorId of connectorOrder) {
+        const connector = connectors.find(itemConnector => itemConnector.id === connectorId);
+        if (!connector || !connector.retrieve) continue;
+        try {
+          const result = await connector.retrieve({ id: vectorIndexRecordId, type: 'vector' });
+          if (!result) continue;
+          importVectorIndexSnapshot(await decodePayload(
+            await openValue(
+              result.data,
+              recordBinding('vector', vectorIndexRecordId, 'data'),
+              (result.schemaVersion ?? LEGACY_SCHEMA_VERSION) >= BOUND_SCHEMA_VERSION
+            ),
+            result.encoding
+          ) as SerializedVectorIndex);
+          return true;
+        } catch (error) {
+          console.warn(`Failed to restore vector index from connector ${connectorId}`, error);
+        }
+      }
+      return false;
+    },
+
+    /**
+     * Export the key ring, wrapped with the passphrase when one is given.
+     * The record can be imported on another device to decrypt the same data.
+     */
+    async exportKey(passphrase: string | undefined = encryptionPassphrase): Promise<KeyRingRecord | null> {
+      if (!keyRing) return null;
+      return exportKeyRing(keyRing, passphrase, keyDerivation);
+    },
+
+    /**
+     * Merge an exported key ring (or single key record) into the local ring and make its active key current.
+     */
+    async importKey(record: KeyRingRecord | WrappedKeyRecord, passphrase: string | undefined = encryptionPassphrase): Promise<void> {
+      mergeKeyRing(await importKeyRing(record, passphrase), true);
+      await persistKeyRing();
+    },
+
+    /**
+     * Export every store, the wrapped key ring and the encrypted vector index as one archive.
+     * Items are archived as stored, i.e. encrypted; records evicted from memory are read from connectors.
+     */
+    async exportArchive(archiveOptions: ArchiveExportOptions = {}): Promise<ArchiveExportResult> {
+      const {
+        passphrase = encryptionPassphrase,
+        includeKeys = true,
+        includeVectorIndex = true,
+        path: filePath
+      } = archiveOptions;
+      if (includeKeys && keyRing && !passphrase) {
+        throw new Error('A passphrase is required to export key material; pass includeKeys: false to leave the keys out');
+      }
+      await loadPersistedItems();
+
+      // The trailer HMAC is keyed from the passphrase, else from the active data key
+      const active = getActiveKey();
+      let authentication: { auth: ArchiveAuthentication; key: CryptoKey } | undefined;
+      if (passphrase) {
+        const salt = await createArchiveSalt();
+        authentication = { auth: { kind: 'passphrase', salt }, key: await deriveArchivePassphraseKey(passphrase, salt) };
+      } else if (active?.key) {
+        authentication = { auth: { kind: 'key', keyId: active.id }, key: await deriveArchiveDataKey(active.key) };
+      }
+
+      const fileSink = filePath ? await createFileSink(filePath) : null;
+      const parts: string[] = [];
+      const writer = createArchiveWriter(chunk => (fileSink ? fileSink.write(chunk) : void parts.push(chunk)), authentication);
+      let items = 0;
+
+      await writer.write({
+        kind: 'header',
+        format: ARCHIVE_FORMAT,
+        v: ARCHIVE_VERSION,
+        createdAt: Date.now(),
+        encryptionLevel,
+        replicaId
+      });
+      if (includeKeys && keyRing) {
+        await writer.write({ kind: 'keyring', record: await exportKeyRing(keyRing, passphrase, keyDerivation) });
+      }
+      for (const type of Object.keys(stores) as PersistedStoreType[]) {
+        for (const item of Array.from(stores[type].values())) {
+          if (isExpired(item)) continue;
+          await writer.write({ kind: 'item', store: type, item });
+          items++;
+        }
+      }
+      for (const [id, { type }] of Array.from(evictedItems)) {
+        const item = await fetchConnectorItem(id);
+        if (!item) continue;
+        await writer.write({ kind: 'item', store: type, item });
+        items++;
+      }
+      if (includeVectorIndex) {
+        await hydrateVectorIndex();
+        if (vectorEntries.size) {
+          const snapshot = exportVectorIndexSnapshot();
+          const encoded = payloadEncoding ? await encodePayload(snapshot, payloadEncoding) : { data: snapshot };
+          await writer.write({
+            kind: 'vector-index',
+            data: await sealValue(encoded.data, recordBinding('vector', vectorIndexRecordId, 'data')),
+            keyId: getActiveKey()?.id,
+            encoding: encoded.encoding,
+            schemaVersion: CURRENT_SCHEMA_VERSION
+          });
+        }
+      }
+      await writer.end();
+
+      if (fileSink) {
+        return { items, bytes: await fileSink.close(), path: filePath };
+      }
+      const blob = new Blob(parts, { type: 'application/x-ndjson' });
+      return { items, bytes: blob.size, blob };
+    },
+
+    /**
+     * Import an archive written by exportArchive. The archive is verified completely before anything changes,
+     * then read a second time and imported in batches; streams are buffered into a Blob for that.
+     * @throws ArchiveIntegrityError when the archive is truncated or altered, or the passphrase is wrong
+     * @throws DecryptionError when the archived keys cannot be unwrapped with the passphrase
+     */
+    async importArchive(source: ArchiveSource, archiveOptions: ArchiveImportOptions = {}): Promise<ArchiveImportReport> {
+      const { mode = 'merge', passphrase = encryptionPassphrase, importKeys = true, sync = false } = archiveOptions;
+      const archive = await replayableSource(source);
+      const contents = await verifyArchive(archive, {
+        requireAuthentication: encryptionLevel !== 'none',
+        async resolveKey(auth) {
+          if (auth.kind === 'passphrase') {
+            if (!passphrase) {
+              throw new ArchiveIntegrityError('The archive is authenticated with a passphrase; pass it to importArchive');
+            }
+            return deriveArchivePassphraseKey(passphrase, auth.salt);
+          }
+          const entry = keyRing?.keys.find(candidate => candidate.id === auth.keyId && candidate.key);
+          if (!entry) {
+            throw new ArchiveIntegrityError(`The archive is authenticated with key ${auth.keyId}, which this storage does not hold`);
+          }
+          return deriveArchiveDataKey(entry.key!);
+        }
+      });
+      if (contents.header.encryptionLevel !== encryptionLevel) {
+        throw new Error(
+          `The archive was written with encryption level ${contents.header.encryptionLevel}, this storage uses ${encryptionLevel}`
+        );
+      }
+      const importedKeys = contents.keyRing && importKeys ? await importKeyRing(contents.keyRing, passphrase) : null;
+      await loadPersistedItems();
+
+      const report: ArchiveImportReport = {
+        total: contents.items,
+        added: 0,
+        updated: 0,
+        skipped: 0,
+        keysImported: 0,
+        vectorIndexRestored: false
+      };
+      if (importedKeys) {
+        const known = new Set(keyRing?.keys.map(entry => entry.id));
+        report.keysImported = importedKeys.keys.filter(entry => !known.has(entry.id)).length;
+        mergeKeyRing(importedKeys, false);
+        await persistKeyRing();
+      }
+
+      if (mode === 'replace') {
+        for (const type of Object.keys(stores) as PersistedStoreType[]) {
+          for (const id of Array.from(stores[type].keys())) {
+            await removeLocalItem(type, id);
+          }
+        }
+        for (const [id, { type }] of Array.from(evictedItems)) {
+          await removeLocalItem(type, id);
+        }
+      }
+
+      // The archived vector index only matches when every archived vector record lands as is in an empty store
+      let vectorIndexUsable = vectorStore.size === 0;
+      const syncs: Array<Promise<unknown>> = [];
+      // Only one batch of items is held at a time; its connector syncs finish before the next batch is read
+      for await (const batch of readArchiveItems(archive, ARCHIVE_IMPORT_BATCH)) {
+        for (const { store: type, item } of batch) {
+          const localType = (Object.keys(stores) as PersistedStoreType[]).find(candidate => stores[candidate].has(item.id));
+          const local = localType ? stores[localType].get(item.id) : null;
+
+          let resolved: PersistedItem | null = isExpired(item) ? null : item;
+          if (resolved && local && mode !== 'overwrite') {
+            const order = mode === 'keep-local' ? 'before' : compareCopies(item, local);
+            if (order === 'equal' || order === 'before') {
+              resolved = null;
+            } else if (order === 'concurrent') {
+              const localCopy: StorageRetrieveResult = { ...local, type: localType as PersistedStoreType, providerId: 'local' };
+              const merged = await reconcileCopies(item.id, [localCopy, { ...item, type, providerId: 'archive' }]);
+              if (merged === localCopy) {
+                resolved = null;
+              } else {
+                const { providerId, raw, type: mergedType, deleted, ...mergedItem } = merged;
+                resolved = { ...mergedItem, timestamp: mergedItem.timestamp ?? Date.now() };
+                vectorIndexUsable = vectorIndexUsable && providerId === 'archive';
+              }
+            }
+          }
+
+          if (!resolved) {
+            report.skipped++;
+            if (type === 'vector') vectorIndexUsable = false;
+            continue;
+          }
+          const previousType = localType ?? evictedItems.get(item.id)?.type;
+          if (previousType && previousType !== type) {
+            await removeLocalItem(previousType, item.id);
+          }
+          await putItem(type, resolved);
+          unindexRecord(type, item.id);
+          if (local) report.updated++;
+          else report.added++;
+
+          if (sync && connectors.length) {
+            syncs.push(dispatchSync('store', { ...resolved, type }).catch(error => {
+              console.warn(`Failed to synchronise imported record ${item.id}`, error);
+            }));
+          }
+        }
+        await Promise.all(syncs);
+        syncs.length = 0;
+      }
+
+      if (contents.vectorIndex && vectorIndexUsable) {
+        try {
+          const { data, encoding, schemaVersion = LEGACY_SCHEMA_VERSION } = contents.vectorIndex;
+          const snapshot = await decodePayload(
+            await openValue(data, recordBinding('vector', vectorIndexRecordId, 'data'), schemaVersion >= BOUND_SCHEMA_VERSION),
+            encoding
+          );
+          importVectorIndexSnapshot(snapshot as SerializedVectorIndex);
+          report.vectorIndexRestored = true;
+        } catch (error) {
+          console.warn('Failed to restore the archived vector index; it is rebuilt from the records instead', error);
+        }
+      }
+
+      return report;
+    },
+
+    /**
+     * List the keys in the key ring without exposing key material.
+     */
+    listKeys(): KeyInfo[] {
+      if (!keyRing) return [];
+      return keyRing.keys.map(({ id, status, createdAt, retiredAt }) => ({ id, status, createdAt, retiredAt }));
+    },
+
+    /**
+     * Generate a new active key and re-encrypt existing records with it in the background.
+     * Records written under the previous key stay readable until that key is retired.
+     */
+    async rotateKey(rotationOptions: KeyRotationOptions = {}): Promise<KeyRotation> {
+      if (!keyRing) {
+        throw new Error('Key rotation requires encryption to be enabled');
+      }
+
+      const { retirePrevious = false, includeConnectors = true, onProgress } = rotationOptions;
+      const key = await generateEncryptionKey();
+      if (!key) {
+        throw new Error('Failed to generate a new encryption key');
+      }
+
+      const previousKeyId = keyRing.activeKeyId;
+      const keyId = createKeyId();
+      keyRing = {
+        activeKeyId: keyId,
+        keys: [
+          ...keyRing.keys.map(entry => (entry.status === 'active' ? { ...entry, status: 'decrypt-only' as KeyStatus } : entry)),
+          { id: keyId, status: 'active', createdAt: Date.now(), key }
+        ]
+      };
+      await persistKeyRing();
+
+      const completion = (async (): Promise<KeyRotationReport> => {
+        const report: KeyRotationReport = {
+          keyId,
+          previousKeyId,
+          total: 0,
+          processed: 0,
+          failed: 0,
+          failures: [],
+          retiredPrevious: false
+        };
+
+        const reencrypt = async (record: PersistedItem, type: PersistedStoreType): Promise<PersistedItem> => {
+          // Migrating re-seals older records with the new key and brings their envelopes up to date
+          let sealed: PersistedItem;
+          if (migrations.needsMigration(record)) {
+            sealed = await migrations.migrate(record, migrationContext(type, record.id));
+          } else {
+            const decrypted = await decryptRecord(record, type);
+            sealed = { ...record, ...await encryptRecord(decrypted.data, decrypted.metadata, type, record.id) };
+          }
+          // The re-sealed copy must supersede the old one on other devices instead of looking like a conflict
+          return { ...sealed, clock: incrementClock(sealed.clock, replicaId) };
+        };
+
+        // Connector copies another writer left under the previous key while they were being re-encrypted
+        let staleConnectorCopies = 0;
+        // What may still hold envelopes sealed with the previous key, or undefined when nothing does
+        const previousKeyUse = (): string | undefined => {
+          const items = (Object.keys(stores) as PersistedStoreType[]).flatMap(type => Array.from(stores[type].values()));
+          if (items.some(item => item.keyId === previousKeyId)) return 'local records';
+          if (outbox && items.some(item => outbox!.hasPending(item.id))) return 'queued connector syncs';
+          if (staleConnectorCopies) return `${staleConnectorCopies} connector copies`;
+          if (!includeConnectors && connectors.length) return 'unchecked connector copies';
+          return undefined;
+        };
+
+        await loadPersistedItems();
+        const localEntries = (Object.keys(stores) as PersistedStoreType[]).flatMap(type =>
+          Array.from(stores[type].values())
+            .filter(item => item.keyId !== keyId)
+            .map(item => ({ type, item }))
+        );
+        report.total = localEntries.length;
+
+        for (const { type, item } of localEntries) {
+          report.currentId = item.id;
+          try {
+            const updated = await reencrypt(item, type);
+            // A record updated or deleted meanwhile was already written with the new key, or is gone
+            let unsynced: ConnectorSyncResult[] = [];
+            if (stores[type].get(item.id) === item) {
+              await putItem(type, updated);
+              const results = await dispatchSync('store', {
+                id: updated.id,
+                type,
+                data: updated.data,
+                metadata: updated.metadata,
+                timestamp: updated.timestamp,
+                keyId: updated.keyId,
+                version: updated.version,
+                clock: updated.clock,
+                hash: updated.hash,
+                encoding: updated.encoding,
+                expiresAt: updated.expiresAt,
+                schemaVersion: updated.schemaVersion
+              });
+              unsynced = results.filter(result => !result.success);
+            }
+            if (unsynced.length) {
+              // The connectors keep the copy sealed with the previous key until the outbox delivers the new one
+              report.failed++;
+              for (const result of unsynced) {
+                report.failures.push({ id: item.id, providerId: result.providerId, error: result.error });
+              }
+            } else {
+              report.processed++;
+            }
+          } catch (error) {
+            report.failed++;
+            report.failures.push({ id: item.id, error });
+          }
+          onProgress?.({ keyId, total: report.total, processed: report.processed, failed: report.failed, currentId: item.id });
+        }
+
+        if (includeConnectors) {
+          for (const connector of connectors) {
+            if (!connector.list || !connector.retrieve) continue;
+            let cursor: string | undefined;
+            do {
+              let page;
+              try {
+                page = await connector.list({ cursor });
+              } catch (error) {
+                report.failures.push({ id: '*', providerId: connector.id, error });
+                report.failed++;
+                break;
+              }
+              for (const entry of page.entries) {
+                if (vectorStore.has(entry.id) || graphStore.has(entry.id) || relationalStore.has(entry.id)) continue;
+                report.total++;
+                report.currentId = entry.id;
+                try {
+                  const remote = await connector.retrieve({ id: entry.id });
+                  let result: ConnectorSyncResult | null = null;
+                  if (remote && !remote.deleted && (remote.keyId ?? getEnvelopeKeyId(remote.metadata)) !== keyId) {
+                    const { providerId, raw, type, deleted, ...item } = remote;
+                    const sealed = await reencrypt({ ...item, timestamp: item.timestamp ?? Date.now() }, type);
+                    // Skip copies another device or a local write replaced meanwhile
+                    const latest = await connector.retrieve({ id: entry.id });
+                    const replaced = !latest || latest.version !== remote.version || latest.hash !== remote.hash
+                      || vectorStore.has(entry.id) || graphStore.has(entry.id) || relationalStore.has(entry.id);
+                    if (!replaced) {
+                      result = await connector.store({
+                        id: sealed.id,
+                        type,
+                        data: sealed.data,
+                        metadata: sealed.metadata,
+                        timestamp: sealed.timestamp,
+                        keyId: sealed.keyId,
+                        version: sealed.version,
+                        clock: sealed.clock,
+                        hash: sealed.hash,
+                        encoding: sealed.encoding,
+                        expiresAt: sealed.expiresAt,
+                        schemaVersion: sealed.schemaVersion
+                      });
+                    } else if (latest && !latest.deleted && (latest.keyId ?? getEnvelopeKeyId(latest.metadata)) === previousKeyId) {
+                      staleConnectorCopies++;
+                    }
+                  }
+                  if (result && !result.success) {
+                    report.failed++;
+                    report.failures.push({ id: entry.id, providerId: connector.id, error: result.error });
+                  } else {
+                    report.processed++;
+                  }
+                } catch (error) {
+                  report.failed++;
+                  report.failures.push({ id: entry.id, providerId: connector.id, error });
+                }
+                onProgress?.({ keyId, total: report.total, processed: report.processed, failed: report.failed, currentId: entry.id });
+              }
+              cursor = page.nextCursor;
+            } while (cursor);
+          }
+        }
+
+        delete report.currentId;
+
+        if (retirePrevious && report.failed === 0) {
+          report.retirementBlockedBy = previousKeyUse();
+          if (!report.retirementBlockedBy) {
+            retireKeyById(previousKeyId);
+            await persistKeyRing();
+            report.retiredPrevious = true;
+          }
+        }
+
+        return report;
+      })();
+
+      completion.catch(error => {
+        console.warn('Key rotation failed', error);
+      });
+
+      return { keyId, completion };
+    },
+
+    /**
+     * Retire a key. Its key material is discarded and records still encrypted under it become unreadable.
+     */
+    async retireKey(keyId: string): Promise<void> {
+      retireKeyById(keyId);
+      await persistKeyRing();
+    },
+
+    /**
+     * Upgrade every record written with an older schema version instead of waiting for it to be read.
+     * Migrated local records are sent to connectors; records only held by connectors are rewritten there.
+     */
+    async migrateRecords(migrationOptions: MigrationOptions = {}): Promise<MigrationReport> {
+      const { includeConnectors = true, legacyPlaintext = false, onProgress } = migrationOptions;
+      const report: MigrationReport = { total: 0, migrated: 0, failed: 0, failures: [] };
+      const progress = (currentId: string) => {
+        onProgress?.({ total: report.total, migrated: report.migrated, failed: report.failed, currentId });
+      };
+
+      await loadPersistedItems();
+      const localEntries = (Object.keys(stores) as PersistedStoreType[]).flatMap(type =>
+        Array.from(stores[type].values()).map(item => ({ type, item: item as PersistedItem }))
+      );
+      report.total = localEntries.length;
+
+      for (const { type, item } of localEntries) {
+        report.currentId = item.id;
+        try {
+          if (await upgradeItem(type, item, { awaitSync: true, legacyPlaintext }) !== item) report.migrated++;
+        } catch (error) {
+          report.failed++;
+          report.failures.push({ id: item.id, error });
+        }
+        progress(item.id);
+      }
+
+      if (includeConnectors) {
+        for (const connector of connectors) {
+          if (!connector.list || !connector.retrieve) continue;
+          let cursor: string | undefined;
+          do {
+            let page;
+            try {
+              page = await connector.list({ cursor });
+            } catch (error) {
+              report.failures.push({ id: '*', providerId: connector.id, error });
+              report.failed++;
+              break;
+            }
+            for (const entry of page.entries) {
+              if (entry.id === vectorIndexRecordId) continue;
+              if (vectorStore.has(entry.id) || graphStore.has(entry.id) || relationalStore.has(entry.id)) continue;
+              report.total++;
+              report.currentId = entry.id;
+              try {
+                const remote = await connector.retrieve({ id: entry.id });
+                if (remote && !remote.deleted && migrations.needsMigration(remote)) {
+                  const { providerId, raw, type, deleted, ...item } = remote;
+                  const migrated = await migrations.migrate(
+                    { ...item, timestamp: item.timestamp ?? Date.now() },
+                    migrationContext(type, entry.id, legacyPlaintext)
+                  );
+                  const result = await connector.store({ ...migrated, type });
+                  if (!result.success) {
+                    throw result.error ?? new Error(`Connector ${connector.id} did not store ${entry.id}`);
+                  }
+                  report.migrated++;
+                }
+              } catch (error) {
+                report.failed++;
+                report.failures.push({ id: entry.id, providerId: connector.id, error });
+              }
+              progress(entry.id);
+            }
+            cursor = page.nextCursor;
+          } while (cursor);
+        }
+      }
+
+      delete report.currentId;
+      return report;
     },
 
     // Encryption utilities
     encryptionLevel,
     async encrypt(data: any) {
-      if (encryptionLevel === 'none' || !encryptionKey) return data;
-      return encrypt(data, encryptionKey);
+      if (encryptionLevel === 'none') return data;
+      return sealValue(data);
     },
     async decrypt(data: any) {
-      if (encryptionLevel === 'none' || !encryptionKey) return data;
-      return decrypt(data, encryptionKey);
+      if (encryptionLevel === 'none') return data;
+      return openValue(data);
     }
   };
 }
@@ -0,0 +1,90 @@
+/*
+ * Copyright 2025 SmartClone Contributors
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+import {
+  DecryptionError,
+  ENCRYPTION_ENVELOPE_PREFIX,
+  decryptValue,
+  encryptValue,
+  generateEncryptionKey,
+  isBoundEnvelope,
+  isEncryptedEnvelope,
+  parseEnvelope
+} from './encryption';
+
+describe('encryptValue', () => {
+  it('round-trips JSON values through a versioned AES-GCM envelope', async () => {
+    const key = (await generateEncryptionKey())!;
+    const value = { name: 'Ada', tags: ['a', 'b'], nested: { n: 1.5 } };
+
+    const sealed = await encryptValue(value, key);
+    expect(isEncryptedEnvelope(sealed)).toBe(true);
+    expect(sealed).not.toContain('Ada');
+    expect(parseEnvelope(sealed)).toMatchObject({ v: 1, alg: 'AES-GCM' });
+    expect(await decryptValue(sealed, key)).toEqual(value);
+  });
+
+  it('uses a fresh IV for every value', async () => {
+    const key = (await generateEncryptionKey())!;
+
+    const [first, second] = [await encryptValue('same', key), await encryptValue('same', key)];
+    expect(parseEnvelope(first).iv).not.toBe(parseEnvelope(second).iv);
+    expect(first).not.toBe(second);
+  });
+});
+
+describe('decryptValue', () => {
+  it('rejects tampered ciphertexts', async () => {
+    const key = (await generateEncryptionKey())!;
+    const envelope = parseEnvelope(await encryptValue({ balance: 10 }, key));
+    const ciphertext = Buffer.from(envelope.ct, 'base64');
+    ciphertext[0] ^= 1;
+    const tampered = ENCRYPTION_ENVELOPE_PREFIX + JSON.stringify({ ...envelope, ct: ciphertext.toString('base64') });
+
+    await expect(decryptValue(tampered, key)).rejects.toThrow(DecryptionError);
+  });
+
+  it('rejects values sealed with another key', async () => {
+    const sealed = await encryptValue('secret', (await generateEncryptionKey())!);
+
+    await expect(decryptValue(sealed, (await generateEncryptionKey())!)).rejects.toThrow(DecryptionError);
+  });
+
+  it('rejects malformed envelopes and unknown versions', async () => {
+    const key = (await generateEncryptionKey())!;
+    const envelope = parseEnvelope(await encryptValue('secret', key));
+
+    await expect(decryptValue(`${ENCRYPTION_ENVELOPE_PREFIX}{not json`, key)).rejects.toThrow('Encrypted envelope is malformed');
+    await expect(decryptValue(ENCRYPTION_ENVELOPE_PREFIX + JSON.stringify({ ...envelope, v: 99 }), key))
+      .rejects.toThrow('Unsupported encrypted envelope version: 99');
+  });
+
+  it('rejects values that are not envelopes, including 0.1.0 placeholders', async () => {
+    const key = (await generateEncryptionKey())!;
+
+    await expect(decryptValue('encrypted:{"name":"Ada"}', key)).rejects.toThrow('Value is not an encrypted envelope');
+    await expect(decryptValue({ name: 'Ada' }, key)).rejects.toThrow(DecryptionError);
+  });
+
+  it('only decrypts bound envelopes with the additional data they were sealed with', async () => {
+    const key = (await generateEncryptionKey())!;
+    const sealed = await encryptValue({ balance: 10 }, key, undefined, 'relational:accounts_1:data');
+
+    expect(isBoundEnvelope(sealed)).toBe(true);
+    expect(await decryptValue(sealed, key, 'relational:accounts_1:data')).toEqual({ balance: 10 });
+    await expect(decryptValue(sealed, key, 'relational:accounts_2:data')).rejects.toThrow(DecryptionError);
+    await expect(decryptValue(sealed, key)).rejects.toThrow(DecryptionError);
+  });
+});
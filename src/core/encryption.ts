@@ -0,0 +1,267 @@
+/*
+ * Copyright 2025 SmartClone Contributors
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+/**
+ * Authenticated encryption primitives for hybrid storage.
+ * Values are sealed with AES-GCM into a versioned, self-describing string envelope.
+ */
+
+/** Prefix identifying serialised encryption envelopes. */
+export const ENCRYPTION_ENVELOPE_PREFIX = 'sce:';
+
+/**
+ * Current envelope format version. Version 2 envelopes are bound to additional authenticated data
+ * (e.g. the record and field they belong to); version 1 envelopes are not.
+ */
+export const ENCRYPTION_ENVELOPE_VERSION = 2;
+
+const UNBOUND_ENVELOPE_VERSION = 1;
+const LEGACY_ENVELOPE_PREFIX = 'encrypted:';
+const IV_LENGTH = 12;
+
+/**
+ * Serialised form of an encrypted value.
+ */
+export interface EncryptedEnvelope {
+  /** Envelope format version. */
+  v: number;
+  alg: 'AES-GCM';
+  /** Base64 encoded initialisation vector, unique per record. */
+  iv: string;
+  /** Base64 encoded ciphertext including the GCM authentication tag. */
+  ct: string;
+  /** Identifier of the key ring entry used to encrypt the value. */
+  kid?: string;
+}
+
+/**
+ * Thrown when encryption cannot be performed, e.g. because WebCrypto is unavailable.
+ */
+export class EncryptionError extends Error {
+  constructor(message: string, public readonly cause?: unknown) {
+    super(message);
+    this.name = 'EncryptionError';
+  }
+}
+
+/**
+ * Thrown when an envelope fails authentication or cannot be parsed.
+ * This indicates tampering, corruption or the use of a wrong key.
+ */
+export class DecryptionError extends Error {
+  constructor(message: string, public readonly cause?: unknown) {
+    super(message);
+    this.name = 'DecryptionError';
+  }
+}
+
+let cryptoPromise: Promise<Crypto | null> | null = null;
+
+/**
+ * Resolve a WebCrypto implementation.
+ * Prefers globalThis.crypto and falls back to the Node.js webcrypto module (Node 18).
+ */
+export function resolveWebCrypto(): Promise<Crypto | null> {
+  if (!cryptoPromise) {
+    cryptoPromise = (async () => {
+      const globalCrypto = (globalThis as { crypto?: Crypto }).crypto;
+      if (globalCrypto && globalCrypto.subtle) {
+        return globalCrypto;
+      }
+
+      if (typeof window === 'undefined') {
+        try {
+          const nodeCrypto = await import('crypto');
+          const webcrypto = (nodeCrypto as unknown as { webcrypto?: Crypto }).webcrypto;
+          if (webcrypto && webcrypto.subtle) {
+            return webcrypto;
+          }
+        } catch {
+          // Not a Node.js environment
+        }
+      }
+
+      return null;
+    })();
+  }
+  return cryptoPromise;
+}
+
+export async function requireWebCrypto(): Promise<Crypto> {
+  const webCrypto = await resolveWebCrypto();
+  if (!webCrypto) {
+    throw new EncryptionError('WebCrypto is not available in this environment.');
+  }
+  return webCrypto;
+}
+
+export function bytesToBase64(bytes: Uint8Array): string {
+  let binary = '';
+  const chunkSize = 0x8000;
+  for (let offset = 0; offset < bytes.length; offset += chunkSize) {
+    binary += String.fromCharCode(...Array.from(bytes.subarray(offset, offset + chunkSize)));
+  }
+  return btoa(binary);
+}
+
+export function base64ToBytes(value: string) {
+  const binary = atob(value);
+  const bytes = new Uint8Array(binary.length);
+  for (let index = 0; index < binary.length; index++) {
+    bytes[index] = binary.charCodeAt(index);
+  }
+  return bytes;
+}
+
+/**
+ * Generate a new extractable AES-GCM 256-bit key.
+ * Resolves to null when WebCrypto is not available.
+ */
+export async function generateEncryptionKey(): Promise<CryptoKey | null> {
+  const webCrypto = await resolveWebCrypto();
+  if (!webCrypto) {
+    console.warn('WebCrypto not available, data will be stored unencrypted');
+    return null;
+  }
+
+  return webCrypto.subtle.generateKey(
+    {
+      name: 'AES-GCM',
+      length: 256
+    },
+    true,
+    ['encrypt', 'decrypt']
+  );
+}
+
+/**
+ * Check whether a value is a serialised encryption envelope.
+ */
+export function isEncryptedEnvelope(value: unknown): value is string {
+  return typeof value === 'string' && value.startsWith(ENCRYPTION_ENVELOPE_PREFIX);
+}
+
+export function parseEnvelope(value: string): EncryptedEnvelope {
+  let envelope: EncryptedEnvelope;
+  try {
+    envelope = JSON.parse(value.substring(ENCRYPTION_ENVELOPE_PREFIX.length));
+  } catch (error) {
+    throw new DecryptionError('Encrypted envelope is malformed', error);
+  }
+
+  if (!envelope || typeof envelope !== 'object' || typeof envelope.iv !== 'string' || typeof envelope.ct !== 'string') {
+    throw new DecryptionError('Encrypted envelope is missing required fields');
+  }
+  if (envelope.v !== ENCRYPTION_ENVELOPE_VERSION && envelope.v !== UNBOUND_ENVELOPE_VERSION) {
+    throw new DecryptionError(`Unsupported encrypted envelope version: ${envelope.v}`);
+  }
+  if (envelope.alg !== 'AES-GCM') {
+    throw new DecryptionError(`Unsupported encryption algorithm: ${envelope.alg}`);
+  }
+  return envelope;
+}
+
+/**
+ * Read the key ID recorded in an envelope without decrypting it.
+ */
+export function getEnvelopeKeyId(value: unknown): string | undefined {
+  if (!isEncryptedEnvelope(value)) return undefined;
+  return parseEnvelope(value).kid;
+}
+
+function gcmParameters(iv: Uint8Array<ArrayBuffer>, additionalData?: string): AesGcmParams {
+  return additionalData === undefined
+    ? { name: 'AES-GCM', iv }
+    : { name: 'AES-GCM', iv, additionalData: new TextEncoder().encode(additionalData) };
+}
+
+/**
+ * Encrypt a JSON-serialisable value with AES-GCM using a random IV.
+ * With additionalData the envelope only decrypts with the same additional data.
+ */
+export async function encryptValue(data: any, key: CryptoKey, keyId?: string, additionalData?: string): Promise<string> {
+  const webCrypto = await requireWebCrypto();
+  const iv = webCrypto.getRandomValues(new Uint8Array(IV_LENGTH));
+  const plaintext = new TextEncoder().encode(JSON.stringify(data));
+
+  let ciphertext: ArrayBuffer;
+  try {
+    ciphertext = await webCrypto.subtle.encrypt(gcmParameters(iv, additionalData), key, plaintext);
+  } catch (error) {
+    throw new EncryptionError('Failed to encrypt value', error);
+  }
+
+  const envelope: EncryptedEnvelope = {
+    v: additionalData === undefined ? UNBOUND_ENVELOPE_VERSION : ENCRYPTION_ENVELOPE_VERSION,
+    alg: 'AES-GCM',
+    iv: bytesToBase64(iv),
+    ct: bytesToBase64(new Uint8Array(ciphertext)),
+    ...(keyId ? { kid: keyId } : {})
+  };
+
+  return ENCRYPTION_ENVELOPE_PREFIX + JSON.stringify(envelope);
+}
+
+/**
+ * Decrypt an envelope produced by encryptValue. Bound envelopes need the additional data they were
+ * encrypted with; unbound (version 1) envelopes ignore it.
+ * @throws DecryptionError when the value is not an envelope or authentication fails
+ */
+export async function decryptValue(value: any, key: CryptoKey, additionalData?: string): Promise<any> {
+  if (!isEncryptedEnvelope(value)) {
+    throw new DecryptionError('Value is not an encrypted envelope');
+  }
+
+  const envelope = parseEnvelope(value);
+  const bound = envelope.v !== UNBOUND_ENVELOPE_VERSION;
+  if (bound && additionalData === undefined) {
+    throw new DecryptionError('Encrypted value is bound to a record, but no record was given');
+  }
+  const webCrypto = await requireWebCrypto();
+
+  let plaintext: ArrayBuffer;
+  try {
+    plaintext = await webCrypto.subtle.decrypt(
+      gcmParameters(new Uint8Array(base64ToBytes(envelope.iv)), bound ? additionalData : undefined),
+      key,
+      base64ToBytes(envelope.ct)
+    );
+  } catch (error) {
+    throw new DecryptionError('Encrypted value failed authentication; it was tampered with or the key is wrong', error);
+  }
+
+  return JSON.parse(new TextDecoder().decode(plaintext));
+}
+
+/**
+ * Whether an envelope is bound to additional authenticated data.
+ */
+export function isBoundEnvelope(value: string): boolean {
+  return parseEnvelope(value).v !== UNBOUND_ENVELOPE_VERSION;
+}
+
+/**
+ * Read a value written by 0.1.0, which only prefixed the JSON with "encrypted:" and protected nothing.
+ * Values without the prefix are returned unchanged. Only for explicit migrations of 0.1.0 records.
+ */
+export function decodeLegacyValue(value: any): any {
+  if (typeof value !== 'string' || !value.startsWith(LEGACY_ENVELOPE_PREFIX)) return value;
+  try {
+    return JSON.parse(value.substring(LEGACY_ENVELOPE_PREFIX.length));
+  } catch (error) {
+    throw new DecryptionError('Legacy value is malformed', error);
+  }
+}
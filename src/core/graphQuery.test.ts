@@ -0,0 +1,106 @@
+/*
+ * Copyright 2025 SmartClone Contributors
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+import { KnowledgeGraph, isGraphData, mergeGraphRecords } from './graphQuery';
+
+function sampleGraph() {
+  return new KnowledgeGraph(
+    [
+      { id: 'alice', kind: 'person' },
+      { id: 'bob', kind: 'person' },
+      { id: 'carol', kind: 'person' },
+      { id: 'acme', kind: 'company' }
+    ],
+    [
+      { source: 'alice', target: 'bob', type: 'knows', weight: 5 },
+      { source: 'alice', target: 'carol', type: 'knows', weight: 1 },
+      { source: 'carol', target: 'bob', type: 'knows', weight: 1 },
+      { source: 'bob', target: 'acme', type: 'worksAt' }
+    ]
+  );
+}
+
+describe('KnowledgeGraph', () => {
+  it('returns neighbours in the requested direction', () => {
+    const graph = sampleGraph();
+    expect(graph.neighbors('alice').map(node => node.id)).toEqual(['bob', 'carol']);
+    expect(graph.neighbors('bob', { direction: 'in' }).map(node => node.id)).toEqual(['alice', 'carol']);
+    expect(graph.neighbors('bob', { direction: 'both' }).map(node => node.id)).toEqual(['acme', 'alice', 'carol']);
+    expect(graph.neighbors('unknown')).toEqual([]);
+  });
+
+  it('reports each node once at its smallest depth during traversal', () => {
+    const results = sampleGraph().traverse('alice', { depth: 2 });
+    expect(results.map(result => [result.node.id, result.depth])).toEqual([
+      ['alice', 0],
+      ['bob', 1],
+      ['carol', 1],
+      ['acme', 2]
+    ]);
+    expect(results[3].path).toEqual(['alice', 'bob', 'acme']);
+  });
+
+  it('applies node and edge filters during traversal', () => {
+    const graph = sampleGraph();
+    expect(graph.traverse('alice', { depth: 3, nodeFilter: { kind: 'person' } }).map(result => result.node.id))
+      .toEqual(['alice', 'bob', 'carol']);
+    expect(graph.traverse('alice', { depth: 3, edgeFilter: { type: 'knows' } }).map(result => result.node.id))
+      .not.toContain('acme');
+  });
+
+  it('finds shortest paths by hop count or by weight', () => {
+    const graph = sampleGraph();
+    const hops = graph.shortestPath('alice', 'bob')!;
+    expect(hops.nodes.map(node => node.id)).toEqual(['alice', 'bob']);
+    expect(hops.cost).toBe(1);
+
+    const weighted = graph.shortestPath('alice', 'bob', { weighted: true })!;
+    expect(weighted.nodes.map(node => node.id)).toEqual(['alice', 'carol', 'bob']);
+    expect(weighted.edges).toHaveLength(2);
+    expect(weighted.cost).toBe(2);
+
+    expect(graph.shortestPath('acme', 'alice')).toBeNull();
+    expect(graph.shortestPath('acme', 'alice', { direction: 'both' })!.cost).toBe(2);
+  });
+
+  it('builds induced subgraphs and filters nodes and edges', () => {
+    const graph = sampleGraph();
+    expect(graph.filterNodes({ kind: 'company' }).map(node => node.id)).toEqual(['acme']);
+    expect(graph.filterEdges({ type: 'worksAt' })).toHaveLength(1);
+
+    const people = graph.subgraph(['alice', 'bob', 'carol']);
+    expect(people.nodes).toHaveLength(3);
+    expect(people.edges).toHaveLength(3);
+  });
+});
+
+describe('mergeGraphRecords', () => {
+  it('merges records in timestamp order and accepts from/to edges', () => {
+    const graph = mergeGraphRecords([
+      { id: 'graph_2', timestamp: 2, data: { nodes: [{ id: 'alice', role: 'admin' }], edges: [{ from: 'alice', to: 'bob' }] } },
+      { id: 'graph_1', timestamp: 1, data: { nodes: [{ id: 'alice', role: 'user', team: 'core' }, 'bob'], edges: [] } }
+    ]);
+
+    expect(graph.getNode('alice')).toEqual({ id: 'alice', role: 'admin', team: 'core' });
+    expect(graph.neighbors('alice').map(node => node.id)).toEqual(['bob']);
+    expect(graph.getNodeRecords('alice').sort()).toEqual(['graph_1', 'graph_2']);
+  });
+
+  it('recognises graph data', () => {
+    expect(isGraphData({ nodes: [], edges: [] })).toBe(true);
+    expect(isGraphData({ nodes: [] })).toBe(false);
+    expect(isGraphData(null)).toBe(false);
+  });
+});
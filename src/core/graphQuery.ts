@@ -0,0 +1,322 @@
+/*
+ * Copyright 2025 SmartClone Contributors
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+/**
+ * Graph queries over the graph store.
+ * Stored {nodes, edges} records are merged into one logical knowledge graph.
+ */
+
+import { matchesMetadataFilter, type MetadataFilter } from './vectorSearch';
+
+export interface GraphNode {
+  id: string;
+  [property: string]: any;
+}
+
+/**
+ * Edge between two nodes. Records may use either source/target or from/to.
+ */
+export interface GraphEdge {
+  id?: string;
+  source: string;
+  target: string;
+  type?: string;
+  weight?: number;
+  [property: string]: any;
+}
+
+/**
+ * Stored graph record as accepted by mergeGraphRecords.
+ */
+export interface GraphRecord {
+  id: string;
+  data: {
+    nodes: Array<GraphNode | string>;
+    edges: Array<Partial<GraphEdge> & { from?: string; to?: string }>;
+  };
+  timestamp?: number;
+}
+
+export type GraphDirection = 'out' | 'in' | 'both';
+
+export interface TraversalOptions {
+  /** Maximum number of hops. Defaults to 1. */
+  depth?: number;
+  direction?: GraphDirection;
+  /** Only nodes matching this filter are visited. The start node is always included. */
+  nodeFilter?: MetadataFilter;
+  /** Only edges matching this filter are followed. */
+  edgeFilter?: MetadataFilter;
+}
+
+export interface TraversalResult {
+  node: GraphNode;
+  depth: number;
+  /** Node IDs from the start node to this node. */
+  path: string[];
+}
+
+export interface ShortestPathOptions {
+  direction?: GraphDirection;
+  edgeFilter?: MetadataFilter;
+  /** Use edge weights as costs (default 1 per edge). */
+  weighted?: boolean;
+}
+
+export interface GraphPath {
+  nodes: GraphNode[];
+  edges: GraphEdge[];
+  cost: number;
+}
+
+function normaliseEdge(edge: Partial<GraphEdge> & { from?: string; to?: string }): GraphEdge | null {
+  const source = edge.source ?? edge.from;
+  const target = edge.target ?? edge.to;
+  if (source === undefined || target === undefined) return null;
+  const { from, to, ...rest } = edge;
+  return { ...rest, source: String(source), target: String(target) };
+}
+
+function edgeKey(edge: GraphEdge) {
+  return edge.id ?? `${edge.source}->${edge.target}:${edge.type ?? ''}`;
+}
+
+/**
+ * In-memory knowledge graph with adjacency lists for traversal queries.
+ */
+export class KnowledgeGraph {
+  private nodeMap: Map<string, GraphNode> = new Map();
+  private edgeMap: Map<string, GraphEdge> = new Map();
+  private outgoing: Map<string, GraphEdge[]> = new Map();
+  private incoming: Map<string, GraphEdge[]> = new Map();
+  private nodeRecords: Map<string, Set<string>> = new Map();
+
+  constructor(nodes: GraphNode[] = [], edges: GraphEdge[] = []) {
+    nodes.forEach(node => this.addNode(node));
+    edges.forEach(edge => this.addEdge(edge));
+  }
+
+  get nodes(): GraphNode[] {
+    return Array.from(this.nodeMap.values());
+  }
+
+  get edges(): GraphEdge[] {
+    return Array.from(this.edgeMap.values());
+  }
+
+  /**
+   * Add a node, shallow-merging its properties into an existing node with the same ID.
+   */
+  addNode(node: GraphNode, recordId?: string) {
+    const existing = this.nodeMap.get(node.id);
+    this.nodeMap.set(node.id, existing ? { ...existing, ...node } : { ...node });
+    if (recordId) {
+      const records = this.nodeRecords.get(node.id) ?? new Set<string>();
+      records.add(recordId);
+      this.nodeRecords.set(node.id, records);
+    }
+  }
+
+  /**
+   * Add an edge. Endpoints that are not known yet are created as bare nodes.
+   */
+  addEdge(edge: GraphEdge, recordId?: string) {
+    for (const endpoint of [edge.source, edge.target]) {
+      if (!this.nodeMap.has(endpoint)) {
+        this.addNode({ id: endpoint }, recordId);
+      }
+    }
+
+    const key = edgeKey(edge);
+    const existing = this.edgeMap.get(key);
+    if (existing) {
+      Object.assign(existing, edge);
+      return;
+    }
+
+    const stored = { ...edge };
+    this.edgeMap.set(key, stored);
+    this.outgoing.set(edge.source, [...(this.outgoing.get(edge.source) ?? []), stored]);
+    this.incoming.set(edge.target, [...(this.incoming.get(edge.target) ?? []), stored]);
+  }
+
+  getNode(id: string): GraphNode | undefined {
+    return this.nodeMap.get(id);
+  }
+
+  /**
+   * IDs of the stored graph records a node was contributed by.
+   */
+  getNodeRecords(id: string): string[] {
+    return Array.from(this.nodeRecords.get(id) ?? []);
+  }
+
+  private adjacent(nodeId: string, direction: GraphDirection, edgeFilter?: MetadataFilter) {
+    const hops: Array<{ edge: GraphEdge; neighborId: string }> = [];
+    if (direction === 'out' || direction === 'both') {
+      for (const edge of this.outgoing.get(nodeId) ?? []) {
+        if (matchesMetadataFilter(edge, edgeFilter)) hops.push({ edge, neighborId: edge.target });
+      }
+    }
+    if (direction === 'in' || direction === 'both') {
+      for (const edge of this.incoming.get(nodeId) ?? []) {
+        if (matchesMetadataFilter(edge, edgeFilter)) hops.push({ edge, neighborId: edge.source });
+      }
+    }
+    return hops;
+  }
+
+  /**
+   * Direct neighbours of a node.
+   */
+  neighbors(nodeId: string, options: Omit<TraversalOptions, 'depth'> = {}): GraphNode[] {
+    return this.traverse(nodeId, { ...options, depth: 1 })
+      .filter(result => result.depth === 1)
+      .map(result => result.node);
+  }
+
+  /**
+   * Breadth-first k-hop traversal. Each reachable node is reported once, at its smallest depth.
+   */
+  traverse(startId: string, options: TraversalOptions = {}): TraversalResult[] {
+    const { depth = 1, direction = 'out', nodeFilter, edgeFilter } = options;
+    const start = this.nodeMap.get(startId);
+    if (!start) return [];
+
+    const results: TraversalResult[] = [{ node: start, depth: 0, path: [startId] }];
+    const visited = new Set([startId]);
+    let frontier = results;
+
+    for (let level = 1; level <= depth && frontier.length; level++) {
+      const next: TraversalResult[] = [];
+      for (const current of frontier) {
+        for (const { neighborId } of this.adjacent(current.node.id, direction, edgeFilter)) {
+          if (visited.has(neighborId)) continue;
+          const neighbor = this.nodeMap.get(neighborId);
+          if (!neighbor || !matchesMetadataFilter(neighbor, nodeFilter)) continue;
+          visited.add(neighborId);
+          next.push({ node: neighbor, depth: level, path: [...current.path, neighborId] });
+        }
+      }
+      results.push(...next);
+      frontier = next;
+    }
+
+    return results;
+  }
+
+  /**
+   * Shortest path between two nodes (Dijkstra). Resolves to null when they are not connected.
+   */
+  shortestPath(fromId: string, toId: string, options: ShortestPathOptions = {}): GraphPath | null {
+    const { direction = 'out', edgeFilter, weighted = false } = options;
+    if (!this.nodeMap.has(fromId) || !this.nodeMap.has(toId)) return null;
+
+    const costs = new Map<string, number>([[fromId, 0]]);
+    const previous = new Map<string, { nodeId: string; edge: GraphEdge }>();
+    const settled = new Set<string>();
+    const queue = new Set([fromId]);
+
+    while (queue.size) {
+      let currentId = '';
+      let currentCost = Infinity;
+      for (const candidate of queue) {
+        const cost = costs.get(candidate) as number;
+        if (cost < currentCost) {
+          currentCost = cost;
+          currentId = candidate;
+        }
+      }
+      queue.delete(currentId);
+      if (currentId === toId) break;
+      settled.add(currentId);
+
+      for (const { edge, neighborId } of this.adjacent(currentId, direction, edgeFilter)) {
+        if (settled.has(neighborId)) continue;
+        const weight = weighted ? Math.max(0, edge.weight ?? 1) : 1;
+        const cost = currentCost + weight;
+        if (cost < (costs.get(neighborId) ?? Infinity)) {
+          costs.set(neighborId, cost);
+          previous.set(neighborId, { nodeId: currentId, edge });
+          queue.add(neighborId);
+        }
+      }
+    }
+
+    if (!costs.has(toId)) return null;
+
+    const nodes: GraphNode[] = [];
+    const edges: GraphEdge[] = [];
+    let cursor: string | undefined = toId;
+    while (cursor !== undefined) {
+      nodes.unshift(this.nodeMap.get(cursor) as GraphNode);
+      const step = previous.get(cursor);
+      if (step) edges.unshift(step.edge);
+      cursor = step?.nodeId;
+    }
+
+    return { nodes, edges, cost: costs.get(toId) as number };
+  }
+
+  filterNodes(filter: MetadataFilter): GraphNode[] {
+    return this.nodes.filter(node => matchesMetadataFilter(node, filter));
+  }
+
+  filterEdges(filter: MetadataFilter): GraphEdge[] {
+    return this.edges.filter(edge => matchesMetadataFilter(edge, filter));
+  }
+
+  /**
+   * Induced subgraph over the given node IDs.
+   */
+  subgraph(nodeIds: Iterable<string>): KnowledgeGraph {
+    const ids = new Set(nodeIds);
+    return new KnowledgeGraph(
+      this.nodes.filter(node => ids.has(node.id)),
+      this.edges.filter(edge => ids.has(edge.source) && ids.has(edge.target))
+    );
+  }
+
+  toJSON(): { nodes: GraphNode[]; edges: GraphEdge[] } {
+    return { nodes: this.nodes, edges: this.edges };
+  }
+}
+
+/**
+ * Merge stored graph records into one knowledge graph. Later records win property conflicts.
+ */
+export function mergeGraphRecords(records: Iterable<GraphRecord>): KnowledgeGraph {
+  const graph = new KnowledgeGraph();
+  const ordered = Array.from(records).sort((a, b) => (a.timestamp ?? 0) - (b.timestamp ?? 0));
+
+  for (const record of ordered) {
+    for (const node of record.data.nodes ?? []) {
+      graph.addNode(typeof node === 'string' ? { id: node } : { ...node, id: String(node.id) }, record.id);
+    }
+    for (const rawEdge of record.data.edges ?? []) {
+      const edge = normaliseEdge(rawEdge);
+      if (edge) graph.addEdge(edge, record.id);
+    }
+  }
+
+  return graph;
+}
+
+export function isGraphData(data: unknown): data is GraphRecord['data'] {
+  return !!data && typeof data === 'object'
+    && Array.isArray((data as GraphRecord['data']).nodes)
+    && Array.isArray((data as GraphRecord['data']).edges);
+}
@@ -0,0 +1,121 @@
+/*
+ * Copyright 2025 SmartClone Contributors
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+import { HNSWIndex, addRecordVectors, searchRecordsWithIndex } from './hnswIndex';
+import { bruteForceSearch, type VectorSearchEntry } from './vectorSearch';
+
+/**
+ * Deterministic pseudo-random vectors (mulberry32), so recall does not vary between runs.
+ */
+function randomVectors(count: number, dimensions: number, seed = 42): number[][] {
+  let state = seed;
+  const next = () => {
+    state = (state + 0x6d2b79f5) | 0;
+    let t = Math.imul(state ^ (state >>> 15), 1 | state);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296 - 0.5;
+  };
+  return Array.from({ length: count }, () => Array.from({ length: dimensions }, next));
+}
+
+function recallAt(k: number, index: HNSWIndex, data: number[][], queries: number[][]) {
+  const entries: VectorSearchEntry[] = data.map((vector, position) => ({ id: String(position), vectors: [vector], metadata: {}, timestamp: 0 }));
+  let hits = 0;
+  for (const query of queries) {
+    const exact = new Set(bruteForceSearch(entries, query, { k, metric: index.metric }).map(result => result.id));
+    hits += index.search(query, k).filter(result => exact.has(result.key)).length;
+  }
+  return hits / (k * queries.length);
+}
+
+describe('HNSWIndex', () => {
+  const data = randomVectors(600, 16);
+  const queries = randomVectors(20, 16, 7);
+
+  it.each(['cosine', 'euclidean', 'dot'] as const)('finds the exact neighbours with high recall (%s)', metric => {
+    const index = new HNSWIndex({ metric, M: 12, efConstruction: 100, efSearch: 64 });
+    data.forEach((vector, position) => index.add(String(position), vector));
+
+    expect(index.size).toBe(600);
+    expect(recallAt(10, index, data, queries)).toBeGreaterThanOrEqual(0.9);
+  });
+
+  it('scores on the same scale as the brute-force search', () => {
+    const index = new HNSWIndex({ metric: 'euclidean' });
+    index.add('origin', [0, 0]);
+    index.add('far', [3, 4]);
+
+    expect(index.search([0, 0], 2)).toEqual([{ key: 'origin', score: 1 }, { key: 'far', score: 1 / 6 }]);
+  });
+
+  it('keeps searching correctly after removals, including of the entry point', () => {
+    const index = new HNSWIndex({ M: 8 });
+    data.slice(0, 200).forEach((vector, position) => index.add(String(position), vector));
+
+    for (let position = 0; position < 100; position++) {
+      expect(index.remove(String(position))).toBe(true);
+    }
+    expect(index.remove('missing')).toBe(false);
+    expect(index.size).toBe(100);
+    const [nearest] = index.search(data[150], 1);
+    expect(nearest.key).toBe('150');
+    expect(index.search(data[0], 100).every(result => Number(result.key) >= 100)).toBe(true);
+  });
+
+  it('serialises to JSON and restores an index returning the same results', () => {
+    const index = new HNSWIndex({ metric: 'euclidean', M: 8, efSearch: 32 });
+    data.slice(0, 300).forEach((vector, position) => index.add(String(position), vector));
+
+    const restored = HNSWIndex.fromJSON(JSON.parse(JSON.stringify(index.toJSON())), { efSearch: 40 });
+    expect(restored.efSearch).toBe(40);
+    expect(restored.search(queries[0], 5, 32)).toEqual(index.search(queries[0], 5, 32));
+    expect(() => HNSWIndex.fromJSON({ ...index.toJSON(), v: 2 as 1 })).toThrow('Unsupported HNSW index snapshot version: 2');
+  });
+
+  it('rejects vectors and queries of a different length', () => {
+    const index = new HNSWIndex();
+    expect(index.dimensions).toBeNull();
+    index.add('a', [1, 0]);
+
+    expect(index.dimensions).toBe(2);
+    expect(() => index.add('b', [1, 0, 0])).toThrow('Vector has 3 dimensions, but the index holds 2');
+    expect(() => index.search([1, 0, 0], 1)).toThrow('Vector has 3 dimensions');
+    index.add('a', [1, 0, 0]);
+    expect(index.dimensions).toBe(3);
+  });
+});
+
+describe('searchRecordsWithIndex', () => {
+  const entries = new Map<string, VectorSearchEntry>([
+    ['a', { id: 'a', vectors: [[1, 0], [0, 1]], metadata: { tag: 'x' }, timestamp: 1 }],
+    ['b', { id: 'b', vectors: [[0.9, 0.1]], metadata: { tag: 'y' }, timestamp: 2 }],
+    ['c', { id: 'c', vectors: [[-1, 0]], metadata: { tag: 'y' }, timestamp: 3 }]
+  ]);
+  const index = new HNSWIndex();
+  entries.forEach(entry => addRecordVectors(index, entry));
+
+  it('returns each record once, scored by its best vector', () => {
+    const results = searchRecordsWithIndex(index, entries, [0, 1], { k: 3 });
+
+    expect(results.map(result => result.id)).toEqual(['a', 'b', 'c']);
+    expect(results[0].score).toBeCloseTo(1);
+  });
+
+  it('applies filters and falls back to an exact scan for other metrics', () => {
+    expect(searchRecordsWithIndex(index, entries, [1, 0], { k: 1, filter: { tag: 'y' } }).map(result => result.id)).toEqual(['b']);
+    expect(searchRecordsWithIndex(index, entries, [1, 0], { k: 1, metric: 'dot' }))
+      .toEqual(bruteForceSearch(entries.values(), [1, 0], { k: 1, metric: 'dot' }));
+  });
+});
@@ -0,0 +1,526 @@
+/*
+ * Copyright 2025 SmartClone Contributors
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+/**
+ * Hierarchical Navigable Small World (HNSW) index for approximate nearest neighbour search.
+ * Based on Malkov & Yashunin, "Efficient and robust approximate nearest neighbor search
+ * using Hierarchical Navigable Small World graphs" (2016).
+ */
+
+import {
+  bruteForceSearch,
+  dotProduct,
+  euclideanDistance,
+  matchesMetadataFilter,
+  type SimilarityMetric,
+  type VectorSearchEntry,
+  type VectorSearchOptions,
+  type VectorSearchResult
+} from './vectorSearch';
+
+export interface HNSWOptions {
+  /** Maximum connections per node on upper layers (layer 0 allows 2 * M). Defaults to 16. */
+  M?: number;
+  /** Candidate list size while inserting. Defaults to 200. */
+  efConstruction?: number;
+  /** Candidate list size while searching. Defaults to 50. */
+  efSearch?: number;
+  metric?: SimilarityMetric;
+}
+
+/**
+ * Vector index configuration for hybrid storage.
+ */
+export interface VectorIndexOptions extends HNSWOptions {
+  /**
+   * "flat" scans every vector (exact), "hnsw" maintains an approximate index. Defaults to "hnsw".
+   */
+  type?: 'flat' | 'hnsw';
+}
+
+export interface HNSWSearchResult {
+  key: string;
+  /** Similarity score on the same scale as bruteForceSearch. */
+  score: number;
+}
+
+/**
+ * Serialisable snapshot of an HNSW index.
+ */
+export interface SerializedHNSWIndex {
+  v: 1;
+  metric: SimilarityMetric;
+  M: number;
+  efConstruction: number;
+  efSearch: number;
+  entryPoint: string | null;
+  maxLevel: number;
+  nodes: Array<{
+    key: string;
+    vector: number[];
+    level: number;
+    neighbors: string[][];
+  }>;
+}
+
+interface HNSWNode {
+  key: string;
+  vector: Float64Array;
+  level: number;
+  /** Neighbour keys per layer, index 0 being the bottom layer. */
+  neighbors: Array<Set<string>>;
+}
+
+type Candidate = { key: string; distance: number };
+
+/**
+ * Minimal binary heap ordered by a comparator (smallest first).
+ */
+class BinaryHeap<T> {
+  private items: T[] = [];
+
+  constructor(private readonly compare: (a: T, b: T) => number) {}
+
+  get size() {
+    return this.items.length;
+  }
+
+  peek(): T | undefined {
+    return this.items[0];
+  }
+
+  push(item: T) {
+    const items = this.items;
+    items.push(item);
+    let index = items.length - 1;
+    while (index > 0) {
+      const parent = (index - 1) >> 1;
+      if (this.compare(items[index], items[parent]) >= 0) break;
+      [items[index], items[parent]] = [items[parent], items[index]];
+      index = parent;
+    }
+  }
+
+  pop(): T | undefined {
+    const items = this.items;
+    if (!items.length) return undefined;
+    const top = items[0];
+    const last = items.pop() as T;
+    if (items.length) {
+      items[0] = last;
+      let index = 0;
+      for (;;) {
+        const left = index * 2 + 1;
+        const right = left + 1;
+        let smallest = index;
+        if (left < items.length && this.compare(items[left], items[smallest]) < 0) smallest = left;
+        if (right < items.length && this.compare(items[right], items[smallest]) < 0) smallest = right;
+        if (smallest === index) break;
+        [items[index], items[smallest]] = [items[smallest], items[index]];
+        index = smallest;
+      }
+    }
+    return top;
+  }
+
+  toArray(): T[] {
+    return [...this.items];
+  }
+}
+
+/**
+ * Approximate nearest neighbour index kept up to date through add/remove.
+ */
+export class HNSWIndex {
+  readonly metric: SimilarityMetric;
+  readonly M: number;
+  readonly efConstruction: number;
+  efSearch: number;
+
+  private nodes: Map<string, HNSWNode> = new Map();
+  private entryPoint: string | null = null;
+  private maxLevel = -1;
+  private readonly levelMultiplier: number;
+
+  constructor(options: HNSWOptions = {}) {
+    this.metric = options.metric ?? 'cosine';
+    this.M = Math.max(2, options.M ?? 16);
+    this.efConstruction = Math.max(this.M, options.efConstruction ?? 200);
+    this.efSearch = options.efSearch ?? 50;
+    this.levelMultiplier = 1 / Math.log(this.M);
+  }
+
+  get size(): number {
+    return this.nodes.size;
+  }
+
+  has(key: string): boolean {
+    return this.nodes.has(key);
+  }
+
+  keys(): IterableIterator<string> {
+    return this.nodes.keys();
+  }
+
+  /**
+   * Length of the indexed vectors, or null while the index is empty.
+   */
+  get dimensions(): number | null {
+    return this.entryPoint === null ? null : (this.nodes.get(this.entryPoint) as HNSWNode).vector.length;
+  }
+
+  private assertDimensions(vector: ArrayLike<number>) {
+    const dimensions = this.dimensions;
+    if (dimensions !== null && vector.length !== dimensions) {
+      throw new Error(`Vector has ${vector.length} dimensions, but the index holds ${dimensions}`);
+    }
+  }
+
+  /**
+   * Stored vector for a key. Vectors of cosine indexes are returned normalised.
+   */
+  getVector(key: string): number[] | undefined {
+    const node = this.nodes.get(key);
+    return node ? Array.from(node.vector) : undefined;
+  }
+
+  /**
+   * Distance used for graph navigation; lower is closer.
+   * Cosine vectors are normalised on the way in, so their distance reduces to a dot product.
+   */
+  private distance(a: ArrayLike<number>, b: ArrayLike<number>): number {
+    switch (this.metric) {
+      case 'dot':
+        return -dotProduct(a, b);
+      case 'euclidean':
+        return euclideanDistance(a, b);
+      case 'cosine':
+      default:
+        return 1 - dotProduct(a, b);
+    }
+  }
+
+  private prepare(vector: ArrayLike<number>): Float64Array {
+    const prepared = Float64Array.from(vector);
+    if (this.metric !== 'cosine') return prepared;
+    const norm = Math.sqrt(dotProduct(prepared, prepared));
+    if (norm > 0) {
+      for (let index = 0; index < prepared.length; index++) {
+        prepared[index] /= norm;
+      }
+    }
+    return prepared;
+  }
+
+  private toScore(distance: number): number {
+    switch (this.metric) {
+      case 'dot':
+        return -distance;
+      case 'euclidean':
+        return 1 / (1 + distance);
+      case 'cosine':
+      default:
+        return 1 - distance;
+    }
+  }
+
+  private maxConnections(layer: number) {
+    return layer === 0 ? this.M * 2 : this.M;
+  }
+
+  private randomLevel(): number {
+    return Math.floor(-Math.log(Math.random() || Number.MIN_VALUE) * this.levelMultiplier);
+  }
+
+  private searchLayer(query: ArrayLike<number>, entryPoints: Candidate[], ef: number, layer: number): Candidate[] {
+    const visited = new Set(entryPoints.map(candidate => candidate.key));
+    const candidates = new BinaryHeap<Candidate>((a, b) => a.distance - b.distance);
+    const results = new BinaryHeap<Candidate>((a, b) => b.distance - a.distance);
+
+    for (const entry of entryPoints) {
+      candidates.push(entry);
+      results.push(entry);
+    }
+
+    while (candidates.size) {
+      const current = candidates.pop() as Candidate;
+      const furthest = results.peek() as Candidate;
+      if (current.distance > furthest.distance && results.size >= ef) break;
+
+      const node = this.nodes.get(current.key);
+      const neighbors = node?.neighbors[layer];
+      if (!neighbors) continue;
+
+      for (const neighborKey of neighbors) {
+        if (visited.has(neighborKey)) continue;
+        visited.add(neighborKey);
+        const neighbor = this.nodes.get(neighborKey);
+        if (!neighbor) continue;
+
+        const distance = this.distance(query, neighbor.vector);
+        if (results.size < ef || distance < (results.peek() as Candidate).distance) {
+          candidates.push({ key: neighborKey, distance });
+          results.push({ key: neighborKey, distance });
+          if (results.size > ef) results.pop();
+        }
+      }
+    }
+
+    return results.toArray().sort((a, b) => a.distance - b.distance);
+  }
+
+  private connect(node: HNSWNode, candidates: Candidate[], layer: number) {
+    const selected = candidates.filter(candidate => candidate.key !== node.key).slice(0, this.M);
+    for (const candidate of selected) {
+      node.neighbors[layer].add(candidate.key);
+      const neighbor = this.nodes.get(candidate.key);
+      if (!neighbor || !neighbor.neighbors[layer]) continue;
+      neighbor.neighbors[layer].add(node.key);
+      this.shrink(neighbor, layer);
+    }
+  }
+
+  private shrink(node: HNSWNode, layer: number) {
+    const limit = this.maxConnections(layer);
+    const neighbors = node.neighbors[layer];
+    if (neighbors.size <= limit) return;
+
+    const keep = Array.from(neighbors)
+      .filter(key => this.nodes.has(key))
+      .map(key => ({ key, distance: this.distance(node.vector, (this.nodes.get(key) as HNSWNode).vector) }))
+      .sort((a, b) => a.distance - b.distance)
+      .slice(0, limit);
+    node.neighbors[layer] = new Set(keep.map(candidate => candidate.key));
+  }
+
+  /**
+   * Insert or replace a vector.
+   */
+  add(key: string, vector: ArrayLike<number>, level: number = this.randomLevel()) {
+    if (this.nodes.has(key)) {
+      this.remove(key);
+    }
+    this.assertDimensions(vector);
+
+    const node: HNSWNode = {
+      key,
+      vector: this.prepare(vector),
+      level,
+      neighbors: Array.from({ length: level + 1 }, () => new Set<string>())
+    };
+    this.nodes.set(key, node);
+
+    if (this.entryPoint === null) {
+      this.entryPoint = key;
+      this.maxLevel = level;
+      return;
+    }
+
+    const entry = this.nodes.get(this.entryPoint) as HNSWNode;
+    let entryPoints: Candidate[] = [{ key: entry.key, distance: this.distance(node.vector, entry.vector) }];
+
+    for (let layer = this.maxLevel; layer > level; layer--) {
+      entryPoints = this.searchLayer(node.vector, entryPoints, 1, layer).slice(0, 1);
+    }
+
+    for (let layer = Math.min(level, this.maxLevel); layer >= 0; layer--) {
+      const candidates = this.searchLayer(node.vector, entryPoints, this.efConstruction, layer);
+      this.connect(node, candidates, layer);
+      entryPoints = candidates;
+    }
+
+    if (level > this.maxLevel) {
+      this.maxLevel = level;
+      this.entryPoint = key;
+    }
+  }
+
+  /**
+   * Remove a vector and reconnect its former neighbours.
+   */
+  remove(key: string): boolean {
+    const node = this.nodes.get(key);
+    if (!node) return false;
+    this.nodes.delete(key);
+
+    for (let layer = 0; layer <= node.level; layer++) {
+      const orphans = Array.from(node.neighbors[layer]);
+      for (const orphanKey of orphans) {
+        const orphan = this.nodes.get(orphanKey);
+        if (!orphan || !orphan.neighbors[layer]) continue;
+        orphan.neighbors[layer].delete(key);
+
+        // Repair: offer the removed node's other neighbours as replacement links
+        const replacements = orphans
+          .filter(candidateKey => candidateKey !== orphanKey && this.nodes.has(candidateKey))
+          .filter(candidateKey => (this.nodes.get(candidateKey) as HNSWNode).neighbors[layer])
+          .map(candidateKey => ({
+            key: candidateKey,
+            distance: this.distance(orphan.vector, (this.nodes.get(candidateKey) as HNSWNode).vector)
+          }))
+          .sort((a, b) => a.distance - b.distance);
+        for (const replacement of replacements) {
+          if (orphan.neighbors[layer].size >= this.maxConnections(layer)) break;
+          orphan.neighbors[layer].add(replacement.key);
+          (this.nodes.get(replacement.key) as HNSWNode).neighbors[layer].add(orphanKey);
+        }
+      }
+    }
+
+    if (this.entryPoint === key) {
+      this.entryPoint = null;
+      this.maxLevel = -1;
+      for (const candidate of this.nodes.values()) {
+        if (candidate.level > this.maxLevel) {
+          this.maxLevel = candidate.level;
+          this.entryPoint = candidate.key;
+        }
+      }
+    }
+
+    return true;
+  }
+
+  /**
+   * Approximate k nearest neighbours, most similar first.
+   */
+  search(vector: ArrayLike<number>, k: number, ef: number = this.efSearch): HNSWSearchResult[] {
+    if (this.entryPoint === null) return [];
+    this.assertDimensions(vector);
+
+    const query = this.prepare(vector);
+
+    const entry = this.nodes.get(this.entryPoint) as HNSWNode;
+    let entryPoints: Candidate[] = [{ key: entry.key, distance: this.distance(query, entry.vector) }];
+
+    for (let layer = this.maxLevel; layer > 0; layer--) {
+      entryPoints = this.searchLayer(query, entryPoints, 1, layer).slice(0, 1);
+    }
+
+    return this.searchLayer(query, entryPoints, Math.max(ef, k), 0)
+      .slice(0, k)
+      .map(candidate => ({ key: candidate.key, score: this.toScore(candidate.distance) }));
+  }
+
+  toJSON(): SerializedHNSWIndex {
+    return {
+      v: 1,
+      metric: this.metric,
+      M: this.M,
+      efConstruction: this.efConstruction,
+      efSearch: this.efSearch,
+      entryPoint: this.entryPoint,
+      maxLevel: this.maxLevel,
+      nodes: Array.from(this.nodes.values()).map(node => ({
+        key: node.key,
+        vector: Array.from(node.vector),
+        level: node.level,
+        neighbors: node.neighbors.map(neighbors => Array.from(neighbors))
+      }))
+    };
+  }
+
+  static fromJSON(snapshot: SerializedHNSWIndex, overrides: Pick<HNSWOptions, 'efSearch'> = {}): HNSWIndex {
+    if (snapshot.v !== 1) {
+      throw new Error(`Unsupported HNSW index snapshot version: ${snapshot.v}`);
+    }
+
+    const index = new HNSWIndex({
+      metric: snapshot.metric,
+      M: snapshot.M,
+      efConstruction: snapshot.efConstruction,
+      efSearch: overrides.efSearch ?? snapshot.efSearch
+    });
+    for (const node of snapshot.nodes) {
+      index.nodes.set(node.key, {
+        key: node.key,
+        vector: Float64Array.from(node.vector),
+        level: node.level,
+        neighbors: node.neighbors.map(neighbors => new Set(neighbors))
+      });
+    }
+    index.entryPoint = snapshot.entryPoint;
+    index.maxLevel = snapshot.maxLevel;
+    return index;
+  }
+}
+
+/**
+ * Key of the n-th vector of a record inside the index.
+ */
+export function recordVectorKey(recordId: string, position: number): string {
+  return `${recordId}#${position}`;
+}
+
+export function recordIdFromVectorKey(key: string): string {
+  return key.slice(0, key.lastIndexOf('#'));
+}
+
+export function addRecordVectors(index: HNSWIndex, entry: VectorSearchEntry) {
+  entry.vectors.forEach((vector, position) => index.add(recordVectorKey(entry.id, position), vector));
+}
+
+export function removeRecordVectors(index: HNSWIndex, entry: VectorSearchEntry) {
+  entry.vectors.forEach((_, position) => index.remove(recordVectorKey(entry.id, position)));
+}
+
+/**
+ * Top-k record search through an HNSW index.
+ * Falls back to an exact scan when the metric differs from the index metric
+ * or when a metadata filter leaves fewer than k approximate matches.
+ */
+export function searchRecordsWithIndex(
+  index: HNSWIndex,
+  entries: Map<string, VectorSearchEntry>,
+  query: number[],
+  options: VectorSearchOptions = {}
+): VectorSearchResult[] {
+  const { k = 10, metric = index.metric, minScore, filter } = options;
+  if (metric !== index.metric) {
+    return bruteForceSearch(entries.values(), query, options);
+  }
+
+  // Over-fetch so that records holding several vectors and filtered records do not starve the result set
+  const fetch = Math.min(index.size, filter ? k * 4 : k * 2);
+  const best = new Map<string, number>();
+  for (const match of index.search(query, fetch, Math.max(index.efSearch, fetch))) {
+    const recordId = recordIdFromVectorKey(match.key);
+    if ((best.get(recordId) ?? -Infinity) < match.score) {
+      best.set(recordId, match.score);
+    }
+  }
+
+  const results: VectorSearchResult[] = [];
+  for (const [recordId, score] of best) {
+    const entry = entries.get(recordId);
+    if (!entry || !matchesMetadataFilter(entry.metadata, filter)) continue;
+    if (minScore !== undefined && score < minScore) continue;
+    results.push({
+      id: entry.id,
+      type: 'vector',
+      score,
+      ...(metric === 'euclidean' ? { distance: 1 / score - 1 } : {}),
+      metadata: entry.metadata,
+      timestamp: entry.timestamp
+    });
+  }
+
+  if (filter && results.length < k) {
+    return bruteForceSearch(entries.values(), query, options);
+  }
+
+  return results.sort((a, b) => b.score - a.score).slice(0, k);
+}
@@ -0,0 +1,93 @@
+/*
+ * Copyright 2025 SmartClone Contributors
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+import { KnowledgeGraph } from './graphQuery';
+import { isHybridQuery, runHybridQuery, type HybridCandidate, type HybridQuerySources } from './hybridQuery';
+import { bruteForceSearch } from './vectorSearch';
+
+const candidates: HybridCandidate[] = [
+  { id: 'v1', type: 'vector', data: [[1, 0]], metadata: { lang: 'en', nodeId: 'far' }, timestamp: 1 },
+  { id: 'v2', type: 'vector', data: [[0.8, 0.6]], metadata: { lang: 'en', nodeId: 'acme' }, timestamp: 2 },
+  { id: 'v3', type: 'vector', data: [[0, 1]], metadata: { lang: 'de', nodeId: 'acme' }, timestamp: 3 },
+  { id: 'r1', type: 'relational', data: { name: 'Ada' }, metadata: { lang: 'en', nodeId: ['bob'] }, timestamp: 4 }
+];
+
+function sources(): HybridQuerySources {
+  return {
+    candidates,
+    graph: new KnowledgeGraph([], [
+      { source: 'acme', target: 'bob' },
+      { source: 'bob', target: 'carol' },
+      { source: 'carol', target: 'far' }
+    ]),
+    searchVectors: (vector, { k, metric, candidateIds }) => bruteForceSearch(
+      candidates
+        .filter(candidate => candidate.type === 'vector' && candidateIds.has(candidate.id))
+        .map(candidate => ({ id: candidate.id, vectors: candidate.data, metadata: candidate.metadata, timestamp: candidate.timestamp })),
+      vector,
+      { k, metric }
+    )
+  };
+}
+
+describe('runHybridQuery', () => {
+  it('restricts vector queries to vector records matching the filters', () => {
+    const results = runHybridQuery(sources(), { vector: [1, 0], metadata: { lang: 'en' } });
+    expect(results.map(result => result.id)).toEqual(['v1', 'v2']);
+    expect(results[0].signals.vector).toEqual({ score: expect.closeTo(1), rank: 1 });
+  });
+
+  it('fuses vector and graph rankings with reciprocal rank fusion', () => {
+    const results = runHybridQuery(sources(), { vector: [1, 0], metadata: { lang: 'en' }, graph: { node: 'acme', depth: 3 } });
+    // v2 ranks second by similarity but first by graph proximity
+    expect(results.map(result => result.id)).toEqual(['v2', 'v1']);
+    expect(results[0].signals.graph).toEqual({ score: 1, rank: 1, hops: 0 });
+    expect(results[0].score).toBeCloseTo(1 / 62 + 1 / 61);
+  });
+
+  it('supports weighted fusion of normalised scores', () => {
+    const results = runHybridQuery(sources(), {
+      vector: [1, 0],
+      metadata: { lang: 'en' },
+      graph: { node: 'acme', depth: 3 },
+      fusion: { method: 'weighted', weights: { vector: 1, graph: 0.5 } }
+    });
+    expect(results.map(result => [result.id, result.score])).toEqual([['v1', 1], ['v2', 0.5]]);
+  });
+
+  it('ranks any linked record by graph proximity without a vector', () => {
+    const results = runHybridQuery(sources(), { graph: { node: 'acme', depth: 1 } });
+    expect(results.map(result => [result.id, result.signals.graph?.hops])).toEqual([
+      ['v2', 0],
+      ['v3', 0],
+      ['r1', 1]
+    ]);
+  });
+
+  it('acts as a pure filter without ranking signals and honours limit and minScore', () => {
+    expect(runHybridQuery(sources(), { where: { name: 'Ada' } }).map(result => result.id)).toEqual(['r1']);
+    expect(runHybridQuery(sources(), { metadata: { lang: 'en' }, limit: 2 })).toHaveLength(2);
+    expect(runHybridQuery(sources(), { graph: { node: 'acme', depth: 1 }, minScore: 1 / 62 })).toHaveLength(2);
+  });
+});
+
+describe('isHybridQuery', () => {
+  it('distinguishes hybrid queries from vector and relational ones', () => {
+    expect(isHybridQuery({ graph: { node: 'a' } })).toBe(true);
+    expect(isHybridQuery({ vector: [1], metadata: {} })).toBe(true);
+    expect(isHybridQuery({ vector: [1] })).toBe(false);
+    expect(isHybridQuery({ where: {} })).toBe(false);
+  });
+});
@@ -0,0 +1,253 @@
+/*
+ * Copyright 2025 SmartClone Contributors
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+/**
+ * Hybrid queries combining vector similarity, graph proximity and relational filters.
+ * Each signal produces its own ranking; rankings are combined with a configurable score fusion.
+ */
+
+import type { GraphDirection, KnowledgeGraph } from './graphQuery';
+import type { MetadataFilter, SimilarityMetric, VectorSearchResult } from './vectorSearch';
+import { matchesWhere, type WhereClause } from './relationalQuery';
+
+export interface HybridGraphSignal {
+  /** Node (or nodes) whose neighbourhood boosts linked records. */
+  node: string | string[];
+  /** Maximum hops from the node. Defaults to 2. */
+  depth?: number;
+  direction?: GraphDirection;
+  edgeFilter?: MetadataFilter;
+  /**
+   * Metadata field linking a record to graph node IDs. Defaults to "nodeId".
+   * A record whose own ID is a node ID is always linked.
+   */
+  linkField?: string;
+}
+
+export interface ScoreFusionOptions {
+  /**
+   * "rrf" (reciprocal rank fusion, default) sums weight / (k + rank);
+   * "weighted" sums weight * min-max normalised score.
+   */
+  method?: 'rrf' | 'weighted';
+  /** RRF rank constant. Defaults to 60. */
+  k?: number;
+  /** Per-signal weights. Default 1 each. */
+  weights?: {
+    vector?: number;
+    graph?: number;
+  };
+}
+
+export interface HybridQuery {
+  /** Query vector for the similarity signal. When given, only vector records are candidates. */
+  vector?: number[];
+  metric?: SimilarityMetric;
+  /** Hard filter on record data. */
+  where?: WhereClause;
+  /** Hard filter on record metadata. */
+  metadata?: WhereClause;
+  /** Graph proximity signal. */
+  graph?: HybridGraphSignal;
+  fusion?: ScoreFusionOptions;
+  limit?: number;
+  /** Results taken from each ranked signal before fusion. Defaults to 10 x limit. */
+  window?: number;
+  /** Minimum fused score. */
+  minScore?: number;
+}
+
+export interface HybridCandidate {
+  id: string;
+  type: 'vector' | 'graph' | 'relational';
+  data: any;
+  metadata: Record<string, any>;
+  timestamp: number;
+}
+
+export interface HybridSignalScore {
+  score: number;
+  /** 1-based rank within the signal. */
+  rank: number;
+}
+
+export interface HybridQueryResult {
+  id: string;
+  type: 'vector' | 'graph' | 'relational';
+  score: number;
+  metadata: Record<string, any>;
+  timestamp: number;
+  signals: {
+    vector?: HybridSignalScore;
+    graph?: HybridSignalScore & { hops: number };
+  };
+}
+
+export interface HybridQuerySources {
+  candidates: Iterable<HybridCandidate>;
+  /** Top k vector search restricted to the given candidate IDs, best first. */
+  searchVectors: (vector: number[], options: {
+    k: number;
+    metric?: SimilarityMetric;
+    candidateIds: Set<string>;
+  }) => VectorSearchResult[];
+  graph: KnowledgeGraph | null;
+}
+
+const HYBRID_KEYS = ['graph', 'fusion'];
+
+/**
+ * Check whether a query argument is a hybrid query rather than a plain vector or relational query.
+ */
+export function isHybridQuery(query: unknown): query is HybridQuery {
+  if (!query || typeof query !== 'object' || Array.isArray(query)) return false;
+  const keys = Object.keys(query);
+  if (keys.some(key => HYBRID_KEYS.includes(key))) return true;
+  return keys.includes('vector') && (keys.includes('where') || keys.includes('metadata'));
+}
+
+function graphProximity(graph: KnowledgeGraph, signal: HybridGraphSignal): Map<string, number> {
+  const hops = new Map<string, number>();
+  const starts = Array.isArray(signal.node) ? signal.node : [signal.node];
+  for (const start of starts) {
+    const reached = graph.traverse(start, {
+      depth: signal.depth ?? 2,
+      direction: signal.direction ?? 'both',
+      edgeFilter: signal.edgeFilter
+    });
+    for (const { node, depth } of reached) {
+      hops.set(node.id, Math.min(hops.get(node.id) ?? Infinity, depth));
+    }
+  }
+  return hops;
+}
+
+function linkedHops(candidate: HybridCandidate, proximity: Map<string, number>, linkField: string): number | undefined {
+  let best = proximity.get(candidate.id);
+  const links = candidate.metadata?.[linkField];
+  for (const link of Array.isArray(links) ? links : links !== undefined ? [links] : []) {
+    const hops = proximity.get(String(link));
+    if (hops !== undefined && (best === undefined || hops < best)) best = hops;
+  }
+  return best;
+}
+
+function normalise(scores: Map<string, number>): Map<string, number> {
+  const values = Array.from(scores.values());
+  const min = Math.min(...values);
+  const max = Math.max(...values);
+  const normalised = new Map<string, number>();
+  for (const [id, score] of scores) {
+    normalised.set(id, max === min ? 1 : (score - min) / (max - min));
+  }
+  return normalised;
+}
+
+/**
+ * Run a hybrid query: filter candidates, rank them per signal and fuse the rankings.
+ */
+export function runHybridQuery(sources: HybridQuerySources, query: HybridQuery): HybridQueryResult[] {
+  const { fusion = {}, limit = 10, minScore } = query;
+  const window = query.window ?? limit * 10;
+  const method = fusion.method ?? 'rrf';
+  const rrfK = fusion.k ?? 60;
+  const weights = { vector: fusion.weights?.vector ?? 1, graph: fusion.weights?.graph ?? 1 };
+
+  const candidates = new Map<string, HybridCandidate>();
+  for (const candidate of sources.candidates) {
+    if (query.vector && candidate.type !== 'vector') continue;
+    if (!matchesWhere(candidate.metadata, query.metadata)) continue;
+    if (!matchesWhere(candidate.data, query.where)) continue;
+    candidates.set(candidate.id, candidate);
+  }
+
+  const signals = new Map<string, HybridQueryResult['signals']>();
+  const signalFor = (id: string) => {
+    const existing = signals.get(id) ?? {};
+    signals.set(id, existing);
+    return existing;
+  };
+
+  const vectorScores = new Map<string, number>();
+  if (query.vector) {
+    const ranked = sources.searchVectors(query.vector, {
+      k: window,
+      metric: query.metric,
+      candidateIds: new Set(candidates.keys())
+    });
+    ranked.forEach((result, index) => {
+      vectorScores.set(result.id, result.score);
+      signalFor(result.id).vector = { score: result.score, rank: index + 1 };
+    });
+  }
+
+  const graphScores = new Map<string, number>();
+  if (query.graph && sources.graph) {
+    const proximity = graphProximity(sources.graph, query.graph);
+    const linkField = query.graph.linkField ?? 'nodeId';
+    const linked = Array.from(candidates.values())
+      .map(candidate => ({ id: candidate.id, hops: linkedHops(candidate, proximity, linkField) }))
+      .filter((entry): entry is { id: string; hops: number } => entry.hops !== undefined)
+      .sort((a, b) => a.hops - b.hops)
+      .slice(0, window);
+    linked.forEach(({ id, hops }, index) => {
+      const score = 1 / (1 + hops);
+      graphScores.set(id, score);
+      signalFor(id).graph = { score, rank: index + 1, hops };
+    });
+  }
+
+  const usesSignals = !!query.vector || !!query.graph;
+  const fused = new Map<string, number>();
+  if (method === 'weighted') {
+    for (const [signal, scores] of [['vector', normalise(vectorScores)], ['graph', normalise(graphScores)]] as const) {
+      for (const [id, score] of scores) {
+        fused.set(id, (fused.get(id) ?? 0) + weights[signal] * score);
+      }
+    }
+  } else {
+    for (const [id, signal] of signals) {
+      let score = 0;
+      if (signal.vector) score += weights.vector / (rrfK + signal.vector.rank);
+      if (signal.graph) score += weights.graph / (rrfK + signal.graph.rank);
+      fused.set(id, score);
+    }
+  }
+
+  // Without ranking signals the query is a pure filter; keep every candidate
+  if (!usesSignals) {
+    for (const id of candidates.keys()) fused.set(id, 0);
+  }
+
+  const results: HybridQueryResult[] = [];
+  for (const [id, score] of fused) {
+    const candidate = candidates.get(id);
+    if (!candidate) continue;
+    if (minScore !== undefined && score < minScore) continue;
+    results.push({
+      id,
+      type: candidate.type,
+      score,
+      metadata: candidate.metadata,
+      timestamp: candidate.timestamp,
+      signals: signals.get(id) ?? {}
+    });
+  }
+
+  return results
+    .sort((a, b) => b.score - a.score || b.timestamp - a.timestamp)
+    .slice(0, limit);
+}
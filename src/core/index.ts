@@ -27,12 +27,178 @@ export {
   type StorageOptions,
   type StoreOptions,
   type RetrieveOptions,
-  type QueryOptions
+  type UpdateOptions,
+  type DeleteOptions,
+  type QueryOptions,
+  type KeyRotation,
+  type KeyRotationOptions,
+  type KeyRotationProgress,
+  type KeyRotationReport,
+  type KeyInfo,
+  type SerializedVectorIndex,
+  type GraphQueryOptions,
+  type PullOptions,
+  type PullReport,
+  type ConnectorPullSummary,
+  type ArchiveExportOptions,
+  type ArchiveExportResult,
+  type ArchiveImportOptions,
+  type ArchiveImportReport,
+  type MigrationOptions,
+  type MigrationProgress,
+  type MigrationReport
 } from './encryptedHybridStorage';
 
+export {
+  KnowledgeGraph,
+  mergeGraphRecords,
+  type GraphNode,
+  type GraphEdge,
+  type GraphRecord,
+  type GraphDirection,
+  type GraphPath,
+  type TraversalOptions,
+  type TraversalResult,
+  type ShortestPathOptions
+} from './graphQuery';
+
+export {
+  EncryptionError,
+  DecryptionError,
+  type EncryptedEnvelope
+} from './encryption';
+
+export {
+  createLocalStorageKeyStore,
+  createIndexedDBKeyStore,
+  createFileKeyStore,
+  exportEncryptionKey,
+  importEncryptionKey,
+  exportKeyRing,
+  importKeyRing,
+  type KeyStore,
+  type KeyStatus,
+  type KeyRingRecord,
+  type KeyDerivationOptions,
+  type WrappedKeyRecord
+} from './keyManagement';
+
+export {
+  createIndexedDBBackend,
+  createFileBackend,
+  type PersistenceBackend,
+  type PersistedItem,
+  type PersistedStoreType
+} from './localPersistence';
+
+export {
+  SyncOutbox,
+  type SyncOutboxOptions,
+  type SyncStatus,
+  type ConnectorSyncStatus,
+  type OutboxEntry
+} from './syncOutbox';
+
+export {
+  ReauthRequiredError,
+  type OAuthToken,
+  type OAuthClientConfig,
+  type TokenProvider,
+  type TokenRequest,
+  type ReauthRequiredEvent
+} from './oauthTokens';
+
+export {
+  type ChunkedUploadOptions,
+  type UploadProgress
+} from './chunkedUpload';
+
+export {
+  encodePayload,
+  decodePayload,
+  type PayloadEncoding,
+  type PayloadEncodingOptions,
+  type CompressionFormat,
+  type VectorEncoding
+} from './payloadEncoding';
+
+export {
+  ArchiveIntegrityError,
+  type ArchiveSource
+} from './storeArchive';
+
+export {
+  canonicalJson,
+  createContentAddressedId
+} from './recordIds';
+
+export {
+  CURRENT_SCHEMA_VERSION,
+  LEGACY_SCHEMA_VERSION,
+  MigrationRegistry,
+  SchemaVersionError,
+  builtInMigrations,
+  createMigrationRegistry,
+  type MigrationContext,
+  type RecordMigration
+} from './schemaMigration';
+
+export {
+  type CacheOptions,
+  type CacheUsage,
+  type EvictionPolicy,
+  type QuotaPressureEvent
+} from './cacheEviction';
+
+export {
+  compareClocks,
+  computeContentHash,
+  type ConflictReport,
+  type ConflictResolver,
+  type ConflictStrategy,
+  type RecordConflict,
+  type RecordCopy,
+  type VersionVector
+} from './conflictResolution';
+
+export {
+  cosineSimilarity,
+  dotProduct,
+  euclideanDistance,
+  type SimilarityMetric,
+  type MetadataFilter,
+  type VectorSearchResult
+} from './vectorSearch';
+
+export {
+  HNSWIndex,
+  type HNSWOptions,
+  type VectorIndexOptions,
+  type SerializedHNSWIndex
+} from './hnswIndex';
+
+export {
+  matchesWhere,
+  type RelationalQuery,
+  type RelationalQueryResult,
+  type WhereClause,
+  type FieldCondition,
+  type OrderBy
+} from './relationalQuery';
+
+export {
+  runHybridQuery,
+  type HybridQuery,
+  type HybridQueryResult,
+  type HybridGraphSignal,
+  type ScoreFusionOptions
+} from './hybridQuery';
+
 export {
   buildConnectors,
   syncPayloadAcrossConnectors,
+  deletePayloadAcrossConnectors,
+  selectConnectors,
   type StorageConnector,
   type StorageConnectorConfig,
   type StorageSyncPayload,
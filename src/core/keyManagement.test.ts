@@ -0,0 +1,184 @@
+/*
+ * Copyright 2025 SmartClone Contributors
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+import { promises as fs } from 'fs';
+import { tmpdir } from 'os';
+import path from 'path';
+import { DecryptionError, decryptValue, encryptValue, generateEncryptionKey } from './encryption';
+import {
+  LEGACY_KEY_ID,
+  createFileKeyStore,
+  createKeyRing,
+  exportEncryptionKey,
+  exportKeyRing,
+  importEncryptionKey,
+  importKeyRing,
+  loadOrCreateKeyRing,
+  parseKeyRecord,
+  type KeyStore
+} from './keyManagement';
+
+// Far below the default so the tests stay fast
+const derivation = { iterations: 1000 };
+
+function memoryKeyStore(): KeyStore & { values: Map<string, string> } {
+  const values = new Map<string, string>();
+  return {
+    values,
+    async get(name) {
+      return values.get(name) ?? null;
+    },
+    async set(name, value) {
+      values.set(name, value);
+    },
+    async delete(name) {
+      values.delete(name);
+    }
+  };
+}
+
+async function sameKey(first: CryptoKey, second: CryptoKey) {
+  return (await decryptValue(await encryptValue('probe', first), second)) === 'probe';
+}
+
+describe('exportEncryptionKey', () => {
+  it('wraps the key under a passphrase-derived key and unwraps it again', async () => {
+    const key = (await generateEncryptionKey())!;
+
+    const record = await exportEncryptionKey(key, 'correct horse', derivation);
+    expect(record).toMatchObject({ v: 1, kind: 'wrapped', kdf: { name: 'PBKDF2', hash: 'SHA-256', iterations: 1000 } });
+    expect(await sameKey(key, await importEncryptionKey(record, 'correct horse'))).toBe(true);
+  });
+
+  it('supports HKDF for high-entropy secrets', async () => {
+    const key = (await generateEncryptionKey())!;
+
+    const record = await exportEncryptionKey(key, 'f'.repeat(64), { algorithm: 'HKDF', info: 'test' });
+    expect(record.kdf).toMatchObject({ name: 'HKDF', info: 'test' });
+    expect(await sameKey(key, await importEncryptionKey(record, 'f'.repeat(64)))).toBe(true);
+  });
+
+  it('salts every export', async () => {
+    const key = (await generateEncryptionKey())!;
+
+    const [first, second] = [await exportEncryptionKey(key, 'pass', derivation), await exportEncryptionKey(key, 'pass', derivation)];
+    expect(first.kdf!.salt).not.toBe(second.kdf!.salt);
+    expect(first.key).not.toBe(second.key);
+  });
+});
+
+describe('importEncryptionKey', () => {
+  it('rejects a wrong or missing passphrase', async () => {
+    const record = await exportEncryptionKey((await generateEncryptionKey())!, 'right', derivation);
+
+    await expect(importEncryptionKey(record, 'wrong')).rejects.toThrow(DecryptionError);
+    await expect(importEncryptionKey(record)).rejects.toThrow('A passphrase is required to unwrap the stored encryption key');
+  });
+});
+
+describe('key rings', () => {
+  it('round-trip through a wrapped record with their key states', async () => {
+    const ring = (await createKeyRing())!;
+    const next = (await createKeyRing())!.keys[0];
+    ring.keys[0].status = 'decrypt-only';
+    ring.keys.push(next, { id: 'old', status: 'retired', createdAt: 1, retiredAt: 2 });
+    ring.activeKeyId = next.id;
+
+    const record = await exportKeyRing(ring, 'pass', derivation);
+    expect(record.keys[2].key).toBeUndefined();
+    const restored = await importKeyRing(JSON.parse(JSON.stringify(record)), 'pass');
+    expect(restored.activeKeyId).toBe(next.id);
+    expect(restored.keys.map(entry => [entry.id, entry.status, !!entry.key])).toEqual([
+      [ring.keys[0].id, 'decrypt-only', true],
+      [next.id, 'active', true],
+      ['old', 'retired', false]
+    ]);
+    expect(await sameKey(next.key!, restored.keys[1].key!)).toBe(true);
+    await expect(importKeyRing(record, 'wrong')).rejects.toThrow(DecryptionError);
+  });
+
+  it('upgrade a single key record to a one-key ring', async () => {
+    const key = (await generateEncryptionKey())!;
+
+    const ring = await importKeyRing(await exportEncryptionKey(key, 'pass', derivation), 'pass');
+    expect(ring.activeKeyId).toBe(LEGACY_KEY_ID);
+    expect(await sameKey(key, ring.keys[0].key!)).toBe(true);
+  });
+});
+
+describe('loadOrCreateKeyRing', () => {
+  it('creates and persists a ring on first use and loads the same ring later', async () => {
+    const keyStore = memoryKeyStore();
+    const options = { keyStore, keyName: 'app_enckey', passphrase: 'pass', derivation };
+
+    const created = (await loadOrCreateKeyRing(options))!;
+    expect(parseKeyRecord(keyStore.values.get('app_enckey')!)).toMatchObject({ kind: 'keyring', activeKeyId: created.activeKeyId });
+    const loaded = (await loadOrCreateKeyRing(options))!;
+    expect(loaded.activeKeyId).toBe(created.activeKeyId);
+    expect(await sameKey(created.keys[0].key!, loaded.keys[0].key!)).toBe(true);
+  });
+
+  it('refuses to replace a stored value that is not a key record', async () => {
+    const keyStore = memoryKeyStore();
+    keyStore.values.set('app_enckey', '{"v":1,"kind":"keyring"');
+
+    await expect(loadOrCreateKeyRing({ keyStore, keyName: 'app_enckey', passphrase: 'pass', derivation }))
+      .rejects.toThrow('Stored encryption key app_enckey is not a valid key record');
+    expect(keyStore.values.get('app_enckey')).toBe('{"v":1,"kind":"keyring"');
+  });
+
+  it('replaces the placeholder written before key persistence stored real keys', async () => {
+    const keyStore = memoryKeyStore();
+    keyStore.values.set('app_enckey', 'mock-key-storage');
+
+    const ring = (await loadOrCreateKeyRing({ keyStore, keyName: 'app_enckey', passphrase: 'pass', derivation }))!;
+    expect(parseKeyRecord(keyStore.values.get('app_enckey')!)).toMatchObject({ activeKeyId: ring.activeKeyId });
+  });
+});
+
+describe('createFileKeyStore', () => {
+  let directory: string;
+
+  beforeEach(async () => {
+    directory = await fs.mkdtemp(path.join(tmpdir(), 'smartclone-keys-'));
+  });
+
+  afterEach(async () => {
+    await fs.rm(directory, { recursive: true, force: true });
+  });
+
+  it('keeps records in an owner-only JSON file', async () => {
+    const filePath = path.join(directory, 'nested', 'keys.json');
+    const keyStore = createFileKeyStore(filePath);
+
+    expect(await keyStore.get('a')).toBeNull();
+    await keyStore.set('a', 'one');
+    await keyStore.set('b', 'two');
+    await keyStore.delete('a');
+
+    expect(await createFileKeyStore(filePath).get('b')).toBe('two');
+    expect(await keyStore.get('a')).toBeNull();
+    expect((await fs.stat(filePath)).mode & 0o777).toBe(0o600);
+  });
+
+  it('keeps every record when changes overlap', async () => {
+    const filePath = path.join(directory, 'keys.json');
+    const keyStore = createFileKeyStore(filePath);
+
+    await Promise.all(Array.from({ length: 10 }, (_, index) => keyStore.set(`key${index}`, String(index))));
+    expect(Object.keys(JSON.parse(await fs.readFile(filePath, 'utf-8')))).toHaveLength(10);
+    expect((await fs.readdir(directory)).filter(name => name.endsWith('.tmp'))).toEqual([]);
+  });
+});
@@ -0,0 +1,482 @@
+/*
+ * Copyright 2025 SmartClone Contributors
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+/**
+ * Key management for hybrid storage.
+ * Data keys live in a key ring, are wrapped (AES-KW) with a key derived from a user passphrase
+ * and are kept in a pluggable key store.
+ */
+
+import {
+  DecryptionError,
+  base64ToBytes,
+  bytesToBase64,
+  generateEncryptionKey,
+  requireWebCrypto
+} from './encryption';
+
+/**
+ * Minimal persistence contract for key material.
+ */
+export interface KeyStore {
+  get(name: string): Promise<string | null>;
+  set(name: string, value: string): Promise<void>;
+  delete(name: string): Promise<void>;
+}
+
+export interface KeyDerivationOptions {
+  /**
+   * PBKDF2 for human passphrases (default), HKDF for high-entropy secrets.
+   */
+  algorithm?: 'PBKDF2' | 'HKDF';
+  /** PBKDF2 iteration count. Defaults to 600000. */
+  iterations?: number;
+  /** HKDF context information. */
+  info?: string;
+}
+
+export interface KeyDerivationParams {
+  name: 'PBKDF2' | 'HKDF';
+  hash: 'SHA-256';
+  /** Base64 encoded salt. */
+  salt: string;
+  iterations?: number;
+  info?: string;
+}
+
+/**
+ * Portable, serialisable form of a data encryption key.
+ * "wrapped" records are sealed with AES-KW under a passphrase-derived key,
+ * "raw" records hold the unprotected key bytes and are only used when no passphrase is configured.
+ */
+export interface WrappedKeyRecord {
+  v: 1;
+  kind: 'wrapped' | 'raw';
+  kdf?: KeyDerivationParams;
+  /** Base64 encoded wrapped (or raw) key bytes. */
+  key: string;
+  createdAt: number;
+}
+
+const DEFAULT_PBKDF2_ITERATIONS = 600000;
+const SALT_LENGTH = 16;
+
+/**
+ * Derive an AES-KW key-encryption key from a passphrase.
+ */
+export async function deriveKeyEncryptionKey(
+  passphrase: string,
+  params: KeyDerivationParams
+): Promise<CryptoKey> {
+  const webCrypto = await requireWebCrypto();
+  const baseKey = await webCrypto.subtle.importKey(
+    'raw',
+    new TextEncoder().encode(passphrase),
+    params.name,
+    false,
+    ['deriveKey']
+  );
+
+  const algorithm = params.name === 'PBKDF2'
+    ? {
+        name: 'PBKDF2',
+        hash: params.hash,
+        salt: base64ToBytes(params.salt),
+        iterations: params.iterations ?? DEFAULT_PBKDF2_ITERATIONS
+      }
+    : {
+        name: 'HKDF',
+        hash: params.hash,
+        salt: base64ToBytes(params.salt),
+        info: new TextEncoder().encode(params.info ?? 'smartclone-kek')
+      };
+
+  return webCrypto.subtle.deriveKey(
+    algorithm,
+    baseKey,
+    { name: 'AES-KW', length: 256 },
+    false,
+    ['wrapKey', 'unwrapKey']
+  );
+}
+
+function createDerivationParams(webCrypto: Crypto, options: KeyDerivationOptions = {}): KeyDerivationParams {
+  const name = options.algorithm ?? 'PBKDF2';
+  const salt = bytesToBase64(webCrypto.getRandomValues(new Uint8Array(SALT_LENGTH)));
+  return name === 'PBKDF2'
+    ? { name, hash: 'SHA-256', salt, iterations: options.iterations ?? DEFAULT_PBKDF2_ITERATIONS }
+    : { name, hash: 'SHA-256', salt, info: options.info ?? 'smartclone-kek' };
+}
+
+/**
+ * Export a data key. With a passphrase the key is wrapped using a freshly salted derived key.
+ */
+export async function exportEncryptionKey(
+  key: CryptoKey,
+  passphrase?: string,
+  derivation?: KeyDerivationOptions
+): Promise<WrappedKeyRecord> {
+  const webCrypto = await requireWebCrypto();
+
+  if (!passphrase) {
+    const raw = await webCrypto.subtle.exportKey('raw', key);
+    return { v: 1, kind: 'raw', key: bytesToBase64(new Uint8Array(raw)), createdAt: Date.now() };
+  }
+
+  const kdf = createDerivationParams(webCrypto, derivation);
+  const kek = await deriveKeyEncryptionKey(passphrase, kdf);
+  const wrapped = await webCrypto.subtle.wrapKey('raw', key, kek, 'AES-KW');
+  return { v: 1, kind: 'wrapped', kdf, key: bytesToBase64(new Uint8Array(wrapped)), createdAt: Date.now() };
+}
+
+/**
+ * Import a data key from its exported record.
+ * @throws DecryptionError when the passphrase is missing or wrong
+ */
+export async function importEncryptionKey(record: WrappedKeyRecord, passphrase?: string): Promise<CryptoKey> {
+  const webCrypto = await requireWebCrypto();
+  const keyBytes = base64ToBytes(record.key);
+
+  if (record.kind === 'raw') {
+    return webCrypto.subtle.importKey('raw', keyBytes, { name: 'AES-GCM' }, true, ['encrypt', 'decrypt']);
+  }
+
+  if (!record.kdf) {
+    throw new DecryptionError('Wrapped key record is missing key derivation parameters');
+  }
+  if (!passphrase) {
+    throw new DecryptionError('A passphrase is required to unwrap the stored encryption key');
+  }
+
+  const kek = await deriveKeyEncryptionKey(passphrase, record.kdf);
+  try {
+    return await webCrypto.subtle.unwrapKey(
+      'raw',
+      keyBytes,
+      kek,
+      'AES-KW',
+      { name: 'AES-GCM' },
+      true,
+      ['encrypt', 'decrypt']
+    );
+  } catch (error) {
+    throw new DecryptionError('Failed to unwrap encryption key; the passphrase is probably wrong', error);
+  }
+}
+
+/**
+ * Lifecycle state of a key in the key ring.
+ * Only the active key encrypts; decrypt-only keys still read older records; retired keys have no key material left.
+ */
+export type KeyStatus = 'active' | 'decrypt-only' | 'retired';
+
+export interface KeyRingEntry {
+  id: string;
+  status: KeyStatus;
+  createdAt: number;
+  retiredAt?: number;
+  /** Key material, absent once the key has been retired. */
+  key?: CryptoKey;
+}
+
+export interface KeyRing {
+  activeKeyId: string;
+  keys: KeyRingEntry[];
+}
+
+/**
+ * Serialisable form of a key ring. All keys are wrapped under a single derived key.
+ */
+export interface KeyRingRecord {
+  v: 1;
+  kind: 'keyring';
+  kdf?: KeyDerivationParams;
+  activeKeyId: string;
+  keys: Array<{
+    id: string;
+    status: KeyStatus;
+    createdAt: number;
+    retiredAt?: number;
+    /** Base64 encoded wrapped (or raw, without a kdf) key bytes. */
+    key?: string;
+  }>;
+}
+
+export interface LoadKeyRingOptions {
+  keyStore?: KeyStore | null;
+  keyName: string;
+  passphrase?: string;
+  derivation?: KeyDerivationOptions;
+}
+
+/** Identifier assigned to keys persisted before key rings existed. */
+export const LEGACY_KEY_ID = 'k0';
+
+export function createKeyId(): string {
+  return `k${Date.now().toString(36)}${Math.random().toString(36).slice(2, 6)}`;
+}
+
+// Written by persistEncryptionKey before 0.2 in place of a key; it never held key material
+const LEGACY_KEY_PLACEHOLDER = 'mock-key-storage';
+
+export function parseKeyRecord(value: string): WrappedKeyRecord | KeyRingRecord | null {
+  try {
+    const record = JSON.parse(value) as WrappedKeyRecord | KeyRingRecord;
+    if (record && record.v === 1 && (record.kind === 'keyring' || typeof (record as WrappedKeyRecord).key === 'string')) {
+      return record;
+    }
+  } catch {
+    // Not a key record (e.g. the pre-0.2 placeholder value)
+  }
+  return null;
+}
+
+/**
+ * Create a key ring holding a single freshly generated active key.
+ * Resolves to null when WebCrypto is not available.
+ */
+export async function createKeyRing(): Promise<KeyRing | null> {
+  const key = await generateEncryptionKey();
+  if (!key) return null;
+  const id = createKeyId();
+  return { activeKeyId: id, keys: [{ id, status: 'active', createdAt: Date.now(), key }] };
+}
+
+/**
+ * Serialise a key ring, wrapping every key under one passphrase-derived key when a passphrase is given.
+ */
+export async function exportKeyRing(
+  ring: KeyRing,
+  passphrase?: string,
+  derivation?: KeyDerivationOptions
+): Promise<KeyRingRecord> {
+  const webCrypto = await requireWebCrypto();
+  const kdf = passphrase ? createDerivationParams(webCrypto, derivation) : undefined;
+  const kek = passphrase && kdf ? await deriveKeyEncryptionKey(passphrase, kdf) : null;
+
+  const keys: KeyRingRecord['keys'] = [];
+  for (const entry of ring.keys) {
+    let key: string | undefined;
+    if (entry.key) {
+      const exported = kek
+        ? await webCrypto.subtle.wrapKey('raw', entry.key, kek, 'AES-KW')
+        : await webCrypto.subtle.exportKey('raw', entry.key);
+      key = bytesToBase64(new Uint8Array(exported));
+    }
+    keys.push({ id: entry.id, status: entry.status, createdAt: entry.createdAt, retiredAt: entry.retiredAt, key });
+  }
+
+  return { v: 1, kind: 'keyring', kdf, activeKeyId: ring.activeKeyId, keys };
+}
+
+/**
+ * Restore a key ring from its serialised form. Single key records are upgraded to a one-key ring.
+ * @throws DecryptionError when the passphrase is missing or wrong
+ */
+export async function importKeyRing(record: KeyRingRecord | WrappedKeyRecord, passphrase?: string): Promise<KeyRing> {
+  if (record.kind !== 'keyring') {
+    const key = await importEncryptionKey(record, passphrase);
+    return {
+      activeKeyId: LEGACY_KEY_ID,
+      keys: [{ id: LEGACY_KEY_ID, status: 'active', createdAt: record.createdAt, key }]
+    };
+  }
+
+  const webCrypto = await requireWebCrypto();
+  if (record.kdf && !passphrase) {
+    throw new DecryptionError('A passphrase is required to unwrap the stored key ring');
+  }
+  const kek = record.kdf && passphrase ? await deriveKeyEncryptionKey(passphrase, record.kdf) : null;
+
+  const keys: KeyRingEntry[] = [];
+  for (const entry of record.keys) {
+    let key: CryptoKey | undefined;
+    if (entry.key) {
+      const keyBytes = base64ToBytes(entry.key);
+      try {
+        key = kek
+          ? await webCrypto.subtle.unwrapKey('raw', keyBytes, kek, 'AES-KW', { name: 'AES-GCM' }, true, ['encrypt', 'decrypt'])
+          : await webCrypto.subtle.importKey('raw', keyBytes, { name: 'AES-GCM' }, true, ['encrypt', 'decrypt']);
+      } catch (error) {
+        throw new DecryptionError(`Failed to unwrap key ${entry.id}; the passphrase is probably wrong`, error);
+      }
+    }
+    keys.push({ id: entry.id, status: entry.status, createdAt: entry.createdAt, retiredAt: entry.retiredAt, key });
+  }
+
+  return { activeKeyId: record.activeKeyId, keys };
+}
+
+/**
+ * Load the key ring from the key store, or create and persist a new one.
+ * Throws instead of replacing a stored value that is not a key record.
+ */
+export async function loadOrCreateKeyRing(options: LoadKeyRingOptions): Promise<KeyRing | null> {
+  const { keyStore, keyName, passphrase, derivation } = options;
+
+  if (keyStore) {
+    const stored = await keyStore.get(keyName);
+    if (stored && stored !== LEGACY_KEY_PLACEHOLDER) {
+      const record = parseKeyRecord(stored);
+      if (!record) {
+        // Replacing it would lose the key for every record encrypted with it
+        throw new DecryptionError(`Stored encryption key ${keyName} is not a valid key record`);
+      }
+      return importKeyRing(record, passphrase);
+    }
+  }
+
+  const ring = await createKeyRing();
+  if (ring && keyStore) {
+    await keyStore.set(keyName, JSON.stringify(await exportKeyRing(ring, passphrase, derivation)));
+  }
+  return ring;
+}
+
+/**
+ * Key store backed by window.localStorage.
+ */
+export function createLocalStorageKeyStore(storage: Storage = localStorage): KeyStore {
+  return {
+    async get(name) {
+      return storage.getItem(name);
+    },
+    async set(name, value) {
+      storage.setItem(name, value);
+    },
+    async delete(name) {
+      storage.removeItem(name);
+    }
+  };
+}
+
+export function requestToPromise<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+/**
+ * Key store backed by IndexedDB. Suitable for browsers and web workers.
+ */
+export function createIndexedDBKeyStore(
+  databaseName = 'smartclone-keys',
+  factory: IDBFactory = indexedDB
+): KeyStore {
+  const storeName = 'keys';
+  let databasePromise: Promise<IDBDatabase> | null = null;
+
+  function openDatabase() {
+    if (!databasePromise) {
+      const request = factory.open(databaseName, 1);
+      request.onupgradeneeded = () => {
+        request.result.createObjectStore(storeName);
+      };
+      databasePromise = requestToPromise(request);
+    }
+    return databasePromise;
+  }
+
+  async function withStore<T>(mode: IDBTransactionMode, operation: (store: IDBObjectStore) => IDBRequest<T>) {
+    const database = await openDatabase();
+    const transaction = database.transaction(storeName, mode);
+    return requestToPromise(operation(transaction.objectStore(storeName)));
+  }
+
+  return {
+    async get(name) {
+      const value = await withStore('readonly', store => store.get(name));
+      return typeof value === 'string' ? value : null;
+    },
+    async set(name, value) {
+      await withStore('readwrite', store => store.put(value, name));
+    },
+    async delete(name) {
+      await withStore('readwrite', store => store.delete(name));
+    }
+  };
+}
+
+/**
+ * Key store persisting records to a JSON file. Only available in Node.js environments.
+ * Changes are applied one at a time and written atomically, so overlapping calls never lose an update.
+ */
+export function createFileKeyStore(filePath: string): KeyStore {
+  let writing: Promise<unknown> = Promise.resolve();
+
+  async function load() {
+    const fs = await import('fs/promises');
+    try {
+      return JSON.parse(await fs.readFile(filePath, 'utf-8')) as Record<string, string>;
+    } catch (error) {
+      if ((error as { code?: string }).code === 'ENOENT') return {};
+      throw error;
+    }
+  }
+
+  async function save(records: Record<string, string>) {
+    const fs = await import('fs/promises');
+    const path = await import('path');
+    const { randomUUID } = await import('crypto');
+    await fs.mkdir(path.dirname(filePath), { recursive: true });
+    const temporaryPath = `${filePath}.${randomUUID()}.tmp`;
+    await fs.writeFile(temporaryPath, JSON.stringify(records, null, 2), { encoding: 'utf-8', mode: 0o600 });
+    await fs.rename(temporaryPath, filePath);
+  }
+
+  function change(apply: (records: Record<string, string>) => void): Promise<void> {
+    const run = writing.then(async () => {
+      const records = await load();
+      apply(records);
+      await save(records);
+    });
+    writing = run.catch(() => undefined);
+    return run;
+  }
+
+  return {
+    async get(name) {
+      await writing;
+      const records = await load();
+      return records[name] ?? null;
+    },
+    set(name, value) {
+      return change(records => {
+        records[name] = value;
+      });
+    },
+    delete(name) {
+      return change(records => {
+        delete records[name];
+      });
+    }
+  };
+}
+
+/**
+ * Pick the default key store for the current environment.
+ * Node.js has no implicit default; pass createFileKeyStore explicitly.
+ */
+export function createDefaultKeyStore(): KeyStore | null {
+  if (typeof localStorage !== 'undefined') {
+    return createLocalStorageKeyStore(localStorage);
+  }
+  if (typeof indexedDB !== 'undefined') {
+    return createIndexedDBKeyStore();
+  }
+  return null;
+}
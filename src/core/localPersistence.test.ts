@@ -0,0 +1,103 @@
+/*
+ * Copyright 2025 SmartClone Contributors
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { promises as fs } from 'fs';
+import { tmpdir } from 'os';
+import path from 'path';
+import { IDBFactory } from 'fake-indexeddb';
+import { createFileBackend, createIndexedDBBackend, type PersistedItem } from './localPersistence';
+import { createFileKeyStore } from './keyManagement';
+import { encryptedHybridStorage } from './encryptedHybridStorage';
+
+function item(id: string, data: unknown = { id }): PersistedItem {
+  return { id, data, metadata: {}, timestamp: 1 };
+}
+
+describe('createIndexedDBBackend', () => {
+  it('stores, loads and deletes items per store type', async () => {
+    const backend = createIndexedDBBackend('persistence-test', new IDBFactory());
+    await backend.put('relational', item('a'));
+    await backend.put('relational', item('b'));
+    await backend.put('graph', item('g'));
+    await backend.delete('relational', 'a');
+
+    expect(await backend.load('relational')).toEqual([item('b')]);
+    expect(await backend.load('graph')).toEqual([item('g')]);
+    expect(await backend.load('vector')).toEqual([]);
+  });
+
+  it('keeps items for the next backend on the same database', async () => {
+    const factory = new IDBFactory();
+    await createIndexedDBBackend('persistence-test', factory).put('vector', item('v', [1, 2]));
+
+    expect(await createIndexedDBBackend('persistence-test', factory).load('vector')).toEqual([item('v', [1, 2])]);
+  });
+});
+
+describe('createFileBackend', () => {
+  let directory: string;
+
+  beforeEach(async () => {
+    directory = await fs.mkdtemp(path.join(tmpdir(), 'smartclone-persistence-'));
+  });
+
+  afterEach(async () => {
+    await fs.rm(directory, { recursive: true, force: true });
+  });
+
+  it('stores, loads and deletes items', async () => {
+    const backend = createFileBackend(directory);
+    await backend.put('relational', item('users/1'));
+    await backend.put('relational', item('users/2'));
+    await backend.delete('relational', 'users/1');
+    await backend.delete('relational', 'missing');
+
+    expect(await backend.load('relational')).toEqual([item('users/2')]);
+    expect(await backend.load('graph')).toEqual([]);
+  });
+
+  it('survives overlapping writes of the same item without leaving temporary files', async () => {
+    const backend = createFileBackend(directory);
+    await Promise.all(Array.from({ length: 20 }, (_, index) => backend.put('relational', item('same', index))));
+
+    const [stored] = await backend.load('relational');
+    expect(stored.id).toBe('same');
+    expect(await fs.readdir(path.join(directory, 'relational'))).toEqual(['same.json']);
+  });
+
+  it('keeps encrypted records readable after a reload', async () => {
+    const options = {
+      encryptionLevel: 'full' as const,
+      persistEncryptionKey: true,
+      encryptionPassphrase: 'correct horse battery staple',
+      keyDerivation: { iterations: 1000 },
+      keyStore: createFileKeyStore(path.join(directory, 'keys.json')),
+      persistenceBackend: createFileBackend(path.join(directory, 'data'))
+    };
+    const storage = await encryptedHybridStorage(options);
+    const id = await storage.store({ name: 'Ada' }, { type: 'relational', metadata: { team: 'core' } });
+    await storage.close();
+
+    const onDisk = await fs.readFile(path.join(directory, 'data', 'relational', `${id}.json`), 'utf-8');
+    expect(onDisk).not.toContain('Ada');
+
+    const reloaded = await encryptedHybridStorage(options);
+    const record = await reloaded.retrieve(id);
+    expect(record.data).toEqual({ name: 'Ada' });
+    expect(record.metadata).toEqual({ team: 'core' });
+    await reloaded.close();
+  });
+});
@@ -0,0 +1,164 @@
+/*
+ * Copyright 2025 SmartClone Contributors
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+/**
+ * Durable local backends for the hybrid storage maps.
+ * Backends only ever receive items as stored, i.e. already encrypted.
+ */
+
+import { requestToPromise } from './keyManagement';
+import type { PayloadEncoding } from './payloadEncoding';
+
+export type PersistedStoreType = 'vector' | 'graph' | 'relational';
+
+export interface PersistedItem {
+  id: string;
+  data: any;
+  metadata: any;
+  timestamp: number;
+  keyId?: string;
+  version?: number;
+  clock?: Record<string, number>;
+  hash?: string;
+  /** Encoding of data, when it was compressed or packed before encryption. */
+  encoding?: PayloadEncoding;
+  /** Expiry as epoch milliseconds, for records stored with a time to live. */
+  expiresAt?: number;
+  /** Schema version the item was written with; absent on items written by 0.1.0. */
+  schemaVersion?: number;
+}
+
+export interface PersistenceBackend {
+  /** Load every item of a store. */
+  load(type: PersistedStoreType): Promise<PersistedItem[]>;
+  put(type: PersistedStoreType, item: PersistedItem): Promise<void>;
+  delete(type: PersistedStoreType, id: string): Promise<void>;
+}
+
+const STORE_TYPES: PersistedStoreType[] = ['vector', 'graph', 'relational'];
+
+/**
+ * Persistence backend on IndexedDB with one object store per store type.
+ * Pass a factory such as fake-indexeddb to use it outside browsers.
+ */
+export function createIndexedDBBackend(
+  databaseName = 'smartclone-data',
+  factory: IDBFactory = indexedDB
+): PersistenceBackend {
+  let databasePromise: Promise<IDBDatabase> | null = null;
+
+  function openDatabase() {
+    if (!databasePromise) {
+      const request = factory.open(databaseName, 1);
+      request.onupgradeneeded = () => {
+        for (const type of STORE_TYPES) {
+          if (!request.result.objectStoreNames.contains(type)) {
+            request.result.createObjectStore(type, { keyPath: 'id' });
+          }
+        }
+      };
+      databasePromise = requestToPromise(request);
+    }
+    return databasePromise;
+  }
+
+  async function withStore<T>(
+    type: PersistedStoreType,
+    mode: IDBTransactionMode,
+    operation: (store: IDBObjectStore) => IDBRequest<T>
+  ) {
+    const database = await openDatabase();
+    const transaction = database.transaction(type, mode);
+    return requestToPromise(operation(transaction.objectStore(type)));
+  }
+
+  return {
+    async load(type) {
+      return withStore(type, 'readonly', store => store.getAll() as IDBRequest<PersistedItem[]>);
+    },
+    async put(type, item) {
+      await withStore(type, 'readwrite', store => store.put(item));
+    },
+    async delete(type, id) {
+      await withStore(type, 'readwrite', store => store.delete(id));
+    }
+  };
+}
+
+/**
+ * Persistence backend writing one JSON file per item below a directory. Only available in Node.js environments.
+ */
+export function createFileBackend(directory: string): PersistenceBackend {
+  async function itemPath(type: PersistedStoreType, id: string) {
+    const path = await import('path');
+    return path.join(directory, type, `${encodeURIComponent(id)}.json`);
+  }
+
+  return {
+    async load(type) {
+      const fs = await import('fs/promises');
+      const path = await import('path');
+      const typeDirectory = path.join(directory, type);
+      let files: string[];
+      try {
+        files = await fs.readdir(typeDirectory);
+      } catch (error) {
+        if ((error as { code?: string }).code === 'ENOENT') return [];
+        throw error;
+      }
+
+      const items: PersistedItem[] = [];
+      for (const file of files.filter(name => name.endsWith('.json'))) {
+        try {
+          items.push(JSON.parse(await fs.readFile(path.join(typeDirectory, file), 'utf-8')));
+        } catch (error) {
+          console.warn(`Skipping unreadable persisted item ${file}`, error);
+        }
+      }
+      return items;
+    },
+    async put(type, item) {
+      const fs = await import('fs/promises');
+      const path = await import('path');
+      const { randomUUID } = await import('crypto');
+      const filePath = await itemPath(type, item.id);
+      await fs.mkdir(path.dirname(filePath), { recursive: true });
+      // Write to a temporary file first so a crash never leaves a truncated item behind
+      const temporaryPath = `${filePath}.${randomUUID()}.tmp`;
+      await fs.writeFile(temporaryPath, JSON.stringify(item), 'utf-8');
+      await fs.rename(temporaryPath, filePath);
+    },
+    async delete(type, id) {
+      const fs = await import('fs/promises');
+      try {
+        await fs.unlink(await itemPath(type, id));
+      } catch (error) {
+        if ((error as { code?: string }).code !== 'ENOENT') throw error;
+      }
+    }
+  };
+}
+
+/**
+ * Pick the default persistence backend for the current environment.
+ * Node.js has no implicit default; pass createFileBackend explicitly.
+ */
+export function createDefaultPersistenceBackend(databaseName?: string): PersistenceBackend | null {
+  if (typeof indexedDB !== 'undefined') {
+    return createIndexedDBBackend(databaseName);
+  }
+  return null;
+}
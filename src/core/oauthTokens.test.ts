@@ -0,0 +1,140 @@
+/*
+ * Copyright 2025 SmartClone Contributors
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+import { createTokenManager, ReauthRequiredError, type TokenRequest } from './oauthTokens';
+
+const tokenEndpoint = 'https://auth.example.com/token';
+
+/**
+ * Provider accepting only the last issued token and issuing a new one on every refresh grant.
+ */
+function provider() {
+  const grants: URLSearchParams[] = [];
+  const seen: Array<string | null> = [];
+  let issued = 0;
+  let valid = 'initial-token';
+  const fetchImplementation = (async (input: RequestInfo | URL, init: RequestInit = {}) => {
+    if (String(input) === tokenEndpoint) {
+      grants.push(new URLSearchParams(String(init.body)));
+      valid = `token-${++issued}`;
+      return new Response(JSON.stringify({ access_token: valid, expires_in: 3600, refresh_token: `refresh-${issued}` }));
+    }
+    const authorization = new Headers(init.headers).get('Authorization');
+    seen.push(authorization);
+    return new Response(null, { status: authorization === `Bearer ${valid}` ? 200 : 401 });
+  }) as typeof fetch;
+  return { fetchImplementation, grants, seen, revoke: () => { valid = 'revoked'; } };
+}
+
+describe('createTokenManager', () => {
+  it('obtains a token with the refresh token grant and reports rotated refresh tokens', async () => {
+    const api = provider();
+    const refreshed = jest.fn();
+    const manager = createTokenManager({
+      connectorId: 'drive',
+      connectorType: 'googledrive',
+      refreshToken: 'refresh-0',
+      oauth: { clientId: 'client', clientSecret: 'secret', tokenEndpoint },
+      fetchImplementation: api.fetchImplementation,
+      onTokenRefreshed: refreshed
+    });
+
+    expect(await manager.getAccessToken()).toBe('token-1');
+    expect(Object.fromEntries(api.grants[0])).toEqual({
+      grant_type: 'refresh_token',
+      refresh_token: 'refresh-0',
+      client_id: 'client',
+      client_secret: 'secret'
+    });
+    expect(refreshed).toHaveBeenCalledWith(expect.objectContaining({ accessToken: 'token-1', refreshToken: 'refresh-1' }));
+  });
+
+  it('retries a rejected request once with a single shared refresh', async () => {
+    const api = provider();
+    const manager = createTokenManager({
+      connectorId: 'drive',
+      connectorType: 'googledrive',
+      accessToken: 'stale-token',
+      refreshToken: 'refresh-0',
+      oauth: { clientId: 'client', tokenEndpoint },
+      fetchImplementation: api.fetchImplementation
+    });
+
+    const responses = await Promise.all([
+      manager.authorizedFetch('https://api.example.com/a'),
+      manager.authorizedFetch('https://api.example.com/b')
+    ]);
+    expect(responses.map(response => response.status)).toEqual([200, 200]);
+    expect(api.grants).toHaveLength(1);
+    expect(api.grants[0].get('refresh_token')).toBe('refresh-0');
+  });
+
+  it('asks the token provider again when a token expires or is rejected', async () => {
+    const api = provider();
+    const requests: TokenRequest['reason'][] = [];
+    const manager = createTokenManager({
+      connectorId: 'drive',
+      connectorType: 'googledrive',
+      fetchImplementation: api.fetchImplementation,
+      tokenProvider: ({ reason }) => {
+        requests.push(reason);
+        return requests.length === 1
+          ? { accessToken: 'short-lived', expiresAt: Date.now() + 1000 }
+          : 'initial-token';
+      }
+    });
+
+    expect(await manager.getAccessToken()).toBe('short-lived');
+    expect(await manager.getAccessToken()).toBe('initial-token');
+    api.revoke();
+    await manager.authorizedFetch('https://api.example.com/a');
+    expect(requests).toEqual(['initial', 'expired', 'unauthorized']);
+  });
+
+  it('emits a re-auth event when no token can be obtained', async () => {
+    const onReauthRequired = jest.fn();
+    const manager = createTokenManager({
+      connectorId: 'drive',
+      connectorType: 'googledrive',
+      fetchImplementation: provider().fetchImplementation,
+      onReauthRequired
+    });
+
+    await expect(manager.getAccessToken()).rejects.toThrow(ReauthRequiredError);
+    expect(onReauthRequired).toHaveBeenCalledWith(expect.objectContaining({ connectorId: 'drive', connectorType: 'googledrive' }));
+  });
+
+  it('reports a failed refresh grant as re-auth required', async () => {
+    const fetchImplementation = (async () => new Response('invalid_grant', { status: 400 })) as typeof fetch;
+    const manager = createTokenManager({
+      connectorId: 'drive',
+      connectorType: 'googledrive',
+      refreshToken: 'revoked',
+      oauth: { clientId: 'client', tokenEndpoint },
+      fetchImplementation
+    });
+
+    await expect(manager.getAccessToken()).rejects.toThrow('Token refresh failed: 400 invalid_grant');
+  });
+
+  it('requires a client and token endpoint for refresh tokens', () => {
+    expect(() => createTokenManager({
+      connectorId: 'drive',
+      connectorType: 'googledrive',
+      refreshToken: 'refresh-0',
+      fetchImplementation: provider().fetchImplementation
+    })).toThrow('Connector drive needs oauth.clientId and a token endpoint to use a refresh token.');
+  });
+});
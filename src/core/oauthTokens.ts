@@ -0,0 +1,245 @@
+/*
+ * Copyright 2025 SmartClone Contributors
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+/**
+ * Access token handling for OAuth based connectors.
+ * Tokens come from a static value, a caller supplied provider or the provider's refresh token grant;
+ * requests rejected as unauthorized are retried once with a fresh token.
+ */
+
+export interface OAuthToken {
+  accessToken: string;
+  /** Expiry as epoch milliseconds. Tokens are refreshed shortly before they expire. */
+  expiresAt?: number;
+  /** Refresh token returned by the provider; replaces the previous one when it is rotated. */
+  refreshToken?: string;
+}
+
+export interface TokenRequest {
+  connectorId: string;
+  connectorType: string;
+  /**
+   * "initial": no token yet. "expired": the known expiry passed. "unauthorized": the provider rejected the current token.
+   */
+  reason: 'initial' | 'expired' | 'unauthorized';
+}
+
+/**
+ * Supplies access tokens, e.g. from an application's own OAuth session.
+ */
+export type TokenProvider = (request: TokenRequest) => Promise<string | OAuthToken> | string | OAuthToken;
+
+/**
+ * Client registration used for the built-in refresh token grant.
+ */
+export interface OAuthClientConfig {
+  clientId: string;
+  /** Required by Google; omit for public clients. */
+  clientSecret?: string;
+  /** Token endpoint. Defaults to the provider's endpoint where one is known. */
+  tokenEndpoint?: string;
+  scope?: string;
+}
+
+export interface ReauthRequiredEvent {
+  connectorId: string;
+  connectorType: string;
+  /** Why no valid token could be obtained. */
+  error: unknown;
+}
+
+/**
+ * Thrown when a connector has no way to obtain a valid access token. The user has to sign in again.
+ */
+export class ReauthRequiredError extends Error {
+  constructor(message: string, public readonly cause?: unknown) {
+    super(message);
+    this.name = 'ReauthRequiredError';
+  }
+}
+
+export interface TokenManagerOptions {
+  connectorId: string;
+  connectorType: string;
+  accessToken?: string;
+  refreshToken?: string;
+  tokenProvider?: TokenProvider;
+  oauth?: OAuthClientConfig;
+  /** Token endpoint used when oauth.tokenEndpoint is not set. */
+  defaultTokenEndpoint?: string;
+  fetchImplementation: typeof fetch;
+  onReauthRequired?: (event: ReauthRequiredEvent) => void;
+  /** Called after the built-in refresh grant issued a new token. */
+  onTokenRefreshed?: (token: OAuthToken) => void;
+  /**
+   * Detect rejected credentials. Defaults to HTTP 401; providers that report errors in the body can inspect a clone.
+   */
+  isUnauthorized?: (response: Response) => boolean | Promise<boolean>;
+}
+
+export interface TokenManager {
+  /** Current access token, refreshed first when it is missing or about to expire. */
+  getAccessToken(): Promise<string>;
+  /** Fetch with a bearer token, retrying once with a fresh token when the request is rejected. */
+  authorizedFetch(url: string, init?: RequestInit): Promise<Response>;
+}
+
+/** Refresh this long before a known expiry so in-flight requests do not race it. */
+const EXPIRY_MARGIN = 60 * 1000;
+
+function normaliseToken(token: string | OAuthToken): OAuthToken {
+  return typeof token === 'string' ? { accessToken: token } : token;
+}
+
+export function createTokenManager(options: TokenManagerOptions): TokenManager {
+  const fetchImpl = options.fetchImplementation;
+  const tokenEndpoint = options.oauth?.tokenEndpoint ?? options.defaultTokenEndpoint;
+  let current: OAuthToken | null = options.accessToken ? { accessToken: options.accessToken } : null;
+  let refreshToken = options.refreshToken;
+  let refreshing: Promise<string> | null = null;
+
+  if (refreshToken && !options.tokenProvider && (!options.oauth?.clientId || !tokenEndpoint)) {
+    throw new Error(`Connector ${options.connectorId} needs oauth.clientId and a token endpoint to use a refresh token.`);
+  }
+
+  function reauthRequired(error: unknown): ReauthRequiredError {
+    const reauthError = error instanceof ReauthRequiredError
+      ? error
+      : new ReauthRequiredError(`Connector ${options.connectorId} requires re-authentication`, error);
+    try {
+      options.onReauthRequired?.({
+        connectorId: options.connectorId,
+        connectorType: options.connectorType,
+        error: reauthError.cause ?? reauthError
+      });
+    } catch (listenerError) {
+      console.warn('onReauthRequired listener failed', listenerError);
+    }
+    return reauthError;
+  }
+
+  async function refreshWithGrant(): Promise<OAuthToken> {
+    const body = new URLSearchParams({
+      grant_type: 'refresh_token',
+      refresh_token: refreshToken!,
+      client_id: options.oauth!.clientId
+    });
+    if (options.oauth!.clientSecret) body.set('client_secret', options.oauth!.clientSecret);
+    if (options.oauth!.scope) body.set('scope', options.oauth!.scope);
+
+    const response = await fetchImpl(tokenEndpoint!, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+      body: body.toString()
+    });
+    if (!response.ok) {
+      const errorBody = await response.text();
+      throw new ReauthRequiredError(`Token refresh failed: ${response.status} ${errorBody}`);
+    }
+    const granted = await response.json() as { access_token?: string; expires_in?: number; refresh_token?: string };
+    if (!granted.access_token) {
+      throw new ReauthRequiredError('Token refresh response did not contain an access token');
+    }
+    return {
+      accessToken: granted.access_token,
+      expiresAt: granted.expires_in ? Date.now() + granted.expires_in * 1000 : undefined,
+      refreshToken: granted.refresh_token
+    };
+  }
+
+  async function obtainToken(reason: TokenRequest['reason']): Promise<string> {
+    let token: OAuthToken;
+    try {
+      if (options.tokenProvider) {
+        token = normaliseToken(await options.tokenProvider({
+          connectorId: options.connectorId,
+          connectorType: options.connectorType,
+          reason
+        }));
+      } else if (refreshToken) {
+        token = await refreshWithGrant();
+      } else {
+        throw new ReauthRequiredError(`Connector ${options.connectorId} has no valid access token and no way to refresh it`);
+      }
+      if (!token.accessToken) {
+        throw new ReauthRequiredError(`Token provider returned no access token for connector ${options.connectorId}`);
+      }
+    } catch (error) {
+      throw reauthRequired(error);
+    }
+
+    current = token;
+    if (!options.tokenProvider) {
+      // Providers may rotate the refresh token; hand it out so long-running jobs can persist it
+      if (token.refreshToken) refreshToken = token.refreshToken;
+      try {
+        options.onTokenRefreshed?.({ ...token, refreshToken });
+      } catch (listenerError) {
+        console.warn('onTokenRefreshed listener failed', listenerError);
+      }
+    }
+    return token.accessToken;
+  }
+
+  function refresh(reason: TokenRequest['reason']): Promise<string> {
+    // Concurrent requests share one refresh
+    if (!refreshing) {
+      refreshing = obtainToken(reason).finally(() => {
+        refreshing = null;
+      });
+    }
+    return refreshing;
+  }
+
+  async function getAccessToken(): Promise<string> {
+    if (refreshing) return refreshing;
+    if (!current) return refresh('initial');
+    if (current.expiresAt !== undefined && current.expiresAt - EXPIRY_MARGIN <= Date.now()) {
+      return refresh('expired');
+    }
+    return current.accessToken;
+  }
+
+  async function isUnauthorized(response: Response) {
+    if (response.status === 401) return true;
+    return options.isUnauthorized ? options.isUnauthorized(response) : false;
+  }
+
+  async function send(url: string, init: RequestInit, accessToken: string) {
+    const headers = new Headers(init.headers);
+    headers.set('Authorization', `Bearer ${accessToken}`);
+    return fetchImpl(url, { ...init, headers });
+  }
+
+  return {
+    getAccessToken,
+    async authorizedFetch(url, init = {}) {
+      const usedToken = await getAccessToken();
+      const response = await send(url, init, usedToken);
+      if (!(await isUnauthorized(response))) return response;
+
+      // Another request may have refreshed the token already
+      const freshToken = current && current.accessToken !== usedToken
+        ? current.accessToken
+        : await refresh('unauthorized');
+      const retried = await send(url, init, freshToken);
+      if (await isUnauthorized(retried)) {
+        reauthRequired(new Error(`Request rejected after refreshing the access token: ${retried.status}`));
+      }
+      return retried;
+    }
+  };
+}
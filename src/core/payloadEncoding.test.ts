@@ -0,0 +1,71 @@
+/*
+ * Copyright 2025 SmartClone Contributors
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+import { decodePayload, encodePayload } from './payloadEncoding';
+
+const embedding = Array.from({ length: 64 }, (_, index) => Math.sin(index) * 0.5);
+
+describe('encodePayload', () => {
+  it('leaves data without a header when no encoding applies', async () => {
+    expect(await encodePayload({ a: 1 }, {})).toEqual({ data: { a: 1 } });
+    expect(await encodePayload({ a: 1 }, { compression: 'gzip' })).toEqual({ data: { a: 1 } });
+    expect(await encodePayload({ a: [1, 2] }, { vectorEncoding: 'float32' }, 'relational')).toEqual({ data: { a: [1, 2] } });
+  });
+
+  it('compresses large data and reads it back', async () => {
+    const data = { text: 'repeated words '.repeat(100) };
+    for (const compression of ['gzip', 'deflate'] as const) {
+      const encoded = await encodePayload(data, { compression });
+      expect(encoded.encoding).toEqual({ v: 1, compression });
+      expect(encoded.data.length).toBeLessThan(JSON.stringify(data).length / 4);
+      expect(await decodePayload(encoded.data, encoded.encoding)).toEqual(data);
+    }
+  });
+
+  it('packs float32 vectors nested in the data without losing single precision', async () => {
+    const data = { vectors: [embedding, embedding.slice(0, 8)], label: 'x', ids: [] };
+    const encoded = await encodePayload(data, { vectorEncoding: 'float32' }, 'vector');
+    expect(encoded.encoding).toEqual({ v: 1, vectors: 'float32' });
+
+    const decoded = await decodePayload(encoded.data, encoded.encoding);
+    expect(decoded.label).toBe('x');
+    expect(decoded.ids).toEqual([]);
+    expect(decoded.vectors[1]).toEqual(Array.from(new Float32Array(embedding.slice(0, 8))));
+  });
+
+  it('quantises float16 and int8 vectors within their precision', async () => {
+    for (const [vectorEncoding, tolerance] of [['float16', 1e-3], ['int8', 0.5 / 127]] as const) {
+      const encoded = await encodePayload([embedding], { vectorEncoding, compression: 'gzip' }, 'vector');
+      expect(encoded.encoding?.vectors).toBe(vectorEncoding);
+      const [decoded] = await decodePayload(encoded.data, encoded.encoding);
+      decoded.forEach((value: number, index: number) => {
+        expect(Math.abs(value - embedding[index])).toBeLessThanOrEqual(tolerance);
+      });
+    }
+  });
+
+  it('keeps special float16 values', async () => {
+    const encoded = await encodePayload([1e6, -1e6, 1e-9, 0], { vectorEncoding: 'float16' }, 'vector');
+    expect(await decodePayload(encoded.data, encoded.encoding)).toEqual([Infinity, -Infinity, 0, 0]);
+  });
+});
+
+describe('decodePayload', () => {
+  it('returns data without a header unchanged and rejects unknown headers', async () => {
+    expect(await decodePayload({ a: 1 })).toEqual({ a: 1 });
+    await expect(decodePayload('AAAA', { v: 2 as 1 })).rejects.toThrow('Unsupported payload encoding version 2');
+    await expect(decodePayload({ a: 1 }, { v: 1, compression: 'gzip' })).rejects.toThrow('Encoded payload data must be a base64 string');
+  });
+});
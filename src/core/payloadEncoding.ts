@@ -0,0 +1,262 @@
+/*
+ * Copyright 2025 SmartClone Contributors
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+/**
+ * Compact encoding of record data, applied before encryption.
+ * Number arrays of vector records are packed as binary and the result can be gzip or deflate compressed.
+ * The encoded data is a base64 string; its PayloadEncoding header travels with the record.
+ */
+
+import { base64ToBytes, bytesToBase64 } from './encryption';
+
+export type CompressionFormat = 'gzip' | 'deflate';
+
+/** float16 and int8 are lossy: about 3 significant digits, and 1/127 of each array's largest magnitude. */
+export type VectorEncoding = 'float32' | 'float16' | 'int8';
+
+export interface PayloadEncodingOptions {
+  compression?: CompressionFormat;
+  /** Binary encoding for the number arrays of vector records. */
+  vectorEncoding?: VectorEncoding;
+  /** Data smaller than this many bytes as JSON is not compressed. Defaults to 256. */
+  minCompressionSize?: number;
+}
+
+/**
+ * How record data was encoded. Records without a header hold their data as is.
+ */
+export interface PayloadEncoding {
+  v: 1;
+  compression?: CompressionFormat;
+  vectors?: VectorEncoding;
+}
+
+/** A packed array: its path in the data, its length and, for int8, its scale. */
+type PackedArray = [Array<string | number>, number, number?];
+
+interface PackedLayout {
+  value: unknown;
+  arrays: PackedArray[];
+}
+
+const PAYLOAD_ENCODING_VERSION = 1;
+const DEFAULT_MIN_COMPRESSION_SIZE = 256;
+const BYTES_PER_VALUE: Record<VectorEncoding, number> = { float32: 4, float16: 2, int8: 1 };
+
+const encoder = new TextEncoder();
+const decoder = new TextDecoder();
+
+function isNumberArray(value: unknown): value is number[] {
+  return Array.isArray(value) && value.length > 0 && value.every(item => typeof item === 'number');
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  if (!value || typeof value !== 'object') return false;
+  const prototype = Object.getPrototypeOf(value);
+  return prototype === Object.prototype || prototype === null;
+}
+
+const float32 = new Float32Array(1);
+const float32Bits = new Uint32Array(float32.buffer);
+
+function toFloat16Bits(value: number): number {
+  float32[0] = value;
+  const bits = float32Bits[0];
+  const sign = (bits >>> 16) & 0x8000;
+  const exponent = (bits >>> 23) & 0xff;
+  const mantissa = bits & 0x7fffff;
+
+  if (exponent === 0xff) return sign | 0x7c00 | (mantissa ? 0x200 : 0);
+  const halfExponent = exponent - 112;
+  if (halfExponent >= 0x1f) return sign | 0x7c00;
+  if (halfExponent <= 0) {
+    // Subnormal half, or zero when the value is too small
+    if (halfExponent < -10) return sign;
+    const shift = 14 - halfExponent;
+    const full = mantissa | 0x800000;
+    return sign | ((full >> shift) + ((full >> (shift - 1)) & 1));
+  }
+  // Rounding may carry into the exponent, which still yields the nearest value
+  return (sign | (halfExponent << 10) | (mantissa >> 13)) + ((mantissa >> 12) & 1);
+}
+
+function fromFloat16Bits(bits: number): number {
+  const sign = bits & 0x8000 ? -1 : 1;
+  const exponent = (bits >> 10) & 0x1f;
+  const mantissa = bits & 0x3ff;
+  if (exponent === 0) return sign * mantissa * 2 ** -24;
+  if (exponent === 0x1f) return mantissa ? NaN : sign * Infinity;
+  return sign * (1 + mantissa / 1024) * 2 ** (exponent - 15);
+}
+
+/**
+ * Replace number arrays with null and collect them with their paths.
+ */
+function extractArrays(value: unknown, path: Array<string | number>, found: Array<[Array<string | number>, number[]]>): unknown {
+  if (isNumberArray(value)) {
+    found.push([path, value]);
+    return null;
+  }
+  if (Array.isArray(value)) {
+    return value.map((item, index) => extractArrays(item, [...path, index], found));
+  }
+  if (isPlainObject(value)) {
+    return Object.fromEntries(Object.entries(value).map(([key, item]) => [key, extractArrays(item, [...path, key], found)]));
+  }
+  return value;
+}
+
+function packVectors(data: unknown, encoding: VectorEncoding): Uint8Array<ArrayBuffer> | null {
+  const found: Array<[Array<string | number>, number[]]> = [];
+  const value = extractArrays(data, [], found);
+  if (!found.length) return null;
+
+  const layout: PackedLayout = { value, arrays: [] };
+  const valueBytes = found.reduce((total, [, values]) => total + values.length * BYTES_PER_VALUE[encoding], 0);
+  const body = new DataView(new ArrayBuffer(valueBytes));
+  let offset = 0;
+  for (const [path, values] of found) {
+    if (encoding === 'int8') {
+      const largest = values.reduce((max, item) => (Number.isFinite(item) ? Math.max(max, Math.abs(item)) : max), 0);
+      const scale = largest / 127;
+      layout.arrays.push([path, values.length, scale]);
+      for (const item of values) {
+        body.setInt8(offset++, scale && Number.isFinite(item) ? Math.max(-127, Math.min(127, Math.round(item / scale))) : 0);
+      }
+      continue;
+    }
+    layout.arrays.push([path, values.length]);
+    for (const item of values) {
+      if (encoding === 'float32') body.setFloat32(offset, item, true);
+      else body.setUint16(offset, toFloat16Bits(item), true);
+      offset += BYTES_PER_VALUE[encoding];
+    }
+  }
+
+  // Layout: 4 byte little-endian length of the JSON layout, the layout, then the packed values
+  const header = encoder.encode(JSON.stringify(layout));
+  const packed = new Uint8Array(4 + header.length + valueBytes);
+  new DataView(packed.buffer).setUint32(0, header.length, true);
+  packed.set(header, 4);
+  packed.set(new Uint8Array(body.buffer), 4 + header.length);
+  return packed;
+}
+
+function unpackVectors(packed: Uint8Array, encoding: VectorEncoding): unknown {
+  const view = new DataView(packed.buffer, packed.byteOffset, packed.byteLength);
+  const headerLength = view.getUint32(0, true);
+  const layout = JSON.parse(decoder.decode(packed.subarray(4, 4 + headerLength))) as PackedLayout;
+  let root = layout.value;
+  let offset = 4 + headerLength;
+
+  for (const [path, length, scale] of layout.arrays) {
+    const values = new Array<number>(length);
+    for (let index = 0; index < length; index++) {
+      if (encoding === 'int8') values[index] = view.getInt8(offset) * (scale ?? 0);
+      else if (encoding === 'float32') values[index] = view.getFloat32(offset, true);
+      else values[index] = fromFloat16Bits(view.getUint16(offset, true));
+      offset += BYTES_PER_VALUE[encoding];
+    }
+    if (!path.length) {
+      root = values;
+      continue;
+    }
+    let parent = root as Record<string | number, unknown>;
+    for (const key of path.slice(0, -1)) {
+      parent = parent[key] as Record<string | number, unknown>;
+    }
+    parent[path[path.length - 1]] = values;
+  }
+  return root;
+}
+
+async function transform(
+  bytes: Uint8Array<ArrayBuffer>,
+  format: CompressionFormat,
+  direction: 'compress' | 'decompress'
+): Promise<Uint8Array<ArrayBuffer>> {
+  if (typeof CompressionStream === 'function' && typeof DecompressionStream === 'function') {
+    const stream = new Blob([bytes]).stream().pipeThrough(
+      direction === 'compress' ? new CompressionStream(format) : new DecompressionStream(format)
+    );
+    return new Uint8Array(await new Response(stream).arrayBuffer());
+  }
+
+  let zlib: typeof import('zlib');
+  try {
+    zlib = await import('zlib');
+  } catch {
+    throw new Error('Compression is not available in this environment.');
+  }
+  const run = direction === 'compress'
+    ? (format === 'gzip' ? zlib.gzip : zlib.deflate)
+    : (format === 'gzip' ? zlib.gunzip : zlib.inflate);
+  return new Promise((resolve, reject) => {
+    run(bytes, (error, result) => (error ? reject(error) : resolve(new Uint8Array(result))));
+  });
+}
+
+/**
+ * Encode record data. Returns the data unchanged, without a header, when no encoding applies or
+ * compression would not make it smaller.
+ */
+export async function encodePayload(
+  data: any,
+  options: PayloadEncodingOptions,
+  type?: string
+): Promise<{ data: any; encoding?: PayloadEncoding }> {
+  if (data === undefined) return { data };
+  const encoding: PayloadEncoding = { v: PAYLOAD_ENCODING_VERSION };
+
+  let bytes: Uint8Array<ArrayBuffer> | null = null;
+  if (type === 'vector' && options.vectorEncoding) {
+    bytes = packVectors(data, options.vectorEncoding);
+    if (bytes) encoding.vectors = options.vectorEncoding;
+  }
+  bytes ??= encoder.encode(JSON.stringify(data));
+
+  if (options.compression && bytes.length >= (options.minCompressionSize ?? DEFAULT_MIN_COMPRESSION_SIZE)) {
+    const compressed = await transform(bytes, options.compression, 'compress');
+    if (compressed.length < bytes.length) {
+      bytes = compressed;
+      encoding.compression = options.compression;
+    }
+  }
+
+  if (!encoding.vectors && !encoding.compression) return { data };
+  return { data: bytesToBase64(bytes), encoding };
+}
+
+/**
+ * Decode record data written by encodePayload. Data without a header is returned as is.
+ */
+export async function decodePayload(data: any, encoding?: PayloadEncoding | null): Promise<any> {
+  if (!encoding) return data;
+  if (encoding.v !== PAYLOAD_ENCODING_VERSION) {
+    throw new Error(`Unsupported payload encoding version ${encoding.v}`);
+  }
+  if (typeof data !== 'string') {
+    throw new Error('Encoded payload data must be a base64 string');
+  }
+
+  let bytes = new Uint8Array(base64ToBytes(data));
+  if (encoding.compression) {
+    bytes = await transform(bytes, encoding.compression, 'decompress');
+  }
+  return encoding.vectors
+    ? unpackVectors(bytes, encoding.vectors)
+    : JSON.parse(decoder.decode(bytes));
+}
@@ -0,0 +1,45 @@
+/*
+ * Copyright 2025 SmartClone Contributors
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+import { assertValidRecordId, canonicalJson, createContentAddressedId, createRecordId } from './recordIds';
+
+describe('record IDs', () => {
+  it('generates valid IDs prefixed with the store type', () => {
+    const id = createRecordId('relational');
+    expect(id).toMatch(/^relational_\d+_[a-z0-9]+$/);
+    expect(() => assertValidRecordId(id)).not.toThrow();
+  });
+
+  it('rejects IDs connectors cannot use as file names', () => {
+    for (const id of ['user-42', 'a.b_c~d@e+f=g', 'x'.repeat(255)]) {
+      expect(() => assertValidRecordId(id)).not.toThrow();
+    }
+    for (const id of ['', '../escape', 'a/b', '.hidden', 'café', 'x'.repeat(256), 42]) {
+      expect(() => assertValidRecordId(id)).toThrow('Invalid record id');
+    }
+  });
+
+  it('serialises objects with sorted keys at every level', () => {
+    expect(canonicalJson({ b: 1, a: { d: [2, { f: 1, e: 0 }], c: null } })).toBe('{"a":{"c":null,"d":[2,{"e":0,"f":1}]},"b":1}');
+    expect(canonicalJson(undefined)).toBe('null');
+  });
+
+  it('derives the same content-addressed ID regardless of key order', async () => {
+    const id = await createContentAddressedId('relational', { name: 'Ada', age: 36 });
+    expect(id).toMatch(/^relational_[0-9a-f]{64}$/);
+    expect(await createContentAddressedId('relational', { age: 36, name: 'Ada' })).toBe(id);
+    expect(await createContentAddressedId('relational', { age: 37, name: 'Ada' })).not.toBe(id);
+  });
+});
@@ -0,0 +1,58 @@
+/*
+ * Copyright 2025 SmartClone Contributors
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+/**
+ * Record IDs: generated, caller-supplied or derived from the record's content.
+ */
+
+import { requireWebCrypto } from './encryption';
+
+// Connectors use the ID as a file or object name, so IDs are limited to characters every provider accepts
+const RECORD_ID_PATTERN = /^[A-Za-z0-9][A-Za-z0-9._~@+=-]{0,254}$/;
+
+export function createRecordId(type: string): string {
+  return `${type}_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+}
+
+/**
+ * @throws Error when the ID cannot be used as a record ID
+ */
+export function assertValidRecordId(id: unknown): asserts id is string {
+  if (typeof id !== 'string' || !RECORD_ID_PATTERN.test(id)) {
+    throw new Error(
+      `Invalid record id ${JSON.stringify(id)}: use up to 255 letters, digits and . _ ~ @ + = -, starting with a letter or digit`
+    );
+  }
+}
+
+/**
+ * JSON with object keys sorted at every level, so equal values always serialise identically.
+ */
+export function canonicalJson(value: unknown): string {
+  return JSON.stringify(value, (_key, item) => {
+    if (!item || typeof item !== 'object' || Array.isArray(item)) return item;
+    return Object.fromEntries(Object.keys(item).sort().map(key => [key, item[key]]));
+  }) ?? 'null';
+}
+
+/**
+ * "<type>_" followed by the hex SHA-256 of the canonical JSON of the data.
+ */
+export async function createContentAddressedId(type: string, data: unknown): Promise<string> {
+  const webCrypto = await requireWebCrypto();
+  const digest = await webCrypto.subtle.digest('SHA-256', new TextEncoder().encode(canonicalJson(data)));
+  return `${type}_${Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, '0')).join('')}`;
+}
@@ -0,0 +1,110 @@
+/*
+ * Copyright 2025 SmartClone Contributors
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+import {
+  getFieldValue,
+  isRelationalQuery,
+  matchesWhere,
+  project,
+  runRelationalQuery,
+  type RelationalEntry
+} from './relationalQuery';
+
+const people: RelationalEntry[] = [
+  { id: 'a', data: { name: 'Ada', age: 36, tags: ['admin'], address: { city: 'London' } }, metadata: { team: 'core' }, timestamp: 1 },
+  { id: 'b', data: { name: 'Bo', age: 29, tags: [], address: { city: 'Oslo' } }, metadata: { team: 'ops' }, timestamp: 2 },
+  { id: 'c', data: { name: 'Cy', age: 36, tags: ['admin', 'ops'], address: { city: 'Paris' } }, metadata: { team: 'core' }, timestamp: 3 },
+  { id: 'd', data: { name: 'Di' }, metadata: {}, timestamp: 4 }
+];
+
+describe('matchesWhere', () => {
+  const ada = people[0].data;
+
+  it('supports comparison, membership and existence operators', () => {
+    expect(matchesWhere(ada, { age: { gte: 30, lt: 40 } })).toBe(true);
+    expect(matchesWhere(ada, { age: { gt: 36 } })).toBe(false);
+    expect(matchesWhere(ada, { name: { ne: 'Bo' }, tags: { contains: 'admin' } })).toBe(true);
+    expect(matchesWhere(ada, { name: { contains: 'd' } })).toBe(true);
+    expect(matchesWhere(ada, { 'address.city': ['Oslo', 'London'] })).toBe(true);
+    expect(matchesWhere(ada, { nickname: { exists: false } })).toBe(true);
+    expect(matchesWhere(ada, { address: { eq: { city: 'London' } } })).toBe(true);
+  });
+
+  it('matches inclusive ranges', () => {
+    expect(matchesWhere(ada, { age: { range: [30, 36] } })).toBe(true);
+    expect(matchesWhere(ada, { age: { range: [37, 40] } })).toBe(false);
+    expect(matchesWhere(ada, { name: { range: ['A', 'B'] } })).toBe(true);
+    expect(matchesWhere(people[3].data, { age: { range: [0, 100] } })).toBe(false);
+  });
+
+  it('rejects unknown operators instead of matching them by equality', () => {
+    expect(() => matchesWhere(ada, { age: { between: [30, 40] } })).toThrow('Unknown query operator "between" for field "age"');
+    expect(() => matchesWhere(ada, { age: { gte: 30, lesser: 40 } })).toThrow('"lesser"');
+    expect(() => matchesWhere(ada, { address: { city: 'London' } })).toThrow('use { eq: value }');
+    expect(() => matchesWhere(ada, { age: {} })).toThrow('Empty query condition for field "age"');
+    expect(() => matchesWhere(ada, { age: { range: [30] } as any })).toThrow('takes [min, max]');
+  });
+
+  it('combines clauses with $and, $or and $not', () => {
+    expect(matchesWhere(ada, { $or: [{ name: 'Bo' }, { age: 36 }] })).toBe(true);
+    expect(matchesWhere(ada, { $and: [{ name: 'Ada' }, { age: 29 }] })).toBe(false);
+    expect(matchesWhere(ada, { $not: { name: 'Ada' } })).toBe(false);
+  });
+
+  it('does not match missing values against range operators', () => {
+    expect(matchesWhere(people[3].data, { age: { lt: 100 } })).toBe(false);
+  });
+});
+
+describe('runRelationalQuery', () => {
+  it('filters on data and metadata and sorts with id as the tie breaker', () => {
+    const results = runRelationalQuery(people, { where: { age: { gte: 30 } }, metadata: { team: 'core' }, orderBy: '-age' });
+    expect(results.map(result => result.id)).toEqual(['a', 'c']);
+    expect(results[0].type).toBe('relational');
+  });
+
+  it('sorts missing values first and honours metadata ordering', () => {
+    expect(runRelationalQuery(people, { orderBy: 'age' }).map(result => result.id)).toEqual(['d', 'b', 'a', 'c']);
+    expect(runRelationalQuery(people, { orderBy: [{ field: 'team', source: 'metadata', direction: 'desc' }] }).map(result => result.id))
+      .toEqual(['b', 'a', 'c', 'd']);
+  });
+
+  it('paginates with limit, offset and cursors', () => {
+    const query = { orderBy: ['name'], limit: 2 };
+    const first = runRelationalQuery(people, query);
+    expect(first.map(result => result.id)).toEqual(['a', 'b']);
+    const next = runRelationalQuery(people, { ...query, cursor: first[1].cursor });
+    expect(next.map(result => result.id)).toEqual(['c', 'd']);
+    expect(runRelationalQuery(people, { ...query, offset: 3 }).map(result => result.id)).toEqual(['d']);
+    expect(runRelationalQuery(people, { where: {} }, 3)).toHaveLength(3);
+    expect(() => runRelationalQuery(people, { cursor: 'not a cursor' })).toThrow('Invalid query cursor');
+  });
+
+  it('projects selected fields', () => {
+    const [result] = runRelationalQuery(people, { where: { name: 'Ada' }, select: ['name', 'address.city'] });
+    expect(result.data).toEqual({ name: 'Ada', address: { city: 'London' } });
+    expect(project('plain', ['name'])).toBe('plain');
+    expect(getFieldValue(people[0].data, 'address.city')).toBe('London');
+  });
+});
+
+describe('isRelationalQuery', () => {
+  it('detects query objects by their keys', () => {
+    expect(isRelationalQuery({ where: {} })).toBe(true);
+    expect(isRelationalQuery({ limit: 5 })).toBe(true);
+    expect(isRelationalQuery({ name: 'Ada' })).toBe(false);
+    expect(isRelationalQuery([1, 2])).toBe(false);
+  });
+});
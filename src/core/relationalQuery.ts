@@ -0,0 +1,281 @@
+/*
+ * Copyright 2025 SmartClone Contributors
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+/**
+ * Declarative filter/sort/paginate queries for the relational store.
+ */
+
+import { base64ToBytes, bytesToBase64 } from './encryption';
+
+export type Primitive = string | number | boolean | null;
+
+/**
+ * Operators applicable to a single field. All given operators must match.
+ */
+export interface FieldCondition {
+  eq?: unknown;
+  ne?: unknown;
+  in?: unknown[];
+  gt?: Primitive;
+  gte?: Primitive;
+  lt?: Primitive;
+  lte?: Primitive;
+  /** Inclusive [min, max] bounds. */
+  range?: [Primitive, Primitive];
+  /** Substring match for strings, membership for arrays. */
+  contains?: unknown;
+  exists?: boolean;
+}
+
+/**
+ * Field conditions keyed by (dot separated) field path.
+ * A plain value is shorthand for eq, an array for in. Objects must be
+ * conditions; compare whole objects with eq.
+ */
+export type WhereClause = {
+  $and?: WhereClause[];
+  $or?: WhereClause[];
+  $not?: WhereClause;
+} & {
+  [field: string]: FieldCondition | Primitive | unknown[] | WhereClause[] | WhereClause | undefined;
+};
+
+export interface OrderBy {
+  field: string;
+  direction?: 'asc' | 'desc';
+  /** Order against metadata instead of data. */
+  source?: 'data' | 'metadata';
+}
+
+export interface RelationalQuery {
+  /** Conditions on record data. */
+  where?: WhereClause;
+  /** Conditions on record metadata. */
+  metadata?: WhereClause;
+  /** Sort order; strings are field paths, prefixed with "-" for descending. */
+  orderBy?: OrderBy | string | Array<OrderBy | string>;
+  limit?: number;
+  offset?: number;
+  /** Opaque cursor from a previous result; returns records after it. */
+  cursor?: string;
+  /** Data field paths to keep in the results. */
+  select?: string[];
+}
+
+export interface RelationalEntry {
+  id: string;
+  data: any;
+  metadata: Record<string, any>;
+  timestamp: number;
+}
+
+export interface RelationalQueryResult {
+  id: string;
+  type: 'relational';
+  data: any;
+  metadata: Record<string, any>;
+  timestamp: number;
+  /** Pass as query.cursor to continue after this record. */
+  cursor: string;
+}
+
+const OPERATORS = new Set(['eq', 'ne', 'in', 'gt', 'gte', 'lt', 'lte', 'range', 'contains', 'exists']);
+const QUERY_KEYS = ['where', 'metadata', 'orderBy', 'limit', 'offset', 'cursor', 'select'];
+
+/**
+ * Check whether a query argument is a relational query object.
+ */
+export function isRelationalQuery(query: unknown): query is RelationalQuery {
+  return !!query && typeof query === 'object' && !Array.isArray(query)
+    && QUERY_KEYS.some(key => key in (query as object));
+}
+
+export function getFieldValue(target: any, path: string): unknown {
+  return path.split('.').reduce<any>((value, segment) => (value == null ? undefined : value[segment]), target);
+}
+
+function isEqual(a: unknown, b: unknown): boolean {
+  if (a === b) return true;
+  if (a && b && typeof a === 'object' && typeof b === 'object') {
+    return JSON.stringify(a) === JSON.stringify(b);
+  }
+  return false;
+}
+
+function compareValues(a: unknown, b: unknown): number {
+  if (a === b) return 0;
+  // Missing values (undefined, or null after a cursor round trip) sort first
+  if (a == null) return b == null ? 0 : -1;
+  if (b == null) return 1;
+  if (typeof a === 'number' && typeof b === 'number') return a - b;
+  return String(a) < String(b) ? -1 : String(a) > String(b) ? 1 : 0;
+}
+
+function toCondition(field: string, expected: unknown): FieldCondition {
+  if (Array.isArray(expected)) return { in: expected };
+  if (!expected || typeof expected !== 'object') return { eq: expected };
+  const keys = Object.keys(expected);
+  const unknown = keys.find(key => !OPERATORS.has(key));
+  if (unknown !== undefined) {
+    throw new Error(`Unknown query operator "${unknown}" for field "${field}"; use { eq: value } to match an object`);
+  }
+  if (!keys.length) throw new Error(`Empty query condition for field "${field}"`);
+  const condition = expected as FieldCondition;
+  if (condition.range !== undefined && !(Array.isArray(condition.range) && condition.range.length === 2)) {
+    throw new Error(`The range operator for field "${field}" takes [min, max]`);
+  }
+  return condition;
+}
+
+function matchesCondition(value: unknown, condition: FieldCondition): boolean {
+  if (condition.exists !== undefined && (value !== undefined) !== condition.exists) return false;
+  if ('eq' in condition && !isEqual(value, condition.eq)) return false;
+  if ('ne' in condition && isEqual(value, condition.ne)) return false;
+  if (condition.in) {
+    const candidates = Array.isArray(value) ? value : [value];
+    if (!candidates.some(candidate => condition.in!.some(expected => isEqual(candidate, expected)))) return false;
+  }
+  if (condition.gt !== undefined && !(value !== undefined && compareValues(value, condition.gt) > 0)) return false;
+  if (condition.gte !== undefined && !(value !== undefined && compareValues(value, condition.gte) >= 0)) return false;
+  if (condition.lt !== undefined && !(value !== undefined && compareValues(value, condition.lt) < 0)) return false;
+  if (condition.lte !== undefined && !(value !== undefined && compareValues(value, condition.lte) <= 0)) return false;
+  if (condition.range) {
+    const [min, max] = condition.range;
+    if (value === undefined || compareValues(value, min) < 0 || compareValues(value, max) > 0) return false;
+  }
+  if ('contains' in condition) {
+    if (typeof value === 'string') {
+      if (!value.includes(String(condition.contains))) return false;
+    } else if (Array.isArray(value)) {
+      if (!value.some(item => isEqual(item, condition.contains))) return false;
+    } else {
+      return false;
+    }
+  }
+  return true;
+}
+
+/**
+ * Evaluate a where clause against an object.
+ */
+export function matchesWhere(target: any, where?: WhereClause): boolean {
+  if (!where) return true;
+
+  for (const [key, expected] of Object.entries(where)) {
+    if (expected === undefined) continue;
+    if (key === '$and') {
+      if (!(expected as WhereClause[]).every(clause => matchesWhere(target, clause))) return false;
+    } else if (key === '$or') {
+      if (!(expected as WhereClause[]).some(clause => matchesWhere(target, clause))) return false;
+    } else if (key === '$not') {
+      if (matchesWhere(target, expected as WhereClause)) return false;
+    } else {
+      const value = getFieldValue(target, key);
+      if (!matchesCondition(value, toCondition(key, expected))) return false;
+    }
+  }
+
+  return true;
+}
+
+function normaliseOrder(orderBy: RelationalQuery['orderBy']): OrderBy[] {
+  if (!orderBy) return [];
+  return (Array.isArray(orderBy) ? orderBy : [orderBy]).map(order =>
+    typeof order === 'string'
+      ? order.startsWith('-')
+        ? { field: order.slice(1), direction: 'desc' as const }
+        : { field: order, direction: 'asc' as const }
+      : order
+  );
+}
+
+function sortKey(entry: RelationalEntry, orders: OrderBy[]): unknown[] {
+  return orders.map(order => getFieldValue(order.source === 'metadata' ? entry.metadata : entry.data, order.field));
+}
+
+function compareKeys(a: { key: unknown[]; id: string }, b: { key: unknown[]; id: string }, orders: OrderBy[]): number {
+  for (let index = 0; index < orders.length; index++) {
+    const result = compareValues(a.key[index], b.key[index]);
+    if (result !== 0) return orders[index].direction === 'desc' ? -result : result;
+  }
+  // Record ID breaks ties so that cursors are stable
+  return a.id < b.id ? -1 : a.id > b.id ? 1 : 0;
+}
+
+function encodeCursor(position: { key: unknown[]; id: string }): string {
+  return bytesToBase64(new TextEncoder().encode(JSON.stringify([position.key, position.id])));
+}
+
+function decodeCursor(cursor: string): { key: unknown[]; id: string } {
+  try {
+    const [key, id] = JSON.parse(new TextDecoder().decode(base64ToBytes(cursor)));
+    return { key, id };
+  } catch (error) {
+    throw new Error(`Invalid query cursor: ${cursor}`);
+  }
+}
+
+/**
+ * Keep only the given field paths of a data object.
+ */
+export function project(data: any, fields?: string[]): any {
+  if (!fields || !fields.length || !data || typeof data !== 'object') return data;
+  const projected: Record<string, any> = {};
+  for (const field of fields) {
+    const value = getFieldValue(data, field);
+    if (value === undefined) continue;
+    const segments = field.split('.');
+    let target = projected;
+    segments.slice(0, -1).forEach(segment => {
+      target[segment] = target[segment] ?? {};
+      target = target[segment];
+    });
+    target[segments[segments.length - 1]] = value;
+  }
+  return projected;
+}
+
+/**
+ * Run a relational query over decrypted entries.
+ */
+export function runRelationalQuery(
+  entries: Iterable<RelationalEntry>,
+  query: RelationalQuery,
+  defaultLimit = 10
+): RelationalQueryResult[] {
+  const orders = normaliseOrder(query.orderBy);
+  const limit = query.limit ?? defaultLimit;
+  const offset = query.offset ?? 0;
+
+  let matches = Array.from(entries)
+    .filter(entry => matchesWhere(entry.data, query.where) && matchesWhere(entry.metadata, query.metadata))
+    .map(entry => ({ entry, position: { key: sortKey(entry, orders), id: entry.id } }))
+    .sort((a, b) => compareKeys(a.position, b.position, orders));
+
+  if (query.cursor) {
+    const after = decodeCursor(query.cursor);
+    matches = matches.filter(match => compareKeys(match.position, after, orders) > 0);
+  }
+
+  return matches.slice(offset, offset + limit).map(({ entry, position }) => ({
+    id: entry.id,
+    type: 'relational',
+    data: project(entry.data, query.select),
+    metadata: entry.metadata,
+    timestamp: entry.timestamp,
+    cursor: encodeCursor(position)
+  }));
+}
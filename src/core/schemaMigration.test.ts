@@ -0,0 +1,139 @@
+/*
+ * Copyright 2025 SmartClone Contributors
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { encryptedHybridStorage } from './encryptedHybridStorage';
+import { DecryptionError, isBoundEnvelope } from './encryption';
+import type { PersistedItem, PersistedStoreType, PersistenceBackend } from './localPersistence';
+import {
+  CURRENT_SCHEMA_VERSION,
+  MigrationRegistry,
+  SchemaVersionError,
+  createMigrationRegistry,
+  type MigrationContext
+} from './schemaMigration';
+
+function memoryBackend(initial: Partial<Record<PersistedStoreType, PersistedItem[]>> = {}) {
+  const stores = new Map<PersistedStoreType, Map<string, PersistedItem>>();
+  const store = (type: PersistedStoreType) => {
+    if (!stores.has(type)) stores.set(type, new Map((initial[type] ?? []).map(item => [item.id, item])));
+    return stores.get(type)!;
+  };
+  const backend: PersistenceBackend = {
+    async load(type) {
+      return Array.from(store(type).values());
+    },
+    async put(type, item) {
+      store(type).set(item.id, item);
+    },
+    async delete(type, id) {
+      store(type).delete(id);
+    }
+  };
+  return { backend, get: (type: PersistedStoreType, id: string) => store(type).get(id) };
+}
+
+/** A record as 0.1.0 persisted it: "encrypted:" prefixed JSON, no schema version, hash or clock. */
+function legacyItem(id: string, data: unknown, metadata: unknown = {}): PersistedItem {
+  return {
+    id,
+    data: `encrypted:${JSON.stringify(data)}`,
+    metadata: `encrypted:${JSON.stringify(metadata)}`,
+    timestamp: 1700000000000
+  };
+}
+
+const context: MigrationContext = {
+  type: 'relational',
+  async open(item) {
+    return { data: item.data, metadata: item.metadata };
+  },
+  async seal(data, metadata) {
+    return { data: { sealed: data }, metadata, hash: `hash:${JSON.stringify(data)}` };
+  }
+};
+
+describe('MigrationRegistry', () => {
+  it('migrates one version at a time and advances the clock when the content changes', async () => {
+    const registry = createMigrationRegistry();
+    const item = { id: 'a', data: 1, metadata: {}, timestamp: 5, clock: { device: 2 } };
+
+    const migrated = await registry.migrate(item, context);
+    expect(migrated.schemaVersion).toBe(CURRENT_SCHEMA_VERSION);
+    expect(migrated.data).toEqual({ sealed: { sealed: 1 } });
+    expect(migrated.hash).toBe('hash:{"sealed":1}');
+    expect(migrated.clock).toEqual({ device: 2, 'schema-v2': 1, 'schema-v3': 1 });
+    expect(migrated.version).toBe(1);
+    expect(migrated.timestamp).toBe(5);
+  });
+
+  it('keeps the clock when a migration leaves the content unchanged', async () => {
+    const registry = new MigrationRegistry([{ from: 1, migrate: item => item }], 2);
+    const item = { id: 'a', data: 1, metadata: {}, timestamp: 5, hash: 'h', clock: { device: 2 } };
+
+    expect(await registry.migrate(item, context)).toEqual({ ...item, schemaVersion: 2 });
+  });
+
+  it('lets custom migrations replace built-in ones', async () => {
+    const registry = createMigrationRegistry([{ from: 2, migrate: item => ({ ...item, data: 'custom' }) }]);
+
+    const migrated = await registry.migrate({ id: 'a', data: 1, metadata: {}, timestamp: 5, schemaVersion: 2 }, context);
+    expect(migrated.data).toBe('custom');
+  });
+
+  it('rejects items from newer releases and versions without a migration', async () => {
+    const registry = new MigrationRegistry([{ from: 2, migrate: item => item }], 3);
+
+    expect(() => registry.needsMigration({ id: 'a', schemaVersion: 4 })).toThrow(SchemaVersionError);
+    await expect(registry.migrate({ id: 'a', data: 1, metadata: {}, timestamp: 5 }, context)).rejects.toMatchObject({
+      name: 'SchemaVersionError',
+      schemaVersion: 1
+    });
+    expect(() => registry.register({ from: 0, migrate: item => item })).toThrow('Invalid migration source version 0');
+  });
+});
+
+describe('0.1.0 records', () => {
+  it('are only read after an explicit migration with legacyPlaintext', async () => {
+    const persistence = memoryBackend({ relational: [legacyItem('users_1', { name: 'Ada' }, { team: 'core' })] });
+    const storage = await encryptedHybridStorage({ encryptionLevel: 'full', persistenceBackend: persistence.backend });
+
+    await expect(storage.retrieve('users_1')).rejects.toThrow(DecryptionError);
+    expect((await storage.migrateRecords()).failed).toBe(1);
+
+    const report = await storage.migrateRecords({ legacyPlaintext: true });
+    expect(report).toMatchObject({ total: 1, migrated: 1, failed: 0 });
+    const persisted = persistence.get('relational', 'users_1')!;
+    expect(persisted.schemaVersion).toBe(CURRENT_SCHEMA_VERSION);
+    expect(isBoundEnvelope(persisted.data)).toBe(true);
+    expect(isBoundEnvelope(persisted.metadata)).toBe(true);
+    expect(persisted.clock).toEqual({ 'schema-v2': 1, 'schema-v3': 1 });
+
+    const record = await storage.retrieve('users_1');
+    expect(record).toMatchObject({ data: { name: 'Ada' }, metadata: { team: 'core' }, timestamp: 1700000000000, version: 1 });
+    expect((await storage.migrateRecords()).migrated).toBe(0);
+  });
+
+  it('leaves records from newer releases untouched', async () => {
+    const newer = { ...legacyItem('users_2', {}), schemaVersion: CURRENT_SCHEMA_VERSION + 1 };
+    const persistence = memoryBackend({ relational: [newer] });
+    const storage = await encryptedHybridStorage({ encryptionLevel: 'full', persistenceBackend: persistence.backend });
+
+    await expect(storage.retrieve('users_2')).rejects.toThrow(SchemaVersionError);
+    const report = await storage.migrateRecords({ legacyPlaintext: true });
+    expect(report.failures).toEqual([{ id: 'users_2', error: expect.any(SchemaVersionError) }]);
+    expect(persistence.get('relational', 'users_2')).toBe(newer);
+  });
+});
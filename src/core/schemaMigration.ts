@@ -0,0 +1,156 @@
+/*
+ * Copyright 2025 SmartClone Contributors
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+/**
+ * Schema versions of stored records and the migrations between them.
+ * Every item and sync payload records the schema version it was written with; older items are upgraded
+ * one version at a time, lazily when they are read or in bulk.
+ */
+
+import { incrementClock } from './conflictResolution';
+import type { PersistedItem, PersistedStoreType } from './localPersistence';
+
+/** Schema version written by this release. */
+export const CURRENT_SCHEMA_VERSION = 3;
+
+/** First schema version whose encrypted fields are bound to their record's type and id. */
+export const BOUND_SCHEMA_VERSION = 3;
+
+/** Schema version of items without one, i.e. written by 0.1.0. */
+export const LEGACY_SCHEMA_VERSION = 1;
+
+export interface MigrationContext {
+  type: PersistedStoreType;
+  /**
+   * Decrypt and decode data and metadata as the item was written. Unencrypted 0.1.0 values are only
+   * accepted by migrations started with legacyPlaintext.
+   */
+  open(item: PersistedItem): Promise<{ data: any; metadata: any }>;
+  /** Encrypt and encode data and metadata with the active key, the current payload encoding and record binding. */
+  seal(data: any, metadata: any): Promise<Pick<PersistedItem, 'data' | 'metadata' | 'keyId' | 'hash' | 'encoding'>>;
+}
+
+export interface RecordMigration {
+  /** Schema version the migration reads; it produces version from + 1. */
+  from: number;
+  description?: string;
+  migrate(item: PersistedItem, context: MigrationContext): PersistedItem | Promise<PersistedItem>;
+}
+
+/**
+ * Thrown for items written by a newer release, or when no migration leads from an item's schema version.
+ */
+export class SchemaVersionError extends Error {
+  constructor(message: string, public readonly schemaVersion: number) {
+    super(message);
+    this.name = 'SchemaVersionError';
+  }
+}
+
+/**
+ * Migrations shipped with the library.
+ */
+export const builtInMigrations: RecordMigration[] = [
+  {
+    from: 1,
+    description: '0.1.0 records: re-seal "encrypted:" placeholder values with AES-GCM, add version and content hash',
+    migrate: resealRecord
+  },
+  {
+    from: 2,
+    description: 'Bind encrypted fields to the record type and id',
+    migrate: resealRecord
+  }
+];
+
+async function resealRecord(item: PersistedItem, context: MigrationContext): Promise<PersistedItem> {
+  const { data, metadata } = await context.open(item);
+  return {
+    ...item,
+    ...await context.seal(data, metadata ?? {}),
+    timestamp: item.timestamp ?? Date.now(),
+    version: item.version ?? 1
+  };
+}
+
+export class MigrationRegistry {
+  private migrations: Map<number, RecordMigration> = new Map();
+
+  constructor(migrations: RecordMigration[] = [], readonly targetVersion = CURRENT_SCHEMA_VERSION) {
+    migrations.forEach(migration => this.register(migration));
+  }
+
+  /**
+   * Add a migration. A migration from the same version replaces the registered one.
+   */
+  register(migration: RecordMigration): this {
+    if (!Number.isInteger(migration.from) || migration.from < 1) {
+      throw new Error(`Invalid migration source version ${migration.from}`);
+    }
+    this.migrations.set(migration.from, migration);
+    return this;
+  }
+
+  versionOf(item: { schemaVersion?: number }): number {
+    return item.schemaVersion ?? LEGACY_SCHEMA_VERSION;
+  }
+
+  /**
+   * @throws SchemaVersionError when the item was written by a newer release
+   */
+  needsMigration(item: { id?: string; schemaVersion?: number }): boolean {
+    const version = this.versionOf(item);
+    if (version > this.targetVersion) {
+      throw new SchemaVersionError(
+        `Item ${item.id ?? ''} has schema version ${version}, newer than the supported version ${this.targetVersion}`,
+        version
+      );
+    }
+    return version < this.targetVersion;
+  }
+
+  /**
+   * Run every migration from the item's schema version up to the target version.
+   * @throws SchemaVersionError when a step is missing
+   */
+  async migrate(item: PersistedItem, context: MigrationContext): Promise<PersistedItem> {
+    let current = item;
+    while (this.needsMigration(current)) {
+      const version = this.versionOf(current);
+      const migration = this.migrations.get(version);
+      if (!migration) {
+        throw new SchemaVersionError(`No migration from schema version ${version} for item ${item.id}`, version);
+      }
+      const migrated = await migration.migrate(current, context);
+      current = {
+        ...migrated,
+        id: item.id,
+        schemaVersion: version + 1,
+        // A re-sealed copy must order after the unmigrated one instead of looking like a conflict. The clock
+        // entry is the same on every device, so copies migrated independently stay equal
+        clock: migrated.hash !== current.hash ? incrementClock(migrated.clock, `schema-v${version + 1}`) : migrated.clock
+      };
+    }
+    return current;
+  }
+}
+
+/**
+ * Registry with the built-in migrations plus the given ones, which replace built-ins for the same version.
+ */
+export function createMigrationRegistry(migrations: RecordMigration[] = []): MigrationRegistry {
+  return new MigrationRegistry([...builtInMigrations, ...migrations]);
+}
@@ -0,0 +1,588 @@
+/*
+ * Copyright 2025 SmartClone Contributors
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { promises as fs } from 'fs';
+import { tmpdir } from 'os';
+import path from 'path';
+import { buildConnectors, type StorageConnector, type StorageConnectorConfig } from './storageConnectors';
+
+interface RecordedRequest {
+  url: string;
+  method: string;
+  headers: Headers;
+  body: RequestInit['body'];
+}
+
+type Route = (request: RecordedRequest) => Response | Promise<Response>;
+
+/**
+ * Fetch answering every request with the route and recording it.
+ */
+function mockFetch(route: Route) {
+  const requests: RecordedRequest[] = [];
+  const fetchImplementation = (async (input: RequestInfo | URL, init: RequestInit = {}) => {
+    const request = {
+      url: String(input),
+      method: init.method ?? 'GET',
+      headers: new Headers(init.headers),
+      body: init.body
+    };
+    requests.push(request);
+    return route(request);
+  }) as typeof fetch;
+  return { fetchImplementation, requests };
+}
+
+function json(body: unknown, status = 200) {
+  return new Response(JSON.stringify(body), { status, headers: { 'Content-Type': 'application/json' } });
+}
+
+async function connect(config: StorageConnectorConfig): Promise<StorageConnector> {
+  const [connector] = await buildConnectors([config]);
+  return connector;
+}
+
+describe('OneDrive connector', () => {
+  it('lists payload files page by page', async () => {
+    const nextLink = 'https://graph.microsoft.com/v1.0/me/drive/items/root/children?$skiptoken=2';
+    const { fetchImplementation, requests } = mockFetch(request => json(request.url === nextLink
+      ? { value: [{ name: 'b.json', size: 7, file: {} }] }
+      : {
+        value: [
+          { name: 'a.json', size: 5, lastModifiedDateTime: '2025-01-02T03:04:05Z', file: {} },
+          { name: 'notes.txt', file: {} },
+          { name: 'folder.json', folder: {} }
+        ],
+        '@odata.nextLink': nextLink
+      }));
+    const connector = await connect({ type: 'onedrive', id: 'od', accessToken: 'token', fetchImplementation });
+
+    const first = await connector.list!({ limit: 3 });
+    expect(first.entries.map(entry => [entry.id, entry.size, entry.timestamp])).toEqual([['a', 5, Date.UTC(2025, 0, 2, 3, 4, 5)]]);
+    expect(first.nextCursor).toBe(nextLink);
+    expect(requests[0].url).toContain('/me/drive/root:/Apps%2FSmartClone:/children?');
+    expect(requests[0].url).toContain('%24top=3');
+    expect(requests[0].headers.get('Authorization')).toBe('Bearer token');
+
+    const second = await connector.list!({ cursor: first.nextCursor });
+    expect(second.entries.map(entry => entry.id)).toEqual(['b']);
+    expect(second.nextCursor).toBeUndefined();
+  });
+
+  it('lists nothing before the folder exists', async () => {
+    const { fetchImplementation } = mockFetch(() => json({ error: { code: 'itemNotFound' } }, 404));
+    const connector = await connect({ type: 'onedrive', accessToken: 'token', fetchImplementation });
+
+    expect(await connector.list!()).toEqual({ entries: [] });
+  });
+
+  it('deletes a record and ignores records that are already gone', async () => {
+    const { fetchImplementation, requests } = mockFetch(request =>
+      new Response(null, { status: request.url.includes('gone') ? 404 : 204 })
+    );
+    const connector = await connect({ type: 'onedrive', driveId: 'drive-1', accessToken: 'token', fetchImplementation });
+
+    await connector.delete!({ id: 'users_1' });
+    await connector.delete!({ id: 'gone' });
+    expect(requests.map(request => [request.method, request.url])).toEqual([
+      ['DELETE', 'https://graph.microsoft.com/v1.0/drives/drive-1/root:/Apps%2FSmartClone%2Fusers_1.json:'],
+      ['DELETE', 'https://graph.microsoft.com/v1.0/drives/drive-1/root:/Apps%2FSmartClone%2Fgone.json:']
+    ]);
+  });
+
+  it('fails the delete on other errors', async () => {
+    const { fetchImplementation } = mockFetch(() => new Response('throttled', { status: 429 }));
+    const connector = await connect({ type: 'onedrive', accessToken: 'token', fetchImplementation });
+
+    await expect(connector.delete!({ id: 'users_1' })).rejects.toThrow('OneDrive delete failed: 429 throttled');
+  });
+});
+
+describe('Google Drive connector', () => {
+  it('lists payload files with the page token as cursor', async () => {
+    const { fetchImplementation, requests } = mockFetch(() => json({
+      files: [
+        { id: 'f1', name: 'a.json', size: '12', modifiedTime: '2025-01-02T03:04:05Z' },
+        { id: 'f2', name: 'other.json' }
+      ],
+      nextPageToken: 'page-2'
+    }));
+    const connector = await connect({ type: 'googledrive', folderId: 'folder', accessToken: 'token', fetchImplementation });
+
+    const result = await connector.list!({ prefix: 'a', limit: 10, cursor: 'page-1' });
+    expect(result.entries.map(entry => [entry.id, entry.size])).toEqual([['a', 12]]);
+    expect(result.nextCursor).toBe('page-2');
+    const params = new URL(requests[0].url).searchParams;
+    expect(params.get('q')).toBe(`mimeType='application/json' and trashed=false and 'folder' in parents`);
+    expect(params.get('pageSize')).toBe('10');
+    expect(params.get('pageToken')).toBe('page-1');
+  });
+
+  it('escapes query values and lists only the My Drive root without a folder', async () => {
+    const { fetchImplementation, requests } = mockFetch(() => json({ files: [] }));
+    const quoted = await connect({ type: 'googledrive', folderId: "it's\\here", accessToken: 'token', fetchImplementation });
+    const rooted = await connect({ type: 'googledrive', accessToken: 'token', fetchImplementation });
+
+    await quoted.retrieve!({ id: 'a' });
+    await rooted.list!();
+    expect(requests.map(request => new URL(request.url).searchParams.get('q'))).toEqual([
+      `name='a.json' and trashed=false and 'it\\'s\\\\here' in parents`,
+      `mimeType='application/json' and trashed=false and 'root' in parents`
+    ]);
+  });
+
+  it('deletes every file holding the record', async () => {
+    const { fetchImplementation, requests } = mockFetch(request => request.method === 'DELETE'
+      ? new Response(null, { status: request.url.endsWith('/f2') ? 404 : 204 })
+      : json({ files: [{ id: 'f1', name: 'a.json' }, { id: 'f2', name: 'a.json' }] }));
+    const connector = await connect({ type: 'googledrive', accessToken: 'token', fetchImplementation });
+
+    await connector.delete!({ id: 'a' });
+    expect(new URL(requests[0].url).searchParams.get('q')).toBe(`name='a.json' and trashed=false and 'root' in parents`);
+    expect(requests.slice(1).map(request => [request.method, request.url])).toEqual([
+      ['DELETE', 'https://www.googleapis.com/drive/v3/files/f1'],
+      ['DELETE', 'https://www.googleapis.com/drive/v3/files/f2']
+    ]);
+  });
+
+  it('updates the existing file in place and removes duplicates', async () => {
+    const { fetchImplementation, requests } = mockFetch(request => {
+      if (request.method === 'DELETE') return new Response(null, { status: 204 });
+      if (request.url.startsWith('https://www.googleapis.com/upload/')) return json({ id: 'f1', name: 'a.json' });
+      return json({ files: [{ id: 'f1', name: 'a.json' }, { id: 'f2', name: 'a.json' }] });
+    });
+    const connector = await connect({ type: 'googledrive', folderId: 'folder', accessToken: 'token', fetchImplementation });
+
+    const result = await connector.store({ id: 'a', type: 'relational', data: {}, metadata: {}, timestamp: 1 });
+    expect(result.success).toBe(true);
+    expect(new URL(requests[0].url).searchParams.get('orderBy')).toBe('modifiedTime desc');
+    expect(requests.slice(1).map(request => [request.method, request.url])).toEqual([
+      ['PATCH', 'https://www.googleapis.com/upload/drive/v3/files/f1?uploadType=multipart'],
+      ['DELETE', 'https://www.googleapis.com/drive/v3/files/f2']
+    ]);
+    // Parents can only be set when a file is created
+    expect(await new Response(requests[1].body as BodyInit).text()).not.toContain('parents');
+  });
+});
+
+describe('pCloud connector', () => {
+  it('pages through the folder listing by offset', async () => {
+    const { fetchImplementation, requests } = mockFetch(() => json({
+      result: 0,
+      metadata: {
+        contents: [
+          { name: 'c.json', size: 3 },
+          { name: 'a.json', size: 1, modified: 'Thu, 02 Jan 2025 03:04:05 +0000' },
+          { name: 'sub', isfolder: true },
+          { name: 'b.json', size: 2 }
+        ]
+      }
+    }));
+    const connector = await connect({ type: 'pcloud', folderPath: '/SmartClone', accessToken: 'token', fetchImplementation });
+
+    const first = await connector.list!({ limit: 2 });
+    expect(first.entries.map(entry => [entry.id, entry.size, entry.timestamp])).toEqual([
+      ['a', 1, Date.UTC(2025, 0, 2, 3, 4, 5)],
+      ['b', 2, undefined]
+    ]);
+    expect(first.nextCursor).toBe('2');
+    expect(requests[0].url).toBe('https://api.pcloud.com/listfolder?path=%2FSmartClone');
+
+    const second = await connector.list!({ limit: 2, cursor: first.nextCursor });
+    expect(second.entries.map(entry => entry.id)).toEqual(['c']);
+    expect(second.nextCursor).toBeUndefined();
+  });
+
+  it('lists nothing before the folder exists', async () => {
+    const { fetchImplementation } = mockFetch(() => json({ result: 2005, error: 'Directory does not exist.' }));
+    const connector = await connect({ type: 'pcloud', folderPath: '/SmartClone', accessToken: 'token', fetchImplementation });
+
+    expect(await connector.list!()).toEqual({ entries: [] });
+  });
+
+  it('deletes a record and ignores records that are already gone', async () => {
+    const { fetchImplementation, requests } = mockFetch(request =>
+      json(request.url.includes('gone') ? { result: 2009, error: 'File not found.' } : { result: 0 })
+    );
+    const connector = await connect({ type: 'pcloud', folderPath: '/SmartClone', accessToken: 'token', fetchImplementation });
+
+    await connector.delete!({ id: 'a' });
+    await connector.delete!({ id: 'gone' });
+    expect(requests[0].url).toBe('https://api.pcloud.com/deletefile?path=%2FSmartClone%2Fa.json');
+  });
+
+  it('fails the delete on other result codes', async () => {
+    const { fetchImplementation } = mockFetch(() => json({ result: 2003, error: 'Access denied.' }));
+    const connector = await connect({ type: 'pcloud', accessToken: 'token', fetchImplementation });
+
+    await expect(connector.delete!({ id: 'a' })).rejects.toThrow('pCloud deletefile failed: 2003 Access denied.');
+  });
+
+  it('fails uploads on error result codes and creates a missing folder', async () => {
+    let folderExists = false;
+    const { fetchImplementation, requests } = mockFetch(request => {
+      if (request.url.includes('createfolderifnotexists')) {
+        folderExists = true;
+        return json({ result: 0 });
+      }
+      if (request.url.includes('denied')) return json({ result: 2003, error: 'Access denied.' });
+      return json(folderExists ? { result: 0, metadata: [{ name: 'a.json' }] } : { result: 2005, error: 'Directory does not exist.' });
+    });
+    const connector = await connect({ type: 'pcloud', folderPath: '/SmartClone', accessToken: 'token', fetchImplementation });
+    const payload = (id: string) => ({ id, type: 'relational' as const, data: {}, metadata: {}, timestamp: 1 });
+
+    expect(await connector.store(payload('a'))).toMatchObject({ success: true });
+    expect(requests.map(request => request.url.split('?')[0])).toEqual([
+      'https://api.pcloud.com/uploadfile',
+      'https://api.pcloud.com/createfolderifnotexists',
+      'https://api.pcloud.com/uploadfile'
+    ]);
+    await expect(connector.store(payload('denied'))).rejects.toThrow('pCloud uploadfile failed: 2003 Access denied.');
+  });
+
+  it('downloads through a file link and fails on error result codes', async () => {
+    const { fetchImplementation } = mockFetch(request => {
+      if (request.url.startsWith('https://c1.pcloud.com/')) return json({ id: 'a', type: 'relational', data: { n: 1 }, metadata: {}, timestamp: 1 });
+      if (request.url.includes('gone')) return json({ result: 2009, error: 'File not found.' });
+      if (request.url.includes('denied')) return json({ result: 2003, error: 'Access denied.' });
+      if (request.url.includes('linkless')) return json({ result: 0 });
+      return json({ result: 0, hosts: ['c1.pcloud.com'], path: '/abc/a.json' });
+    });
+    const connector = await connect({ type: 'pcloud', folderPath: '/SmartClone', accessToken: 'token', fetchImplementation });
+
+    expect(await connector.retrieve!({ id: 'a' })).toMatchObject({ data: { n: 1 } });
+    expect(await connector.retrieve!({ id: 'gone' })).toBeNull();
+    await expect(connector.retrieve!({ id: 'denied' })).rejects.toThrow('pCloud getfilelink failed: 2003 Access denied.');
+    await expect(connector.retrieve!({ id: 'linkless' })).rejects.toThrow('no download link');
+  });
+
+  it('treats auth result codes as unauthorized and retries with a token from the provider', async () => {
+    const { fetchImplementation, requests } = mockFetch(request =>
+      json(request.headers.get('Authorization') === 'Bearer fresh' ? { result: 0 } : { result: 2094, error: 'Invalid access_token.' })
+    );
+    const reasons: string[] = [];
+    const connector = await connect({
+      type: 'pcloud',
+      fetchImplementation,
+      tokenProvider: ({ reason }) => {
+        reasons.push(reason);
+        return reason === 'initial' ? 'expired' : 'fresh';
+      }
+    });
+
+    await connector.delete!({ id: 'a' });
+    expect(reasons).toEqual(['initial', 'unauthorized']);
+    expect(requests).toHaveLength(2);
+  });
+});
+
+describe('S3 connector', () => {
+  const credentials = { accessKeyId: 'AKIDEXAMPLE', secretAccessKey: 'secret' };
+
+  it('stores signed objects under the prefix with path-style addressing', async () => {
+    const { fetchImplementation, requests } = mockFetch(() => new Response(null, { status: 200, headers: { ETag: '"abc"' } }));
+    const connector = await connect({
+      type: 's3',
+      bucket: 'backups',
+      endpoint: 'http://localhost:9000',
+      forcePathStyle: true,
+      region: 'eu-central-1',
+      ...credentials,
+      fetchImplementation
+    });
+
+    const result = await connector.store({ id: 'users_1', type: 'relational', data: { a: 1 }, metadata: {}, timestamp: 1 });
+    expect(result).toMatchObject({ success: true, location: 's3://backups/smartclone/users_1.json', raw: { etag: '"abc"' } });
+    const [request] = requests;
+    expect([request.method, request.url]).toEqual(['PUT', 'http://localhost:9000/backups/smartclone/users_1.json']);
+    expect(request.headers.get('content-type')).toBe('application/json');
+    expect(request.headers.get('Authorization')).toMatch(
+      /^AWS4-HMAC-SHA256 Credential=AKIDEXAMPLE\/\d{8}\/eu-central-1\/s3\/aws4_request, SignedHeaders=content-type;host;x-amz-content-sha256;x-amz-date, Signature=[0-9a-f]{64}$/
+    );
+  });
+
+  it('addresses the bucket in the host name by default', async () => {
+    const { fetchImplementation, requests } = mockFetch(() => new Response('missing', { status: 404 }));
+    const connector = await connect({ type: 's3', bucket: 'backups', region: 'us-west-2', prefix: 'data/', ...credentials, fetchImplementation });
+
+    expect(await connector.retrieve!({ id: 'users_1' })).toBeNull();
+    expect(requests[0].url).toBe('https://backups.s3.us-west-2.amazonaws.com/data/users_1.json');
+  });
+
+  it('lists objects directly below the prefix with the continuation token as cursor', async () => {
+    const { fetchImplementation, requests } = mockFetch(() => new Response(`<?xml version="1.0" encoding="UTF-8"?>
+<ListBucketResult xmlns="http://s3.amazonaws.com/doc/2006-03-01/">
+  <IsTruncated>true</IsTruncated>
+  <Contents><Key>smartclone/a.json</Key><LastModified>2025-01-02T03:04:05.000Z</LastModified><ETag>&quot;e1&quot;</ETag><Size>10</Size></Contents>
+  <Contents><Key>smartclone/nested/b.json</Key><Size>3</Size></Contents>
+  <Contents><Key>smartclone/readme.txt</Key><Size>1</Size></Contents>
+  <NextContinuationToken>next&amp;token</NextContinuationToken>
+</ListBucketResult>`));
+    const connector = await connect({ type: 's3', bucket: 'backups', ...credentials, fetchImplementation });
+
+    const result = await connector.list!({ prefix: 'a', limit: 5, cursor: 'previous' });
+    expect(result.entries).toEqual([{
+      id: 'a',
+      providerId: connector.id,
+      timestamp: Date.UTC(2025, 0, 2, 3, 4, 5),
+      size: 10,
+      raw: { key: 'smartclone/a.json', etag: '"e1"' }
+    }]);
+    expect(result.nextCursor).toBe('next&token');
+    const params = new URL(requests[0].url).searchParams;
+    expect(params.get('list-type')).toBe('2');
+    expect(params.get('prefix')).toBe('smartclone/a');
+    expect(params.get('max-keys')).toBe('5');
+    expect(params.get('continuation-token')).toBe('previous');
+  });
+
+  it('deletes objects and reports other failures', async () => {
+    const { fetchImplementation, requests } = mockFetch(request =>
+      new Response(request.url.includes('denied') ? 'AccessDenied' : null, { status: request.url.includes('denied') ? 403 : 204 })
+    );
+    const connector = await connect({ type: 's3', bucket: 'backups', ...credentials, fetchImplementation });
+
+    await connector.delete!({ id: 'users_1' });
+    expect(requests[0].method).toBe('DELETE');
+    await expect(connector.delete!({ id: 'denied' })).rejects.toThrow('S3 delete failed: 403 AccessDenied');
+  });
+});
+
+describe('WebDAV connector', () => {
+  const url = 'https://cloud.example.com/remote.php/dav/files/alice';
+
+  it('creates missing collections when an upload conflicts, then retries it', async () => {
+    let collectionsCreated = false;
+    const { fetchImplementation, requests } = mockFetch(request => {
+      if (request.method === 'MKCOL') {
+        collectionsCreated = true;
+        return new Response(null, { status: request.url.endsWith('/apps') ? 405 : 201 });
+      }
+      return new Response(null, { status: collectionsCreated ? 201 : 409, headers: { ETag: '"v1"' } });
+    });
+    const connector = await connect({
+      type: 'webdav',
+      url: `${url}/`,
+      rootPath: 'apps/smart clone',
+      username: 'alice',
+      password: 'app-password',
+      fetchImplementation
+    });
+
+    const result = await connector.store({ id: 'users_1', type: 'relational', data: {}, metadata: {}, timestamp: 1 });
+    expect(result).toMatchObject({ success: true, location: `${url}/apps/smart%20clone/users_1.json`, raw: { etag: '"v1"' } });
+    expect(requests.map(request => [request.method, request.url])).toEqual([
+      ['PUT', `${url}/apps/smart%20clone/users_1.json`],
+      ['MKCOL', `${url}/apps`],
+      ['MKCOL', `${url}/apps/smart%20clone`],
+      ['PUT', `${url}/apps/smart%20clone/users_1.json`]
+    ]);
+    expect(requests.every(request => request.headers.get('Authorization') === `Basic ${btoa('alice:app-password')}`)).toBe(true);
+  });
+
+  it('lists the files of the collection from a PROPFIND response', async () => {
+    const { fetchImplementation, requests } = mockFetch(() => new Response(`<?xml version="1.0"?>
+<d:multistatus xmlns:d="DAV:">
+  <d:response><d:href>/remote.php/dav/files/alice/SmartClone/</d:href>
+    <d:propstat><d:prop><d:resourcetype><d:collection/></d:resourcetype></d:prop></d:propstat></d:response>
+  <d:response><d:href>/remote.php/dav/files/alice/SmartClone/b%20c.json</d:href>
+    <d:propstat><d:prop><d:getcontentlength>4</d:getcontentlength><d:resourcetype/></d:prop></d:propstat></d:response>
+  <d:response><d:href>/remote.php/dav/files/alice/SmartClone/a.json</d:href>
+    <d:propstat><d:prop><d:getlastmodified>Thu, 02 Jan 2025 03:04:05 GMT</d:getlastmodified>
+    <d:getcontentlength>9</d:getcontentlength><d:resourcetype/></d:prop></d:propstat></d:response>
+  <d:response><d:href>/remote.php/dav/files/alice/SmartClone/archive/</d:href>
+    <d:propstat><d:prop><d:resourcetype><d:collection/></d:resourcetype></d:prop></d:propstat></d:response>
+</d:multistatus>`, { status: 207 }));
+    const connector = await connect({ type: 'webdav', url, accessToken: 'token', fetchImplementation });
+
+    const first = await connector.list!({ limit: 1 });
+    expect(first.entries.map(entry => [entry.id, entry.size, entry.timestamp])).toEqual([['a', 9, Date.UTC(2025, 0, 2, 3, 4, 5)]]);
+    expect(first.nextCursor).toBe('1');
+    expect(requests[0].method).toBe('PROPFIND');
+    expect(requests[0].url).toBe(`${url}/SmartClone/`);
+    expect(requests[0].headers.get('Depth')).toBe('1');
+    expect(requests[0].headers.get('Authorization')).toBe('Bearer token');
+
+    const second = await connector.list!({ limit: 1, cursor: first.nextCursor });
+    expect(second.entries.map(entry => [entry.id, entry.size])).toEqual([['b c', 4]]);
+    expect(second.nextCursor).toBeUndefined();
+  });
+
+  it('lists nothing before the collection exists and reads missing files as null', async () => {
+    const { fetchImplementation } = mockFetch(() => new Response(null, { status: 404 }));
+    const connector = await connect({ type: 'webdav', url, username: 'alice', fetchImplementation });
+
+    expect(await connector.list!()).toEqual({ entries: [] });
+    expect(await connector.retrieve!({ id: 'a' })).toBeNull();
+    await expect(connector.delete!({ id: 'a' })).resolves.toBeUndefined();
+  });
+});
+
+describe('Dropbox connector', () => {
+  const notFound = (tag: string) => json({ error_summary: `${tag}/not_found/..` }, 409);
+
+  it('uploads to the root path with an ASCII-only API argument', async () => {
+    const { fetchImplementation, requests } = mockFetch(() => json({ id: 'id:1', rev: 'r1' }));
+    const connector = await connect({ type: 'dropbox', rootPath: '/Café/', accessToken: 'token', fetchImplementation });
+
+    const result = await connector.store({ id: 'a', type: 'relational', data: {}, metadata: {}, timestamp: 1 });
+    expect(result).toMatchObject({ success: true, location: '/Café/a.json', raw: { rev: 'r1' } });
+    const [request] = requests;
+    expect(request.url).toBe('https://content.dropboxapi.com/2/files/upload');
+    expect(request.headers.get('Dropbox-API-Arg')).toBe('{"path":"/Caf\\u00e9/a.json","mode":"overwrite","mute":true}');
+    expect(request.headers.get('Authorization')).toBe('Bearer token');
+  });
+
+  it('downloads payloads and reads missing ones as null', async () => {
+    const payload = { id: 'a', type: 'relational', data: { x: 1 }, metadata: {}, timestamp: 1, version: 2 };
+    const { fetchImplementation } = mockFetch(request =>
+      request.headers.get('Dropbox-API-Arg')!.includes('missing') ? notFound('path') : json(payload)
+    );
+    const connector = await connect({ type: 'dropbox', accessToken: 'token', fetchImplementation });
+
+    expect(await connector.retrieve!({ id: 'a' })).toMatchObject({ id: 'a', data: { x: 1 }, version: 2, providerId: connector.id });
+    expect(await connector.retrieve!({ id: 'missing' })).toBeNull();
+  });
+
+  it('lists the folder and continues from the cursor while more entries remain', async () => {
+    const { fetchImplementation, requests } = mockFetch(request => json(request.url.endsWith('/continue')
+      ? { entries: [{ '.tag': 'file', name: 'b.json', size: 2 }], cursor: 'c2', has_more: false }
+      : {
+        entries: [
+          { '.tag': 'file', name: 'a.json', size: 1, server_modified: '2025-01-02T03:04:05Z' },
+          { '.tag': 'folder', name: 'nested.json' },
+          { '.tag': 'file', name: 'notes.txt' }
+        ],
+        cursor: 'c1',
+        has_more: true
+      }));
+    const connector = await connect({ type: 'dropbox', accessToken: 'token', fetchImplementation });
+
+    const first = await connector.list!({ limit: 3 });
+    expect(first.entries.map(entry => [entry.id, entry.size, entry.timestamp])).toEqual([['a', 1, Date.UTC(2025, 0, 2, 3, 4, 5)]]);
+    expect(first.nextCursor).toBe('c1');
+    const second = await connector.list!({ cursor: first.nextCursor });
+    expect(second.entries.map(entry => entry.id)).toEqual(['b']);
+    expect(second.nextCursor).toBeUndefined();
+
+    expect(requests.map(request => [request.url, JSON.parse(String(request.body))])).toEqual([
+      ['https://api.dropboxapi.com/2/files/list_folder', { path: '/SmartClone', limit: 3 }],
+      ['https://api.dropboxapi.com/2/files/list_folder/continue', { cursor: 'c1' }]
+    ]);
+  });
+
+  it('lists nothing before the folder exists', async () => {
+    const { fetchImplementation } = mockFetch(() => notFound('path'));
+    const connector = await connect({ type: 'dropbox', accessToken: 'token', fetchImplementation });
+
+    expect(await connector.list!()).toEqual({ entries: [] });
+  });
+
+  it('deletes with delete_v2 and ignores records that are already gone', async () => {
+    const { fetchImplementation, requests } = mockFetch(request =>
+      String(request.body).includes('gone') ? notFound('path_lookup') : json({ metadata: {} })
+    );
+    const connector = await connect({ type: 'dropbox', accessToken: 'token', fetchImplementation });
+
+    await connector.delete!({ id: 'a' });
+    await connector.delete!({ id: 'gone' });
+    expect(requests.map(request => [request.url, JSON.parse(String(request.body))])).toEqual([
+      ['https://api.dropboxapi.com/2/files/delete_v2', { path: '/SmartClone/a.json' }],
+      ['https://api.dropboxapi.com/2/files/delete_v2', { path: '/SmartClone/gone.json' }]
+    ]);
+  });
+
+  it('fails the delete on other conflicts', async () => {
+    const { fetchImplementation } = mockFetch(() => json({ error_summary: 'path_lookup/locked/..' }, 409));
+    const connector = await connect({ type: 'dropbox', accessToken: 'token', fetchImplementation });
+
+    await expect(connector.delete!({ id: 'a' })).rejects.toThrow('Dropbox delete failed: 409');
+  });
+});
+
+describe('Local disk connector', () => {
+  let directory: string;
+
+  beforeEach(async () => {
+    directory = await fs.mkdtemp(path.join(tmpdir(), 'smartclone-disk-'));
+  });
+
+  afterEach(async () => {
+    await fs.rm(directory, { recursive: true, force: true });
+  });
+
+  const payload = (id: string, timestamp = 1) => ({ id, type: 'relational' as const, data: { id }, metadata: {}, timestamp });
+
+  it('resolves records by their exact ID', async () => {
+    const connector = await connect({ type: 'local-disk', directory });
+    await connector.store(payload('users_1'));
+    await connector.store(payload('users_10'));
+    await connector.store(payload('../escape'));
+
+    expect((await connector.retrieve!({ id: 'users_1' }))?.data).toEqual({ id: 'users_1' });
+    expect((await connector.retrieve!({ id: '../escape' }))?.data).toEqual({ id: '../escape' });
+    expect(await connector.retrieve!({ id: 'users' })).toBeNull();
+
+    await connector.delete!({ id: 'users_1' });
+    expect(await connector.retrieve!({ id: 'users_1' })).toBeNull();
+    expect((await connector.retrieve!({ id: 'users_10' }))?.data).toEqual({ id: 'users_10' });
+    expect((await fs.readdir(directory)).filter(name => name.endsWith('.tmp'))).toEqual([]);
+  });
+
+  it('spreads files over shard directories and lists them from the manifest', async () => {
+    const connector = await connect({ type: 'local-disk', directory, shardDepth: 2 });
+    for (const id of ['a', 'b', 'c']) {
+      await connector.store(payload(id, id.charCodeAt(0)));
+    }
+
+    const stored = await connector.store(payload('a', 100));
+    expect(path.relative(directory, stored.location as string).split(path.sep)).toHaveLength(3);
+
+    const first = await connector.list!({ limit: 2 });
+    expect(first.entries.map(entry => entry.id)).toEqual(['a', 'b']);
+    const second = await connector.list!({ limit: 2, cursor: first.nextCursor });
+    expect(second.entries.map(entry => entry.id)).toEqual(['c']);
+    expect(second.nextCursor).toBeUndefined();
+  });
+
+  it('lists the time each payload was written rather than its record timestamp', async () => {
+    const connector = await connect({ type: 'local-disk', directory });
+    const before = Date.now();
+    await connector.store(payload('late', 5));
+
+    const [entry] = (await connector.list!()).entries;
+    expect(entry.timestamp).toBeGreaterThanOrEqual(before);
+  });
+
+  it('survives concurrent writes of the same record', async () => {
+    const [first, second] = [await connect({ type: 'local-disk', directory }), await connect({ type: 'local-disk', directory })];
+
+    const results = await Promise.all([1, 2, 3].flatMap(n => [first.store(payload('a', n)), second.store(payload('a', n + 10))]));
+    expect(results.every(result => result.success)).toBe(true);
+    expect((await fs.readdir(directory)).filter(name => name.endsWith('.tmp'))).toEqual([]);
+    expect(await first.retrieve!({ id: 'a' })).not.toBeNull();
+  });
+
+  it('indexes payload files written before the manifest existed', async () => {
+    const file = path.join(directory, 'smartclone-legacy.json');
+    await fs.writeFile(file, JSON.stringify(payload('legacy', 5)));
+    const connector = await connect({ type: 'local-disk', directory });
+
+    const { mtimeMs } = await fs.stat(file);
+    expect((await connector.list!()).entries.map(entry => [entry.id, entry.timestamp])).toEqual([['legacy', Math.floor(mtimeMs)]]);
+    expect((await connector.retrieve!({ id: 'legacy' }))?.data).toEqual({ id: 'legacy' });
+  });
+});
@@ -14,7 +14,19 @@
  * limitations under the License.
  */
 
-import type { StoreOptions } from './encryptedHybridStorage';
+import { encodeRfc3986, signRequest, type AwsCredentials } from './awsSignature';
+import { bytesToBase64 } from './encryption';
+import { runChunkedUpload, shouldUseChunkedUpload, type ChunkedUploadOptions } from './chunkedUpload';
+import { DiskManifest, type DiskManifestEntry } from './diskManifest';
+import type { PayloadEncoding } from './payloadEncoding';
+import {
+  createTokenManager,
+  type OAuthClientConfig,
+  type OAuthToken,
+  type ReauthRequiredEvent,
+  type TokenManagerOptions,
+  type TokenProvider
+} from './oauthTokens';
 
 /**
  * Supported storage connector types
@@ -24,11 +36,14 @@ export type StorageConnectorType =
   | 'onedrive'
   | 'googledrive'
   | 'pcloud'
+  | 'dropbox'
+  | 's3'
+  | 'webdav'
   | 'custom';
 
 /**
  * Data payload that will be forwarded to storage connectors.
- * Data and metadata have already gone through encryption when required.
+ * Data and metadata have already gone through encryption when required; nothing else carries record content.
  */
 export interface StorageSyncPayload {
   id: string;
@@ -36,7 +51,22 @@ export interface StorageSyncPayload {
   data: any;
   metadata: Record<string, any> | string;
   timestamp: number;
-  storeOptions?: StoreOptions;
+  /** Key ring entry used to encrypt data and metadata, when encrypted. */
+  keyId?: string;
+  /** Record version, bumped on every update. */
+  version?: number;
+  /** Tombstone written to connectors that cannot delete. */
+  deleted?: boolean;
+  /** Version vector: per-replica change counters used to detect conflicting copies. */
+  clock?: Record<string, number>;
+  /** SHA-256 of the stored data and metadata. */
+  hash?: string;
+  /** How to decode data. Absent on records written without payload encoding. */
+  encoding?: PayloadEncoding;
+  /** Expiry as epoch milliseconds; expired copies are treated as deleted. */
+  expiresAt?: number;
+  /** Schema version of the record envelope; absent on payloads written by 0.1.0. */
+  schemaVersion?: number;
 }
 
 export interface StorageRetrieveReference {
@@ -50,6 +80,14 @@ export interface StorageRetrieveResult {
   data: any;
   metadata: any;
   timestamp?: number;
+  keyId?: string;
+  version?: number;
+  deleted?: boolean;
+  clock?: Record<string, number>;
+  hash?: string;
+  encoding?: PayloadEncoding;
+  expiresAt?: number;
+  schemaVersion?: number;
   providerId: string;
   raw?: unknown;
 }
@@ -65,6 +103,7 @@ export interface StorageListResult {
     id: string;
     providerId: string;
     type?: string;
+    /** When the connector stored the entry (not the record's own timestamp); pull watermarks compare against it. */
     timestamp?: number;
     size?: number;
     raw?: unknown;
@@ -98,10 +137,28 @@ export interface LocalDiskConnectorConfig extends BaseConnectorConfig {
   directory: string;
   /** Optional prefix for generated filenames. */
   filePrefix?: string;
+  /**
+   * Spread payload files over this many levels of subdirectories named after a hash of the record ID
+   * (up to 256 per level). Defaults to 0, a flat directory.
+   */
+  shardDepth?: number;
 }
 
 export interface OAuthConnectorConfig extends BaseConnectorConfig {
-  accessToken: string;
+  /** Access token. Optional when tokenProvider or refreshToken can supply one. */
+  accessToken?: string;
+  /**
+   * Refresh token for the provider's built-in refresh grant (OneDrive, Google Drive, Dropbox). Requires oauth.clientId.
+   */
+  refreshToken?: string;
+  /** OAuth client used with refreshToken. */
+  oauth?: OAuthClientConfig;
+  /** Supplies access tokens on demand; takes precedence over refreshToken. */
+  tokenProvider?: TokenProvider;
+  /** Called when no valid token can be obtained and the user has to sign in again. */
+  onReauthRequired?: (event: ReauthRequiredEvent) => void;
+  /** Called with each token issued by the refresh grant, including a rotated refresh token to persist. */
+  onTokenRefreshed?: (token: OAuthToken) => void;
   /** Optional root path/folder for persisted payloads. */
   rootPath?: string;
   /**
@@ -113,24 +170,60 @@ export interface OAuthConnectorConfig extends BaseConnectorConfig {
 export interface OneDriveConnectorConfig extends OAuthConnectorConfig {
   type: 'onedrive';
   driveId?: string;
+  /** Upload sessions (createUploadSession) for payloads above the threshold; single requests are limited to 4 MB. */
+  chunkedUpload?: ChunkedUploadOptions;
 }
 
 export interface GoogleDriveConnectorConfig extends OAuthConnectorConfig {
   type: 'googledrive';
   /** Optional folder ID where payloads should be uploaded. */
   folderId?: string;
+  /** Resumable uploads (uploadType=resumable) for payloads above the threshold. */
+  chunkedUpload?: ChunkedUploadOptions;
 }
 
 export interface PCloudConnectorConfig extends OAuthConnectorConfig {
   type: 'pcloud';
   /** Optional folder path where payloads should be uploaded. */
   folderPath?: string;
+  /** Chunked uploads (upload_create/upload_write/upload_save) for payloads above the threshold. */
+  chunkedUpload?: ChunkedUploadOptions;
   /**
    * API host. Defaults to https://api.pcloud.com.
    */
   apiHost?: string;
 }
 
+export interface DropboxConnectorConfig extends OAuthConnectorConfig {
+  type: 'dropbox';
+}
+
+export interface S3ConnectorConfig extends BaseConnectorConfig, AwsCredentials {
+  type: 's3';
+  bucket: string;
+  /** Signing region. Defaults to us-east-1. */
+  region?: string;
+  /**
+   * Service endpoint, e.g. http://localhost:9000 for MinIO. Defaults to https://s3.<region>.amazonaws.com.
+   */
+  endpoint?: string;
+  /** Key prefix for stored payloads. Defaults to "smartclone/". */
+  prefix?: string;
+  /** Address the bucket in the path instead of the host name, as MinIO and most self-hosted stores expect. */
+  forcePathStyle?: boolean;
+  fetchImplementation?: typeof fetch;
+}
+
+export interface WebDAVConnectorConfig extends OAuthConnectorConfig {
+  type: 'webdav';
+  /** Base collection URL, e.g. https://cloud.example.com/remote.php/dav/files/alice. */
+  url: string;
+  /** Basic auth user. Without it requests use the bearer token options. */
+  username?: string;
+  /** Basic auth password; use an app password for Nextcloud/ownCloud accounts with 2FA. */
+  password?: string;
+}
+
 export interface CustomConnectorConfig extends BaseConnectorConfig {
   type: 'custom';
   /**
@@ -144,6 +237,9 @@ export type StorageConnectorConfig =
   | OneDriveConnectorConfig
   | GoogleDriveConnectorConfig
   | PCloudConnectorConfig
+  | DropboxConnectorConfig
+  | S3ConnectorConfig
+  | WebDAVConnectorConfig
   | CustomConnectorConfig;
 
 export interface StorageConnector {
@@ -189,16 +285,140 @@ function resolveFetch(custom?: typeof fetch) {
   throw new Error('Fetch API is not available in this environment. Provide fetchImplementation in connector config.');
 }
 
+/**
+ * Fetch for an OAuth connector: adds the bearer token and retries once with a fresh token when it is rejected.
+ */
+function createAuthorizedFetch(
+  config: OAuthConnectorConfig,
+  connectorId: string,
+  defaultTokenEndpoint?: string,
+  isUnauthorized?: TokenManagerOptions['isUnauthorized']
+) {
+  if (!config.accessToken && !config.refreshToken && !config.tokenProvider) {
+    throw new Error(`Connector ${connectorId} requires an accessToken, refreshToken or tokenProvider.`);
+  }
+  const tokens = createTokenManager({
+    connectorId,
+    connectorType: config.type,
+    accessToken: config.accessToken,
+    refreshToken: config.refreshToken,
+    tokenProvider: config.tokenProvider,
+    oauth: config.oauth,
+    defaultTokenEndpoint,
+    fetchImplementation: resolveFetch(config.fetchImplementation),
+    onReauthRequired: config.onReauthRequired,
+    onTokenRefreshed: config.onTokenRefreshed,
+    isUnauthorized
+  });
+  return tokens.authorizedFetch;
+}
+
+/**
+ * Record ID of a payload file named "<id>.json", or null for any other file.
+ */
+function recordIdFromFileName(fileName: string, prefix?: string): string | null {
+  if (!fileName.endsWith('.json')) return null;
+  const recordId = fileName.slice(0, -'.json'.length);
+  if (prefix && !recordId.startsWith(prefix)) return null;
+  return recordId;
+}
+
+/**
+ * Page through a listing the provider returns in one piece. The cursor is an offset into the sorted entries.
+ */
+function pageByOffset<T>(items: T[], options: StorageListOptions): { page: T[]; nextCursor?: string } {
+  const offset = options.cursor ? Number(options.cursor) : 0;
+  const end = options.limit ? offset + options.limit : items.length;
+  return { page: items.slice(offset, end), nextCursor: end < items.length ? String(end) : undefined };
+}
+
+function parseTimestamp(value: string | undefined): number | undefined {
+  const timestamp = value ? Date.parse(value) : NaN;
+  return Number.isNaN(timestamp) ? undefined : timestamp;
+}
+
 async function createLocalDiskConnector(config: LocalDiskConnectorConfig): Promise<StorageConnector> {
   const id = config.id ?? createConnectorId('local');
   const fs = await ensureFs();
   const path = await ensurePath();
+  const { createHash, randomUUID } = await import('crypto');
   const autoSync = config.autoSync ?? true;
+  const filePrefix = config.filePrefix ?? 'smartclone';
+  const shardDepth = Math.max(0, Math.min(config.shardDepth ?? 0, 4));
+  const manifestName = `${filePrefix}.manifest.json`;
+  const journalName = `${filePrefix}.manifest.log`;
 
   async function ensureDirectory() {
     await fs.mkdir(config.directory, { recursive: true });
   }
 
+  /**
+   * Payload file of a record, relative to the directory. IDs are encoded so they can never escape it.
+   */
+  function relativePath(recordId: string) {
+    const fileName = `${filePrefix}-${encodeURIComponent(recordId)}.json`;
+    if (!shardDepth) return fileName;
+    const digest = createHash('sha256').update(recordId).digest('hex');
+    const shards = Array.from({ length: shardDepth }, (_, level) => digest.slice(level * 2, level * 2 + 2));
+    return path.join(...shards, fileName);
+  }
+
+  async function readPayload(filePath: string): Promise<StorageSyncPayload | null> {
+    try {
+      return JSON.parse(await fs.readFile(filePath, 'utf-8'));
+    } catch (error) {
+      if ((error as { code?: string }).code === 'ENOENT') return null;
+      throw error;
+    }
+  }
+
+  /**
+   * Index the payload files of a directory written before the manifest existed.
+   */
+  async function scanDirectory(): Promise<Array<[string, DiskManifestEntry]>> {
+    const found: Array<[string, DiskManifestEntry]> = [];
+    const walk = async (relativeDirectory: string) => {
+      let entries;
+      try {
+        entries = await fs.readdir(path.join(config.directory, relativeDirectory), { withFileTypes: true });
+      } catch (error) {
+        if ((error as { code?: string }).code === 'ENOENT') return;
+        throw error;
+      }
+      for (const entry of entries) {
+        const file = path.join(relativeDirectory, entry.name);
+        if (entry.isDirectory()) {
+          await walk(file);
+          continue;
+        }
+        if (!entry.isFile() || !entry.name.endsWith('.json') || entry.name === manifestName) continue;
+        try {
+          const filePath = path.join(config.directory, file);
+          const content = await fs.readFile(filePath, 'utf-8');
+          const parsed = JSON.parse(content) as StorageSyncPayload;
+          if (typeof parsed?.id !== 'string') continue;
+          const { mtimeMs } = await fs.stat(filePath);
+          found.push([parsed.id, { file, type: parsed.type, timestamp: Math.floor(mtimeMs), size: Buffer.byteLength(content) }]);
+        } catch (error) {
+          console.warn(`Failed to parse local disk connector entry ${file}`, error);
+        }
+      }
+    };
+    await walk('');
+    return found;
+  }
+
+  const manifest = new DiskManifest(
+    path.join(config.directory, manifestName),
+    path.join(config.directory, journalName),
+    scanDirectory
+  );
+
+  async function locate(recordId: string) {
+    const entry = await manifest.get(recordId);
+    return path.join(config.directory, entry?.file ?? relativePath(recordId));
+  }
+
   return {
     id,
     type: 'local-disk',
@@ -207,62 +427,69 @@ async function createLocalDiskConnector(config: LocalDiskConnectorConfig): Promi
       await ensureDirectory();
     },
     async store(payload) {
-      await ensureDirectory();
-      const filename = `${config.filePrefix ?? 'smartclone'}-${payload.id}.json`;
-      const filePath = path.join(config.directory, filename);
+      const file = relativePath(payload.id);
+      const filePath = path.join(config.directory, file);
+      await fs.mkdir(path.dirname(filePath), { recursive: true });
       const body = JSON.stringify(payload, null, 2);
-      await fs.writeFile(filePath, body, 'utf-8');
+      // Write to a temporary file first so a crash never leaves a truncated payload behind
+      const temporaryPath = `${filePath}.${randomUUID()}.tmp`;
+      await fs.writeFile(temporaryPath, body, 'utf-8');
+      await fs.rename(temporaryPath, filePath);
+
+      const previous = await manifest.get(payload.id);
+      // The write time rather than the record's timestamp, which is older for retried or imported records
+      await manifest.set(payload.id, { file, type: payload.type, timestamp: Date.now(), size: Buffer.byteLength(body) });
+      // Records indexed from an older layout move to their new location
+      if (previous && previous.file !== file) {
+        await fs.unlink(path.join(config.directory, previous.file)).catch(() => undefined);
+      }
       return { success: true, providerId: id, location: filePath };
     },
     async retrieve(reference) {
-      const files = await fs.readdir(config.directory);
-      const target = files.find(file => file.includes(reference.id));
-      if (!target) return null;
-      const filePath = path.join(config.directory, target);
-      const content = await fs.readFile(filePath, 'utf-8');
-      const parsed = JSON.parse(content) as StorageSyncPayload;
+      const parsed = await readPayload(await locate(reference.id));
+      if (!parsed || parsed.id !== reference.id) return null;
       return {
         id: parsed.id,
         type: parsed.type,
         data: parsed.data,
         metadata: parsed.metadata,
         timestamp: parsed.timestamp,
+        keyId: parsed.keyId,
+        version: parsed.version,
+        deleted: parsed.deleted,
+        clock: parsed.clock,
+        hash: parsed.hash,
+        encoding: parsed.encoding,
+        expiresAt: parsed.expiresAt,
+        schemaVersion: parsed.schemaVersion,
         providerId: id,
         raw: parsed
       };
     },
     async list(options = {}) {
-      const entries = await fs.readdir(config.directory, { withFileTypes: true });
-      const files = entries.filter(entry => entry.isFile());
-      const results: StorageListResult['entries'] = [];
-      for (const entry of files) {
-        if (options.prefix && !entry.name.startsWith(options.prefix)) continue;
-        const filePath = path.join(config.directory, entry.name);
-        try {
-          const content = await fs.readFile(filePath, 'utf-8');
-          const parsed = JSON.parse(content) as StorageSyncPayload;
-          results.push({
-            id: parsed.id,
-            providerId: id,
-            type: parsed.type,
-            timestamp: parsed.timestamp,
-            raw: entry
-          });
-        } catch (error) {
-          console.warn(`Failed to parse local disk connector entry ${entry.name}`, error);
-        }
-        if (options.limit && results.length >= options.limit) {
-          break;
-        }
-      }
-      return { entries: results };
+      const { page, nextCursor } = await manifest.page(options);
+      return {
+        entries: page.map(([recordId, entry]) => ({
+          id: recordId,
+          providerId: id,
+          type: entry.type,
+          timestamp: entry.timestamp,
+          size: entry.size,
+          raw: entry
+        })),
+        nextCursor
+      };
     },
     async delete(reference) {
-      const files = await fs.readdir(config.directory);
-      const target = files.find(file => file.includes(reference.id));
-      if (!target) return;
-      const filePath = path.join(config.directory, target);
-      await fs.unlink(filePath);
+      const filePath = await locate(reference.id);
+      try {
+        await fs.unlink(filePath);
+      } catch (error) {
+        if ((error as { code?: string }).code !== 'ENOENT') throw error;
+      }
+      if (await manifest.get(reference.id)) {
+        await manifest.remove(reference.id);
+      }
     }
   } satisfies StorageConnector;
 }
@@ -270,43 +497,96 @@ async function createLocalDiskConnector(config: LocalDiskConnectorConfig): Promi
 async function createOneDriveConnector(config: OneDriveConnectorConfig): Promise<StorageConnector> {
   const id = config.id ?? createConnectorId('onedrive');
   const autoSync = config.autoSync ?? true;
-  const fetchImpl = resolveFetch(config.fetchImplementation);
+  const fetchImpl = createAuthorizedFetch(config, id, 'https://login.microsoftonline.com/common/oauth2/v2.0/token');
+
+  const rootPath = (config.rootPath ?? 'Apps/SmartClone').replace(/(^\/|\/$)/g, '');
+  const driveUrl = config.driveId
+    ? `https://graph.microsoft.com/v1.0/drives/${config.driveId}`
+    : 'https://graph.microsoft.com/v1.0/me/drive';
+
+  function itemUrl(recordId: string) {
+    const encodedPath = [rootPath, `${recordId}.json`].filter(Boolean).join('/');
+    return `${driveUrl}/root:/${encodeURIComponent(encodedPath)}:`;
+  }
+
+  async function uploadInSession(payload: StorageSyncPayload, body: Uint8Array<ArrayBuffer>) {
+    // Upload URLs are pre-authenticated and must not receive the bearer token
+    const sessionFetch = resolveFetch(config.fetchImplementation);
+    const nextOffset = async (response: Response) => {
+      const session = await response.json() as { nextExpectedRanges?: string[] };
+      return Number.parseInt(session.nextExpectedRanges?.[0] ?? '', 10);
+    };
+
+    return runChunkedUpload<{ uploadUrl: string }>({
+      // Graph requires chunks in multiples of 320 KiB
+      granularity: 320 * 1024,
+      async create() {
+        const response = await fetchImpl(`${itemUrl(payload.id)}/createUploadSession`, {
+          method: 'POST',
+          headers: {
+            'Content-Type': 'application/json'
+          },
+          body: JSON.stringify({ item: { '@microsoft.graph.conflictBehavior': 'replace' } })
+        });
+        if (!response.ok) {
+          const errorBody = await response.text();
+          throw new Error(`OneDrive createUploadSession failed: ${response.status} ${errorBody}`);
+        }
+        const session = await response.json() as { uploadUrl: string };
+        return { uploadUrl: session.uploadUrl };
+      },
+      async status(session) {
+        const response = await sessionFetch(session.uploadUrl);
+        if (!response.ok) return null;
+        const offset = await nextOffset(response);
+        return Number.isNaN(offset) ? null : offset;
+      },
+      async write(session, chunk, offset, totalBytes) {
+        const response = await sessionFetch(session.uploadUrl, {
+          method: 'PUT',
+          headers: {
+            'Content-Range': `bytes ${offset}-${offset + chunk.length - 1}/${totalBytes}`
+          },
+          body: chunk
+        });
+        if (response.status === 200 || response.status === 201) {
+          return { offset: totalBytes, done: true, raw: await response.json().catch(() => undefined) };
+        }
+        if (response.status !== 202) {
+          const errorBody = await response.text();
+          throw new Error(`OneDrive chunk upload failed: ${response.status} ${errorBody}`);
+        }
+        const next = await nextOffset(response);
+        return { offset: Number.isNaN(next) ? offset + chunk.length : next };
+      }
+    }, body, { connectorId: id, id: payload.id }, config.chunkedUpload);
+  }
 
   async function upload(payload: StorageSyncPayload) {
-    const fileName = `${payload.id}.json`;
-    const rootPath = (config.rootPath ?? 'Apps/SmartClone').replace(/(^\/|\/$)/g, '');
-    const encodedPath = [rootPath, fileName].filter(Boolean).join('/');
-    const baseUrl = config.driveId
-      ? `https://graph.microsoft.com/v1.0/drives/${config.driveId}/root:/`
-      : 'https://graph.microsoft.com/v1.0/me/drive/root:/';
-    const url = `${baseUrl}${encodeURIComponent(encodedPath)}:/content`;
+    const body = new TextEncoder().encode(JSON.stringify(payload));
+    if (shouldUseChunkedUpload(body.length, config.chunkedUpload)) {
+      return uploadInSession(payload, body);
+    }
+
+    const url = `${itemUrl(payload.id)}/content`;
     const response = await fetchImpl(url, {
       method: 'PUT',
       headers: {
-        Authorization: `Bearer ${config.accessToken}`,
         'Content-Type': 'application/json'
       },
-      body: JSON.stringify(payload)
+      body
     });
     if (!response.ok) {
       const errorBody = await response.text();
       throw new Error(`OneDrive upload failed: ${response.status} ${errorBody}`);
     }
-    return response;
+    return response.json().catch(() => undefined);
   }
 
   async function download(reference: StorageRetrieveReference) {
-    const rootPath = (config.rootPath ?? 'Apps/SmartClone').replace(/(^\/|\/$)/g, '');
-    const encodedPath = [rootPath, `${reference.id}.json`].filter(Boolean).join('/');
-    const baseUrl = config.driveId
-      ? `https://graph.microsoft.com/v1.0/drives/${config.driveId}/root:/`
-      : 'https://graph.microsoft.com/v1.0/me/drive/root:/';
-    const url = `${baseUrl}${encodeURIComponent(encodedPath)}:/content`;
+    const url = `${itemUrl(reference.id)}/content`;
     const response = await fetchImpl(url, {
-      method: 'GET',
-      headers: {
-        Authorization: `Bearer ${config.accessToken}`
-      }
+      method: 'GET'
     });
     if (response.status === 404) {
       return null;
@@ -318,6 +598,51 @@ async function createOneDriveConnector(config: OneDriveConnectorConfig): Promise
     return response.json();
   }
 
+  async function listFolder(options: StorageListOptions): Promise<StorageListResult> {
+    const params = new URLSearchParams({ $select: 'name,size,lastModifiedDateTime,file' });
+    if (options.limit) params.set('$top', String(options.limit));
+    // The cursor is the @odata.nextLink of the previous page
+    const url = options.cursor ?? (rootPath
+      ? `${driveUrl}/root:/${encodeURIComponent(rootPath)}:/children?${params.toString()}`
+      : `${driveUrl}/root/children?${params.toString()}`);
+    const response = await fetchImpl(url);
+    // The folder is only created by the first upload
+    if (response.status === 404) {
+      return { entries: [] };
+    }
+    if (!response.ok) {
+      const errorBody = await response.text();
+      throw new Error(`OneDrive list failed: ${response.status} ${errorBody}`);
+    }
+    const listData = await response.json() as {
+      value?: Array<{ name: string; size?: number; lastModifiedDateTime?: string; file?: unknown }>;
+      '@odata.nextLink'?: string;
+    };
+    const entries: StorageListResult['entries'] = [];
+    for (const item of listData.value ?? []) {
+      const recordId = item.file ? recordIdFromFileName(item.name, options.prefix) : null;
+      if (!recordId) continue;
+      entries.push({
+        id: recordId,
+        providerId: id,
+        timestamp: parseTimestamp(item.lastModifiedDateTime),
+        size: item.size,
+        raw: item
+      });
+    }
+    return { entries, nextCursor: listData['@odata.nextLink'] };
+  }
+
+  async function remove(reference: StorageRetrieveReference) {
+    const response = await fetchImpl(itemUrl(reference.id), {
+      method: 'DELETE'
+    });
+    if (!response.ok && response.status !== 404) {
+      const errorBody = await response.text();
+      throw new Error(`OneDrive delete failed: ${response.status} ${errorBody}`);
+    }
+  }
+
   return {
     id,
     type: 'onedrive',
@@ -326,8 +651,7 @@ async function createOneDriveConnector(config: OneDriveConnectorConfig): Promise
       // No-op. Requests are authenticated per call.
     },
     async store(payload) {
-      const response = await upload(payload);
-      return { success: true, providerId: id, raw: await response.json().catch(() => undefined) };
+      return { success: true, providerId: id, raw: await upload(payload) };
     },
     async retrieve(reference) {
       const downloaded = await download(reference);
@@ -339,25 +663,143 @@ async function createOneDriveConnector(config: OneDriveConnectorConfig): Promise
         data: payload.data,
         metadata: payload.metadata,
         timestamp: payload.timestamp,
+        keyId: payload.keyId,
+        version: payload.version,
+        deleted: payload.deleted,
+        clock: payload.clock,
+        hash: payload.hash,
+        encoding: payload.encoding,
+        expiresAt: payload.expiresAt,
+        schemaVersion: payload.schemaVersion,
         providerId: id,
         raw: downloaded
       };
+    },
+    async list(options = {}) {
+      return listFolder(options);
+    },
+    async delete(reference) {
+      await remove(reference);
     }
   } satisfies StorageConnector;
 }
 
+/**
+ * Quoted string literal for a Google Drive files.list query, with quotes and backslashes escaped.
+ */
+function driveQueryString(value: string): string {
+  return `'${value.replace(/[\\']/g, '\\$&')}'`;
+}
+
 async function createGoogleDriveConnector(config: GoogleDriveConnectorConfig): Promise<StorageConnector> {
   const id = config.id ?? createConnectorId('gdrive');
   const autoSync = config.autoSync ?? true;
-  const fetchImpl = resolveFetch(config.fetchImplementation);
+  const fetchImpl = createAuthorizedFetch(config, id, 'https://oauth2.googleapis.com/token');
+  // Files created without a parent land in the My Drive root, so lookups and listings stay there too
+  const inFolder = ` and ${driveQueryString(config.folderId ?? 'root')} in parents`;
+
+  /**
+   * Received bytes from a 308 response's Range header ("bytes=0-<last>"); none received without one.
+   */
+  function receivedBytes(response: Response) {
+    const range = response.headers.get('range')?.match(/bytes=0-(\d+)/);
+    return range ? Number(range[1]) + 1 : 0;
+  }
+
+  /**
+   * Upload endpoint creating a file, or replacing the content of an existing one.
+   */
+  function uploadEndpoint(uploadType: 'multipart' | 'resumable', fileId?: string) {
+    return {
+      url: `https://www.googleapis.com/upload/drive/v3/files${fileId ? `/${fileId}` : ''}?uploadType=${uploadType}`,
+      method: fileId ? 'PATCH' : 'POST'
+    };
+  }
 
+  async function uploadResumable(
+    payload: StorageSyncPayload,
+    metadata: Record<string, unknown>,
+    body: Uint8Array<ArrayBuffer>,
+    fileId?: string
+  ) {
+    const endpoint = uploadEndpoint('resumable', fileId);
+    return runChunkedUpload<{ uploadUrl: string }>({
+      // Drive requires chunks in multiples of 256 KiB
+      granularity: 256 * 1024,
+      async create(totalBytes) {
+        const response = await fetchImpl(endpoint.url, {
+          method: endpoint.method,
+          headers: {
+            'Content-Type': 'application/json; charset=UTF-8',
+            'X-Upload-Content-Type': 'application/json',
+            'X-Upload-Content-Length': String(totalBytes)
+          },
+          body: JSON.stringify(metadata)
+        });
+        const uploadUrl = response.headers.get('location');
+        if (!response.ok || !uploadUrl) {
+          const errorBody = await response.text();
+          throw new Error(`Google Drive resumable upload failed: ${response.status} ${errorBody}`);
+        }
+        return { uploadUrl };
+      },
+      async status(session, totalBytes) {
+        const response = await fetchImpl(session.uploadUrl, {
+          method: 'PUT',
+          headers: {
+            'Content-Range': `bytes */${totalBytes}`
+          }
+        });
+        if (response.status === 308) return receivedBytes(response);
+        return response.ok ? totalBytes : null;
+      },
+      async write(session, chunk, offset, totalBytes) {
+        const response = await fetchImpl(session.uploadUrl, {
+          method: 'PUT',
+          headers: {
+            'Content-Range': `bytes ${offset}-${offset + chunk.length - 1}/${totalBytes}`
+          },
+          body: chunk
+        });
+        if (response.status === 308) return { offset: receivedBytes(response) };
+        if (!response.ok) {
+          const errorBody = await response.text();
+          throw new Error(`Google Drive chunk upload failed: ${response.status} ${errorBody}`);
+        }
+        return { offset: totalBytes, done: true, raw: await response.json().catch(() => undefined) };
+      }
+    }, body, { connectorId: id, id: payload.id }, config.chunkedUpload);
+  }
+
+  /**
+   * Write a record's file. Drive allows several files with the same name, so an existing file is updated
+   * in place and duplicates left by earlier uploads are removed.
+   */
   async function upload(payload: StorageSyncPayload) {
-    const boundary = `smartclone-${Date.now().toString(36)}`;
+    const [existing, ...duplicates] = await findFiles(payload.id);
+    const raw = await writeFile(payload, existing?.id);
+    for (const duplicate of duplicates) {
+      await fetchImpl(`https://www.googleapis.com/drive/v3/files/${duplicate.id}`, { method: 'DELETE' }).catch(error => {
+        console.warn(`Failed to remove duplicate Google Drive file ${duplicate.id}`, error);
+      });
+    }
+    return raw;
+  }
+
+  async function writeFile(payload: StorageSyncPayload, fileId?: string) {
+    // Parents can only be set when the file is created
     const metadata = {
       name: `${payload.id}.json`,
       mimeType: 'application/json',
-      ...(config.folderId ? { parents: [config.folderId] } : {})
+      ...(config.folderId && !fileId ? { parents: [config.folderId] } : {})
     };
+    const content = JSON.stringify(payload);
+    const contentBytes = new TextEncoder().encode(content);
+    if (shouldUseChunkedUpload(contentBytes.length, config.chunkedUpload)) {
+      return uploadResumable(payload, metadata, contentBytes, fileId);
+    }
+
+    const boundary = `smartclone-${Date.now().toString(36)}`;
     const body = [
       `--${boundary}`,
       'Content-Type: application/json; charset=UTF-8',
@@ -366,15 +808,15 @@ async function createGoogleDriveConnector(config: GoogleDriveConnectorConfig): P
       `--${boundary}`,
       'Content-Type: application/json',
       '',
-      JSON.stringify(payload),
+      content,
       `--${boundary}--`,
       ''
     ].join('\r\n');
 
-    const response = await fetchImpl('https://www.googleapis.com/upload/drive/v3/files?uploadType=multipart', {
-      method: 'POST',
+    const endpoint = uploadEndpoint('multipart', fileId);
+    const response = await fetchImpl(endpoint.url, {
+      method: endpoint.method,
       headers: {
-        Authorization: `Bearer ${config.accessToken}`,
         'Content-Type': `multipart/related; boundary=${boundary}`
       },
       body
@@ -385,29 +827,40 @@ async function createGoogleDriveConnector(config: GoogleDriveConnectorConfig): P
       throw new Error(`Google Drive upload failed: ${response.status} ${errorBody}`);
     }
 
-    return response;
+    return response.json().catch(() => undefined);
   }
 
-  async function download(reference: StorageRetrieveReference) {
-    const query = encodeURIComponent(`name='${reference.id}.json'` + (config.folderId ? ` and '${config.folderId}' in parents` : ''));
-    const listResponse = await fetchImpl(`https://www.googleapis.com/drive/v3/files?q=${query}&fields=files(id,name)`, {
-      headers: {
-        Authorization: `Bearer ${config.accessToken}`
-      }
-    });
+  async function listFiles(query: string, fields: string, pageSize?: number, pageToken?: string, orderBy?: string) {
+    const params = new URLSearchParams({ q: query, fields });
+    if (pageSize) params.set('pageSize', String(pageSize));
+    if (pageToken) params.set('pageToken', pageToken);
+    if (orderBy) params.set('orderBy', orderBy);
+    const listResponse = await fetchImpl(`https://www.googleapis.com/drive/v3/files?${params.toString()}`);
     if (!listResponse.ok) {
       const errorBody = await listResponse.text();
       throw new Error(`Google Drive list failed: ${listResponse.status} ${errorBody}`);
     }
-    const listData = await listResponse.json() as { files?: Array<{ id: string }> };
-    const fileId = listData.files?.[0]?.id;
+    return listResponse.json() as Promise<{
+      files?: Array<{ id: string; name: string; size?: string; modifiedTime?: string }>;
+      nextPageToken?: string;
+    }>;
+  }
+
+  /**
+   * Files holding a record, most recently modified first. Uploads before in-place updates created a new
+   * file each time, so there may be several.
+   */
+  async function findFiles(recordId: string) {
+    const query = `name=${driveQueryString(`${recordId}.json`)} and trashed=false${inFolder}`;
+    const listData = await listFiles(query, 'files(id,name)', undefined, undefined, 'modifiedTime desc');
+    return listData.files ?? [];
+  }
+
+  async function download(reference: StorageRetrieveReference) {
+    const fileId = (await findFiles(reference.id))[0]?.id;
     if (!fileId) return null;
 
-    const downloadResponse = await fetchImpl(`https://www.googleapis.com/drive/v3/files/${fileId}?alt=media`, {
-      headers: {
-        Authorization: `Bearer ${config.accessToken}`
-      }
-    });
+    const downloadResponse = await fetchImpl(`https://www.googleapis.com/drive/v3/files/${fileId}?alt=media`);
     if (!downloadResponse.ok) {
       const errorBody = await downloadResponse.text();
       throw new Error(`Google Drive download failed: ${downloadResponse.status} ${errorBody}`);
@@ -415,6 +868,36 @@ async function createGoogleDriveConnector(config: GoogleDriveConnectorConfig): P
     return downloadResponse.json();
   }
 
+  async function listFolder(options: StorageListOptions): Promise<StorageListResult> {
+    const query = `mimeType='application/json' and trashed=false${inFolder}`;
+    const listData = await listFiles(query, 'nextPageToken,files(id,name,size,modifiedTime)', options.limit, options.cursor);
+    const entries: StorageListResult['entries'] = [];
+    for (const file of listData.files ?? []) {
+      const recordId = recordIdFromFileName(file.name, options.prefix);
+      if (!recordId) continue;
+      entries.push({
+        id: recordId,
+        providerId: id,
+        timestamp: parseTimestamp(file.modifiedTime),
+        size: file.size !== undefined ? Number(file.size) : undefined,
+        raw: file
+      });
+    }
+    return { entries, nextCursor: listData.nextPageToken };
+  }
+
+  async function remove(reference: StorageRetrieveReference) {
+    for (const file of await findFiles(reference.id)) {
+      const response = await fetchImpl(`https://www.googleapis.com/drive/v3/files/${file.id}`, {
+        method: 'DELETE'
+      });
+      if (!response.ok && response.status !== 404) {
+        const errorBody = await response.text();
+        throw new Error(`Google Drive delete failed: ${response.status} ${errorBody}`);
+      }
+    }
+  }
+
   return {
     id,
     type: 'googledrive',
@@ -423,8 +906,7 @@ async function createGoogleDriveConnector(config: GoogleDriveConnectorConfig): P
       // No specific initialization required beyond verifying credentials during first call.
     },
     async store(payload) {
-      const response = await upload(payload);
-      return { success: true, providerId: id, raw: await response.json().catch(() => undefined) };
+      return { success: true, providerId: id, raw: await upload(payload) };
     },
     async retrieve(reference) {
       const downloaded = await download(reference);
@@ -436,17 +918,42 @@ async function createGoogleDriveConnector(config: GoogleDriveConnectorConfig): P
         data: payload.data,
         metadata: payload.metadata,
         timestamp: payload.timestamp,
+        keyId: payload.keyId,
+        version: payload.version,
+        deleted: payload.deleted,
+        clock: payload.clock,
+        hash: payload.hash,
+        encoding: payload.encoding,
+        expiresAt: payload.expiresAt,
+        schemaVersion: payload.schemaVersion,
         providerId: id,
         raw: downloaded
       };
+    },
+    async list(options = {}) {
+      return listFolder(options);
+    },
+    async delete(reference) {
+      await remove(reference);
     }
   } satisfies StorageConnector;
 }
 
+// pCloud reports errors in the response body with HTTP 200
+const PCLOUD_DIRECTORY_NOT_FOUND = 2005;
+const PCLOUD_FILE_NOT_FOUND = 2009;
+// "Log in required", "Log in failed" and "Invalid access_token"
+const PCLOUD_AUTH_ERRORS = [1000, 2000, 2094];
+
 async function createPCloudConnector(config: PCloudConnectorConfig): Promise<StorageConnector> {
   const id = config.id ?? createConnectorId('pcloud');
   const autoSync = config.autoSync ?? true;
-  const fetchImpl = resolveFetch(config.fetchImplementation);
+  // pCloud has no refresh grant; expired tokens are replaced through tokenProvider
+  const fetchImpl = createAuthorizedFetch(config, id, undefined, async response => {
+    if (!response.headers.get('content-type')?.includes('json')) return false;
+    const body = await response.clone().json().catch(() => null) as { result?: number } | null;
+    return body?.result !== undefined && PCLOUD_AUTH_ERRORS.includes(body.result);
+  });
   const apiHost = (config.apiHost ?? 'https://api.pcloud.com').replace(/\/$/, '');
 
   function buildUploadUrl(fileName: string) {
@@ -460,28 +967,85 @@ async function createPCloudConnector(config: PCloudConnectorConfig): Promise<Sto
     return `${apiHost}/uploadfile?${params.toString()}`;
   }
 
+  /**
+   * Read a pCloud response body. Failures arrive with HTTP 200 and a non-zero result code.
+   */
+  async function readResult(method: string, response: Response) {
+    if (!response.ok) {
+      const errorBody = await response.text();
+      throw new Error(`pCloud ${method} failed: ${response.status} ${errorBody}`);
+    }
+    return await response.json() as { result: number; error?: string; [key: string]: any };
+  }
+
+  function assertResult<T extends { result: number; error?: string }>(method: string, result: T): T {
+    if (result.result !== 0) {
+      throw new Error(`pCloud ${method} failed: ${result.result} ${result.error ?? ''}`);
+    }
+    return result;
+  }
+
+  /**
+   * Call a pCloud method and check the result code, which pCloud reports in the body.
+   */
+  async function call(method: string, params: Record<string, string>, init?: RequestInit) {
+    const response = await fetchImpl(`${apiHost}/${method}?${new URLSearchParams(params).toString()}`, init);
+    return assertResult(method, await readResult(method, response));
+  }
+
+  async function uploadInChunks(payload: StorageSyncPayload, body: Uint8Array<ArrayBuffer>) {
+    return runChunkedUpload<{ uploadId: string }>({
+      async create() {
+        const created = await call('upload_create', {});
+        return { uploadId: String(created.uploadid) };
+      },
+      async status(session) {
+        const info = await call('upload_info', { uploadid: session.uploadId }).catch(() => null);
+        return info ? Number(info.size) : null;
+      },
+      async write(session, chunk, offset) {
+        await call('upload_write', { uploadid: session.uploadId, uploadoffset: String(offset) }, {
+          method: 'PUT',
+          body: chunk
+        });
+        return { offset: offset + chunk.length };
+      },
+      async finish(session) {
+        return call('upload_save', {
+          uploadid: session.uploadId,
+          name: `${payload.id}.json`,
+          ...(config.folderPath ? { path: config.folderPath } : { folderid: '0' })
+        });
+      }
+    }, body, { connectorId: id, id: payload.id }, config.chunkedUpload);
+  }
+
   async function upload(payload: StorageSyncPayload) {
+    const content = JSON.stringify(payload);
+    const contentBytes = new TextEncoder().encode(content);
+    if (shouldUseChunkedUpload(contentBytes.length, config.chunkedUpload)) {
+      return uploadInChunks(payload, contentBytes);
+    }
+
     if (typeof FormData === 'undefined' || typeof Blob === 'undefined') {
       throw new Error('FormData and Blob globals are required for pCloud connector uploads.');
     }
     const form = new FormData();
-    const blob = new Blob([JSON.stringify(payload)], { type: 'application/json' });
+    const blob = new Blob([content], { type: 'application/json' });
     form.append('file', blob, `${payload.id}.json`);
 
-    const response = await fetchImpl(buildUploadUrl(`${payload.id}.json`), {
+    const send = async () => readResult('uploadfile', await fetchImpl(buildUploadUrl(`${payload.id}.json`), {
       method: 'POST',
-      headers: {
-        Authorization: `Bearer ${config.accessToken}`
-      },
       body: form
-    });
+    }));
 
-    if (!response.ok) {
-      const errorBody = await response.text();
-      throw new Error(`pCloud upload failed: ${response.status} ${errorBody}`);
+    let result = await send();
+    // uploadfile does not create the folder
+    if (result.result === PCLOUD_DIRECTORY_NOT_FOUND && config.folderPath) {
+      await call('createfolderifnotexists', { path: config.folderPath });
+      result = await send();
     }
-
-    return response;
+    return assertResult('uploadfile', result);
   }
 
   async function download(reference: StorageRetrieveReference) {
@@ -489,27 +1053,18 @@ async function createPCloudConnector(config: PCloudConnectorConfig): Promise<Sto
       path: `${config.folderPath ?? ''}/${reference.id}.json`,
       checkfilename: '1'
     });
-    const url = `${apiHost}/getfilelink?${params.toString()}`;
-    const linkResponse = await fetchImpl(url, {
-      headers: {
-        Authorization: `Bearer ${config.accessToken}`
-      }
-    });
-    if (!linkResponse.ok) {
-      if (linkResponse.status === 404) return null;
-      const errorBody = await linkResponse.text();
-      throw new Error(`pCloud getfilelink failed: ${linkResponse.status} ${errorBody}`);
-    }
-    const linkData = await linkResponse.json() as { hosts?: string[]; path?: string };
-    if (!linkData.hosts || !linkData.hosts.length || !linkData.path) {
+    const linkResponse = await fetchImpl(`${apiHost}/getfilelink?${params.toString()}`);
+    if (linkResponse.status === 404) return null;
+    const linkData = await readResult('getfilelink', linkResponse);
+    if (linkData.result === PCLOUD_FILE_NOT_FOUND || linkData.result === PCLOUD_DIRECTORY_NOT_FOUND) {
       return null;
     }
+    assertResult('getfilelink', linkData);
+    if (!linkData.hosts?.length || !linkData.path) {
+      throw new Error('pCloud getfilelink failed: the response holds no download link');
+    }
     const downloadUrl = `https://${linkData.hosts[0]}${linkData.path}`;
-    const downloadResponse = await fetchImpl(downloadUrl, {
-      headers: {
-        Authorization: `Bearer ${config.accessToken}`
-      }
-    });
+    const downloadResponse = await fetchImpl(downloadUrl);
     if (!downloadResponse.ok) {
       const errorBody = await downloadResponse.text();
       throw new Error(`pCloud download failed: ${downloadResponse.status} ${errorBody}`);
@@ -517,6 +1072,56 @@ async function createPCloudConnector(config: PCloudConnectorConfig): Promise<Sto
     return downloadResponse.json();
   }
 
+  async function listFolder(options: StorageListOptions): Promise<StorageListResult> {
+    const params = new URLSearchParams({ path: config.folderPath || '/' });
+    const response = await fetchImpl(`${apiHost}/listfolder?${params.toString()}`);
+    if (!response.ok) {
+      const errorBody = await response.text();
+      throw new Error(`pCloud listfolder failed: ${response.status} ${errorBody}`);
+    }
+    const listData = await response.json() as {
+      result: number;
+      error?: string;
+      metadata?: { contents?: Array<{ name: string; isfolder?: boolean; size?: number; modified?: string }> };
+    };
+    // The folder is only created by the first upload
+    if (listData.result === PCLOUD_DIRECTORY_NOT_FOUND) {
+      return { entries: [] };
+    }
+    if (listData.result !== 0) {
+      throw new Error(`pCloud listfolder failed: ${listData.result} ${listData.error ?? ''}`);
+    }
+
+    const files = (listData.metadata?.contents ?? [])
+      .filter(item => !item.isfolder && recordIdFromFileName(item.name, options.prefix))
+      .sort((a, b) => (a.name < b.name ? -1 : a.name > b.name ? 1 : 0));
+    // listfolder returns the whole folder at once
+    const { page, nextCursor } = pageByOffset(files, options);
+    return {
+      entries: page.map(item => ({
+        id: recordIdFromFileName(item.name)!,
+        providerId: id,
+        timestamp: parseTimestamp(item.modified),
+        size: item.size,
+        raw: item
+      })),
+      nextCursor
+    };
+  }
+
+  async function remove(reference: StorageRetrieveReference) {
+    const params = new URLSearchParams({ path: `${config.folderPath ?? ''}/${reference.id}.json` });
+    const response = await fetchImpl(`${apiHost}/deletefile?${params.toString()}`);
+    if (!response.ok) {
+      const errorBody = await response.text();
+      throw new Error(`pCloud deletefile failed: ${response.status} ${errorBody}`);
+    }
+    const result = await response.json() as { result: number; error?: string };
+    if (result.result !== 0 && result.result !== PCLOUD_FILE_NOT_FOUND && result.result !== PCLOUD_DIRECTORY_NOT_FOUND) {
+      throw new Error(`pCloud deletefile failed: ${result.result} ${result.error ?? ''}`);
+    }
+  }
+
   return {
     id,
     type: 'pcloud',
@@ -525,8 +1130,7 @@ async function createPCloudConnector(config: PCloudConnectorConfig): Promise<Sto
       // No initialization. Requests validate credentials on demand.
     },
     async store(payload) {
-      const response = await upload(payload);
-      return { success: true, providerId: id, raw: await response.json().catch(() => undefined) };
+      return { success: true, providerId: id, raw: await upload(payload) };
     },
     async retrieve(reference) {
       const downloaded = await download(reference);
@@ -538,9 +1142,459 @@ async function createPCloudConnector(config: PCloudConnectorConfig): Promise<Sto
         data: payload.data,
         metadata: payload.metadata,
         timestamp: payload.timestamp,
+        keyId: payload.keyId,
+        version: payload.version,
+        deleted: payload.deleted,
+        clock: payload.clock,
+        hash: payload.hash,
+        encoding: payload.encoding,
+        expiresAt: payload.expiresAt,
+        schemaVersion: payload.schemaVersion,
         providerId: id,
         raw: downloaded
       };
+    },
+    async list(options = {}) {
+      return listFolder(options);
+    },
+    async delete(reference) {
+      await remove(reference);
+    }
+  } satisfies StorageConnector;
+}
+
+/**
+ * Dropbox-API-Arg header value: JSON with every non-ASCII character escaped, as HTTP headers require.
+ */
+function dropboxApiArg(argument: unknown): string {
+  return JSON.stringify(argument).replace(/[\u007f-\uffff]/g, character =>
+    `\\u${character.charCodeAt(0).toString(16).padStart(4, '0')}`
+  );
+}
+
+async function createDropboxConnector(config: DropboxConnectorConfig): Promise<StorageConnector> {
+  const id = config.id ?? createConnectorId('dropbox');
+  const autoSync = config.autoSync ?? true;
+  const fetchImpl = createAuthorizedFetch(config, id, 'https://api.dropboxapi.com/oauth2/token');
+  const rootPath = (config.rootPath ?? 'SmartClone').replace(/(^\/|\/$)/g, '');
+  // Dropbox addresses the root folder as the empty path
+  const folderPath = rootPath ? `/${rootPath}` : '';
+
+  function filePath(recordId: string) {
+    return `${folderPath}/${recordId}.json`;
+  }
+
+  /**
+   * Dropbox reports a missing path as 409 with a "not_found" error summary.
+   */
+  async function isNotFound(response: Response) {
+    if (response.status !== 409) return false;
+    const errorBody = await response.clone().json().catch(() => null) as { error_summary?: string } | null;
+    return !!errorBody?.error_summary?.includes('not_found');
+  }
+
+  async function rpc(endpoint: string, argument: unknown) {
+    return fetchImpl(`https://api.dropboxapi.com/2/files/${endpoint}`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json'
+      },
+      body: JSON.stringify(argument)
+    });
+  }
+
+  async function listFolder(options: StorageListOptions): Promise<StorageListResult> {
+    const response = options.cursor
+      ? await rpc('list_folder/continue', { cursor: options.cursor })
+      : await rpc('list_folder', { path: folderPath, ...(options.limit ? { limit: options.limit } : {}) });
+    // The folder is only created by the first upload
+    if (await isNotFound(response)) {
+      return { entries: [] };
+    }
+    if (!response.ok) {
+      const errorBody = await response.text();
+      throw new Error(`Dropbox list_folder failed: ${response.status} ${errorBody}`);
+    }
+    const listData = await response.json() as {
+      entries?: Array<{ '.tag': string; name: string; size?: number; server_modified?: string }>;
+      cursor?: string;
+      has_more?: boolean;
+    };
+    const entries: StorageListResult['entries'] = [];
+    for (const item of listData.entries ?? []) {
+      const recordId = item['.tag'] === 'file' ? recordIdFromFileName(item.name, options.prefix) : null;
+      if (!recordId) continue;
+      entries.push({
+        id: recordId,
+        providerId: id,
+        timestamp: parseTimestamp(item.server_modified),
+        size: item.size,
+        raw: item
+      });
+    }
+    return { entries, nextCursor: listData.has_more ? listData.cursor : undefined };
+  }
+
+  return {
+    id,
+    type: 'dropbox',
+    autoSync,
+    async initialize() {
+      // No-op. Requests are authenticated per call.
+    },
+    async store(payload) {
+      const response = await fetchImpl('https://content.dropboxapi.com/2/files/upload', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/octet-stream',
+          'Dropbox-API-Arg': dropboxApiArg({ path: filePath(payload.id), mode: 'overwrite', mute: true })
+        },
+        body: JSON.stringify(payload)
+      });
+      if (!response.ok) {
+        const errorBody = await response.text();
+        throw new Error(`Dropbox upload failed: ${response.status} ${errorBody}`);
+      }
+      return { success: true, providerId: id, location: filePath(payload.id), raw: await response.json().catch(() => undefined) };
+    },
+    async retrieve(reference) {
+      const response = await fetchImpl('https://content.dropboxapi.com/2/files/download', {
+        method: 'POST',
+        headers: {
+          'Dropbox-API-Arg': dropboxApiArg({ path: filePath(reference.id) })
+        }
+      });
+      if (await isNotFound(response)) return null;
+      if (!response.ok) {
+        const errorBody = await response.text();
+        throw new Error(`Dropbox download failed: ${response.status} ${errorBody}`);
+      }
+      const payload = await response.json() as StorageSyncPayload;
+      return {
+        id: payload.id,
+        type: payload.type,
+        data: payload.data,
+        metadata: payload.metadata,
+        timestamp: payload.timestamp,
+        keyId: payload.keyId,
+        version: payload.version,
+        deleted: payload.deleted,
+        clock: payload.clock,
+        hash: payload.hash,
+        encoding: payload.encoding,
+        expiresAt: payload.expiresAt,
+        schemaVersion: payload.schemaVersion,
+        providerId: id,
+        raw: payload
+      };
+    },
+    async list(options = {}) {
+      return listFolder(options);
+    },
+    async delete(reference) {
+      const response = await rpc('delete_v2', { path: filePath(reference.id) });
+      if (!response.ok && !(await isNotFound(response))) {
+        const errorBody = await response.text();
+        throw new Error(`Dropbox delete failed: ${response.status} ${errorBody}`);
+      }
+    }
+  } satisfies StorageConnector;
+}
+
+function decodeXmlEntities(value: string): string {
+  return value
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&#(\d+);/g, (_, code) => String.fromCharCode(Number(code)))
+    .replace(/&amp;/g, '&');
+}
+
+/**
+ * Contents of every element with the given local name, whatever its namespace prefix.
+ */
+function xmlValues(xml: string, tag: string): string[] {
+  const pattern = new RegExp(`<(?:[\\w.-]+:)?${tag}(?:\\s[^>]*)?>([\\s\\S]*?)</(?:[\\w.-]+:)?${tag}>`, 'g');
+  return Array.from(xml.matchAll(pattern), match => match[1]);
+}
+
+async function createS3Connector(config: S3ConnectorConfig): Promise<StorageConnector> {
+  const id = config.id ?? createConnectorId('s3');
+  const autoSync = config.autoSync ?? true;
+  const fetchImpl = resolveFetch(config.fetchImplementation);
+  const region = config.region ?? 'us-east-1';
+  const endpoint = new URL(config.endpoint ?? `https://s3.${region}.amazonaws.com`);
+  const keyPrefix = (config.prefix ?? 'smartclone/').replace(/^\/+/, '');
+  const bucketUrl = config.forcePathStyle
+    ? `${endpoint.origin}${endpoint.pathname.replace(/\/$/, '')}/${encodeRfc3986(config.bucket)}`
+    : `${endpoint.protocol}//${config.bucket}.${endpoint.host}${endpoint.pathname.replace(/\/$/, '')}`;
+
+  function objectKey(recordId: string) {
+    return `${keyPrefix}${recordId}.json`;
+  }
+
+  function objectUrl(key: string) {
+    return `${bucketUrl}/${key.split('/').map(encodeRfc3986).join('/')}`;
+  }
+
+  async function send(method: string, url: string, body?: string, headers: Record<string, string> = {}) {
+    const signedHeaders = await signRequest({
+      method,
+      url,
+      headers,
+      body,
+      region,
+      credentials: config
+    });
+    return fetchImpl(url, { method, headers: signedHeaders, body });
+  }
+
+  async function listObjects(options: StorageListOptions): Promise<StorageListResult> {
+    const listPrefix = `${keyPrefix}${options.prefix ?? ''}`;
+    const params = new URLSearchParams({ 'list-type': '2', prefix: listPrefix });
+    if (options.limit) params.set('max-keys', String(options.limit));
+    if (options.cursor) params.set('continuation-token', options.cursor);
+    const response = await send('GET', `${bucketUrl}/?${params.toString()}`);
+    if (!response.ok) {
+      const errorBody = await response.text();
+      throw new Error(`S3 list failed: ${response.status} ${errorBody}`);
+    }
+
+    const xml = await response.text();
+    const entries: StorageListResult['entries'] = [];
+    for (const object of xmlValues(xml, 'Contents')) {
+      const key = decodeXmlEntities(xmlValues(object, 'Key')[0] ?? '');
+      const recordId = recordIdFromFileName(key.slice(keyPrefix.length));
+      // Keys in nested "folders" below the prefix are not payloads
+      if (!recordId || recordId.includes('/')) continue;
+      const size = xmlValues(object, 'Size')[0];
+      entries.push({
+        id: recordId,
+        providerId: id,
+        timestamp: parseTimestamp(xmlValues(object, 'LastModified')[0]),
+        size: size !== undefined ? Number(size) : undefined,
+        raw: { key, etag: decodeXmlEntities(xmlValues(object, 'ETag')[0] ?? '') }
+      });
+    }
+    const truncated = xmlValues(xml, 'IsTruncated')[0] === 'true';
+    const nextToken = xmlValues(xml, 'NextContinuationToken')[0];
+    return { entries, nextCursor: truncated && nextToken ? decodeXmlEntities(nextToken) : undefined };
+  }
+
+  return {
+    id,
+    type: 's3',
+    autoSync,
+    async initialize() {
+      // No-op. Requests are signed per call.
+    },
+    async store(payload) {
+      const key = objectKey(payload.id);
+      const response = await send('PUT', objectUrl(key), JSON.stringify(payload), { 'content-type': 'application/json' });
+      if (!response.ok) {
+        const errorBody = await response.text();
+        throw new Error(`S3 upload failed: ${response.status} ${errorBody}`);
+      }
+      return { success: true, providerId: id, location: `s3://${config.bucket}/${key}`, raw: { etag: response.headers.get('etag') } };
+    },
+    async retrieve(reference) {
+      const response = await send('GET', objectUrl(objectKey(reference.id)));
+      if (response.status === 404) return null;
+      if (!response.ok) {
+        const errorBody = await response.text();
+        throw new Error(`S3 download failed: ${response.status} ${errorBody}`);
+      }
+      const payload = await response.json() as StorageSyncPayload;
+      return {
+        id: payload.id,
+        type: payload.type,
+        data: payload.data,
+        metadata: payload.metadata,
+        timestamp: payload.timestamp,
+        keyId: payload.keyId,
+        version: payload.version,
+        deleted: payload.deleted,
+        clock: payload.clock,
+        hash: payload.hash,
+        encoding: payload.encoding,
+        expiresAt: payload.expiresAt,
+        schemaVersion: payload.schemaVersion,
+        providerId: id,
+        raw: payload
+      };
+    },
+    async list(options = {}) {
+      return listObjects(options);
+    },
+    async delete(reference) {
+      // S3 answers 204 whether or not the object existed
+      const response = await send('DELETE', objectUrl(objectKey(reference.id)));
+      if (!response.ok && response.status !== 404) {
+        const errorBody = await response.text();
+        throw new Error(`S3 delete failed: ${response.status} ${errorBody}`);
+      }
+    }
+  } satisfies StorageConnector;
+}
+
+const PROPFIND_BODY = '<?xml version="1.0" encoding="utf-8"?>'
+  + '<d:propfind xmlns:d="DAV:"><d:prop><d:getlastmodified/><d:getcontentlength/><d:resourcetype/></d:prop></d:propfind>';
+
+async function createWebDAVConnector(config: WebDAVConnectorConfig): Promise<StorageConnector> {
+  const id = config.id ?? createConnectorId('webdav');
+  const autoSync = config.autoSync ?? true;
+  const rootSegments = (config.rootPath ?? 'SmartClone').split('/').filter(Boolean);
+  const baseUrl = config.url.replace(/\/$/, '');
+  const collectionUrl = [baseUrl, ...rootSegments.map(encodeURIComponent)].join('/');
+  let collectionReady: Promise<void> | null = null;
+
+  let fetchImpl: (url: string, init?: RequestInit) => Promise<Response>;
+  if (config.username !== undefined) {
+    const basicFetch = resolveFetch(config.fetchImplementation);
+    const credentials = bytesToBase64(new TextEncoder().encode(`${config.username}:${config.password ?? ''}`));
+    fetchImpl = (url, init = {}) => {
+      const headers = new Headers(init.headers);
+      headers.set('Authorization', `Basic ${credentials}`);
+      return basicFetch(url, { ...init, headers });
+    };
+  } else {
+    fetchImpl = createAuthorizedFetch(config, id);
+  }
+
+  function fileUrl(recordId: string) {
+    return `${collectionUrl}/${encodeURIComponent(`${recordId}.json`)}`;
+  }
+
+  /**
+   * Create the root collection and its parents. MKCOL answers 405 for collections that already exist.
+   */
+  function ensureCollection() {
+    if (!collectionReady) {
+      collectionReady = (async () => {
+        let url = baseUrl;
+        for (const segment of rootSegments) {
+          url = `${url}/${encodeURIComponent(segment)}`;
+          const response = await fetchImpl(url, { method: 'MKCOL' });
+          if (!response.ok && response.status !== 405) {
+            const errorBody = await response.text();
+            throw new Error(`WebDAV MKCOL failed: ${response.status} ${errorBody}`);
+          }
+        }
+      })().catch(error => {
+        collectionReady = null;
+        throw error;
+      });
+    }
+    return collectionReady;
+  }
+
+  async function upload(payload: StorageSyncPayload) {
+    const put = () => fetchImpl(fileUrl(payload.id), {
+      method: 'PUT',
+      headers: {
+        'Content-Type': 'application/json'
+      },
+      body: JSON.stringify(payload)
+    });
+    let response = await put();
+    // 409 Conflict: a parent collection is missing
+    if (response.status === 409) {
+      await ensureCollection();
+      response = await put();
+    }
+    if (!response.ok) {
+      const errorBody = await response.text();
+      throw new Error(`WebDAV upload failed: ${response.status} ${errorBody}`);
+    }
+    return response;
+  }
+
+  async function listCollection(options: StorageListOptions): Promise<StorageListResult> {
+    const response = await fetchImpl(`${collectionUrl}/`, {
+      method: 'PROPFIND',
+      headers: {
+        Depth: '1',
+        'Content-Type': 'application/xml; charset=utf-8'
+      },
+      body: PROPFIND_BODY
+    });
+    // The collection is only created by the first upload
+    if (response.status === 404) {
+      return { entries: [] };
+    }
+    if (!response.ok) {
+      const errorBody = await response.text();
+      throw new Error(`WebDAV PROPFIND failed: ${response.status} ${errorBody}`);
+    }
+
+    const files: Array<StorageListResult['entries'][number]> = [];
+    for (const item of xmlValues(await response.text(), 'response')) {
+      if (/<(?:[\w.-]+:)?collection\b/.test(item)) continue;
+      const href = decodeXmlEntities(xmlValues(item, 'href')[0] ?? '').replace(/\/$/, '');
+      const recordId = recordIdFromFileName(decodeURIComponent(href.slice(href.lastIndexOf('/') + 1)), options.prefix);
+      if (!recordId) continue;
+      const size = xmlValues(item, 'getcontentlength')[0];
+      files.push({
+        id: recordId,
+        providerId: id,
+        timestamp: parseTimestamp(xmlValues(item, 'getlastmodified')[0]),
+        size: size !== undefined ? Number(size) : undefined,
+        raw: { href }
+      });
+    }
+    files.sort((a, b) => (a.id < b.id ? -1 : a.id > b.id ? 1 : 0));
+    // PROPFIND returns the whole collection at once
+    const { page, nextCursor } = pageByOffset(files, options);
+    return { entries: page, nextCursor };
+  }
+
+  return {
+    id,
+    type: 'webdav',
+    autoSync,
+    async initialize() {
+      // No-op. Collections are created on the first upload that needs them.
+    },
+    async store(payload) {
+      const response = await upload(payload);
+      return { success: true, providerId: id, location: fileUrl(payload.id), raw: { etag: response.headers.get('etag') } };
+    },
+    async retrieve(reference) {
+      const response = await fetchImpl(fileUrl(reference.id), { method: 'GET' });
+      if (response.status === 404) return null;
+      if (!response.ok) {
+        const errorBody = await response.text();
+        throw new Error(`WebDAV download failed: ${response.status} ${errorBody}`);
+      }
+      const payload = await response.json() as StorageSyncPayload;
+      return {
+        id: payload.id,
+        type: payload.type,
+        data: payload.data,
+        metadata: payload.metadata,
+        timestamp: payload.timestamp,
+        keyId: payload.keyId,
+        version: payload.version,
+        deleted: payload.deleted,
+        clock: payload.clock,
+        hash: payload.hash,
+        encoding: payload.encoding,
+        expiresAt: payload.expiresAt,
+        schemaVersion: payload.schemaVersion,
+        providerId: id,
+        raw: payload
+      };
+    },
+    async list(options = {}) {
+      return listCollection(options);
+    },
+    async delete(reference) {
+      const response = await fetchImpl(fileUrl(reference.id), { method: 'DELETE' });
+      if (!response.ok && response.status !== 404) {
+        const errorBody = await response.text();
+        throw new Error(`WebDAV delete failed: ${response.status} ${errorBody}`);
+      }
     }
   } satisfies StorageConnector;
 }
@@ -569,6 +1623,15 @@ export async function buildConnectors(configs: StorageConnectorConfig[] = []): P
       case 'pcloud':
         connectors.push(await createPCloudConnector(config));
         break;
+      case 'dropbox':
+        connectors.push(await createDropboxConnector(config));
+        break;
+      case 's3':
+        connectors.push(await createS3Connector(config));
+        break;
+      case 'webdav':
+        connectors.push(await createWebDAVConnector(config));
+        break;
       case 'custom':
         connectors.push(await createCustomConnector(config));
         break;
@@ -588,6 +1651,20 @@ export interface ConnectorSyncResult {
   error?: unknown;
   location?: string;
   raw?: unknown;
+  /** Set when a tombstone was written in place of the record. */
+  tombstone?: boolean;
+}
+
+/**
+ * Connectors an operation goes to: the given targets, or every auto-sync connector.
+ */
+export function selectConnectors(connectors: StorageConnector[], targets?: string[]): StorageConnector[] {
+  return connectors.filter(connector => {
+    if (targets && targets.length > 0) {
+      return targets.includes(connector.id);
+    }
+    return connector.autoSync;
+  });
 }
 
 export async function syncPayloadAcrossConnectors(
@@ -597,13 +1674,7 @@ export async function syncPayloadAcrossConnectors(
 ): Promise<ConnectorSyncResult[]> {
   if (!connectors.length) return [];
 
-  const operations = connectors
-    .filter(connector => {
-      if (targets && targets.length > 0) {
-        return targets.includes(connector.id);
-      }
-      return connector.autoSync;
-    })
+  const operations = selectConnectors(connectors, targets)
     .map(async connector => {
       try {
         const result = await connector.store(payload);
@@ -625,3 +1696,38 @@ export async function syncPayloadAcrossConnectors(
 
   return Promise.all(operations);
 }
+
+/**
+ * Delete a record from connectors by writing a tombstone payload in its place. The files are not removed,
+ * so replicas pulling from the connector see the deletion.
+ */
+export async function deletePayloadAcrossConnectors(
+  tombstone: Pick<StorageSyncPayload, 'id' | 'type' | 'timestamp' | 'version' | 'clock'>,
+  connectors: StorageConnector[],
+  targets?: string[]
+): Promise<ConnectorSyncResult[]> {
+  if (!connectors.length) return [];
+
+  const operations = selectConnectors(connectors, targets)
+    .map(async connector => {
+      try {
+        const result = await connector.store({ ...tombstone, data: null, metadata: {}, deleted: true });
+        return {
+          providerId: connector.id,
+          success: result.success,
+          error: result.error,
+          location: result.location,
+          raw: result.raw,
+          tombstone: true
+        } satisfies ConnectorSyncResult;
+      } catch (error) {
+        return {
+          providerId: connector.id,
+          success: false,
+          error
+        } satisfies ConnectorSyncResult;
+      }
+    });
+
+  return Promise.all(operations);
+}
@@ -0,0 +1,117 @@
+/*
+ * Copyright 2025 SmartClone Contributors
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { computeContentHash } from './conflictResolution';
+import {
+  ArchiveIntegrityError,
+  createArchiveSalt,
+  createArchiveWriter,
+  deriveArchivePassphraseKey,
+  readArchiveItems,
+  replayableSource,
+  verifyArchive,
+  type ArchiveAuthentication,
+  type ArchiveLine
+} from './storeArchive';
+
+const header: ArchiveLine = { kind: 'header', format: 'smartclone-archive', v: 1, createdAt: 1, encryptionLevel: 'full' };
+
+async function writeArchive(lines: ArchiveLine[], authentication?: { auth: ArchiveAuthentication; key: CryptoKey }) {
+  let text = '';
+  const writer = createArchiveWriter(chunk => {
+    text += chunk;
+  }, authentication);
+  for (const line of lines) await writer.write(line);
+  await writer.end();
+  return text;
+}
+
+async function item(id: string) {
+  const data = { id };
+  return { kind: 'item' as const, store: 'relational' as const, item: { id, data, metadata: {}, timestamp: 1, hash: await computeContentHash(data, {}) } };
+}
+
+async function passphraseAuthentication(passphrase: string) {
+  const salt = await createArchiveSalt();
+  return { auth: { kind: 'passphrase' as const, salt }, key: await deriveArchivePassphraseKey(passphrase, salt) };
+}
+
+const unkeyed = {
+  async resolveKey(): Promise<CryptoKey> {
+    throw new Error('not keyed');
+  }
+};
+
+describe('verifyArchive', () => {
+  it('summarises what the writer wrote, from strings or byte streams', async () => {
+    const text = await writeArchive([header, await item('a'), await item('b')]);
+
+    const summary = await verifyArchive(new Blob([text]), unkeyed);
+    expect(summary).toEqual({ header, items: 2 });
+
+    async function* split() {
+      const bytes = new TextEncoder().encode(text);
+      for (let offset = 0; offset < bytes.length; offset += 7) yield bytes.subarray(offset, offset + 7);
+    }
+    expect((await verifyArchive(split(), unkeyed)).items).toBe(2);
+  });
+
+  it('rejects truncated, altered and foreign archives', async () => {
+    const text = await writeArchive([header, await item('a'), await item('b')]);
+    const lines = text.trimEnd().split('\n');
+
+    await expect(verifyArchive(new Blob([lines.slice(0, -1).join('\n')]), unkeyed)).rejects.toThrow('its trailer is missing');
+    await expect(verifyArchive(new Blob([[lines[0], lines[2], lines[3]].join('\n')]), unkeyed)).rejects.toThrow('it was altered');
+    await expect(verifyArchive(new Blob([text + '{"kind":"item"}\n']), unkeyed)).rejects.toThrow('Unexpected data after the archive trailer');
+    await expect(verifyArchive(new Blob(['{"kind":"header","format":"other"}\n']), unkeyed)).rejects.toThrow('Not a SmartClone archive');
+    await expect(verifyArchive(new Blob(['']), unkeyed)).rejects.toThrow(ArchiveIntegrityError);
+  });
+
+  it('checks the content hash of every item', async () => {
+    const altered = await item('a');
+    altered.item.data = { id: 'b' };
+    await expect(verifyArchive(new Blob([await writeArchive([header, altered])]), unkeyed)).rejects.toThrow('Content hash mismatch for item a');
+  });
+
+  it('authenticates archives with a passphrase HMAC that a recomputed digest cannot forge', async () => {
+    const authentication = await passphraseAuthentication('correct horse');
+    const text = await writeArchive([header, await item('a')], authentication);
+    const resolveKey = (passphrase: string) => async (auth: ArchiveAuthentication) =>
+      deriveArchivePassphraseKey(passphrase, (auth as { salt: string }).salt);
+
+    expect((await verifyArchive(new Blob([text]), { resolveKey: resolveKey('correct horse') })).items).toBe(1);
+    await expect(verifyArchive(new Blob([text]), { resolveKey: resolveKey('wrong') })).rejects.toThrow(ArchiveIntegrityError);
+
+    // Rewriting the archive without the key yields an unkeyed trailer, which authenticated imports refuse
+    const forged = await writeArchive([header, await item('b')]);
+    await expect(verifyArchive(new Blob([forged]), { ...unkeyed, requireAuthentication: true })).rejects.toThrow('not authenticated');
+  });
+});
+
+describe('readArchiveItems', () => {
+  it('streams items in batches from a replayable copy of a stream', async () => {
+    const text = await writeArchive([header, await item('a'), await item('b'), await item('c')]);
+    async function* once() {
+      yield new TextEncoder().encode(text);
+    }
+
+    const archive = await replayableSource(once());
+    await verifyArchive(archive, unkeyed);
+    const batches = [];
+    for await (const batch of readArchiveItems(archive, 2)) batches.push(batch.map(entry => entry.item.id));
+    expect(batches).toEqual([['a', 'b'], ['c']]);
+  });
+});
@@ -0,0 +1,381 @@
+/*
+ * Copyright 2025 SmartClone Contributors
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+/**
+ * Portable archive of a whole store for backups and device migration.
+ * An archive is newline-delimited JSON: a header, the wrapped key ring, every item as stored (i.e. encrypted),
+ * the encrypted vector index and a trailer whose HMAC covers every preceding line. The HMAC is keyed from
+ * the archive passphrase, or from one of the store's data keys when there is none.
+ */
+
+import { base64ToBytes, bytesToBase64, requireWebCrypto } from './encryption';
+import { computeContentHash } from './conflictResolution';
+import type { KeyRingRecord } from './keyManagement';
+import type { PersistedItem, PersistedStoreType } from './localPersistence';
+import type { PayloadEncoding } from './payloadEncoding';
+
+export const ARCHIVE_FORMAT = 'smartclone-archive';
+export const ARCHIVE_VERSION = 1;
+
+export interface ArchiveHeader {
+  kind: 'header';
+  format: typeof ARCHIVE_FORMAT;
+  v: typeof ARCHIVE_VERSION;
+  createdAt: number;
+  encryptionLevel: 'none' | 'metadata' | 'full';
+  replicaId?: string;
+}
+
+export interface ArchivedVectorIndex {
+  kind: 'vector-index';
+  /** Sealed (and possibly encoded) SerializedVectorIndex. */
+  data: any;
+  keyId?: string;
+  encoding?: PayloadEncoding;
+  /** Schema version the snapshot was sealed with; absent for archives before bound envelopes. */
+  schemaVersion?: number;
+}
+
+/**
+ * Key of the trailer HMAC: derived from the passphrase with the given salt, or from the data key with the given ID.
+ */
+export type ArchiveAuthentication =
+  | { kind: 'passphrase'; salt: string }
+  | { kind: 'key'; keyId: string };
+
+export type ArchiveLine =
+  | ArchiveHeader
+  | { kind: 'keyring'; record: KeyRingRecord }
+  | { kind: 'item'; store: PersistedStoreType; item: PersistedItem }
+  | ArchivedVectorIndex
+  | { kind: 'end'; lines: number; digest: string; auth?: ArchiveAuthentication };
+
+/**
+ * A Blob, a file path (Node.js only), a byte stream or any async iterable of chunks.
+ */
+export type ArchiveSource = Blob | string | ReadableStream<Uint8Array> | AsyncIterable<Uint8Array | string>;
+
+/**
+ * Everything but the items of a verified archive; readArchiveItems streams those.
+ */
+export interface ArchiveSummary {
+  header: ArchiveHeader;
+  keyRing?: KeyRingRecord;
+  /** Number of archived items. */
+  items: number;
+  vectorIndex?: ArchivedVectorIndex;
+}
+
+export interface ArchiveVerificationOptions {
+  /** HMAC key for the trailer's authentication. */
+  resolveKey(auth: ArchiveAuthentication): Promise<CryptoKey>;
+  /** Reject archives whose trailer is a plain, unkeyed digest. */
+  requireAuthentication?: boolean;
+}
+
+/**
+ * Thrown when an archive is truncated, altered or not an archive at all. Nothing has been imported then.
+ */
+export class ArchiveIntegrityError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ArchiveIntegrityError';
+  }
+}
+
+const STORE_TYPES: PersistedStoreType[] = ['vector', 'graph', 'relational'];
+const PASSPHRASE_ITERATIONS = 600000;
+const SALT_LENGTH = 16;
+const encoder = new TextEncoder();
+
+async function sha256(bytes: Uint8Array<ArrayBuffer>): Promise<Uint8Array<ArrayBuffer>> {
+  const webCrypto = await requireWebCrypto();
+  return new Uint8Array(await webCrypto.subtle.digest('SHA-256', bytes));
+}
+
+export async function createArchiveSalt(): Promise<string> {
+  const webCrypto = await requireWebCrypto();
+  return bytesToBase64(webCrypto.getRandomValues(new Uint8Array(SALT_LENGTH)));
+}
+
+/**
+ * HMAC key for archives written with a passphrase (PBKDF2, separate from the key ring's wrapping key).
+ */
+export async function deriveArchivePassphraseKey(passphrase: string, salt: string): Promise<CryptoKey> {
+  const webCrypto = await requireWebCrypto();
+  const baseKey = await webCrypto.subtle.importKey('raw', encoder.encode(passphrase), 'PBKDF2', false, ['deriveKey']);
+  return webCrypto.subtle.deriveKey(
+    { name: 'PBKDF2', hash: 'SHA-256', salt: base64ToBytes(salt), iterations: PASSPHRASE_ITERATIONS },
+    baseKey,
+    { name: 'HMAC', hash: 'SHA-256' },
+    false,
+    ['sign']
+  );
+}
+
+/**
+ * HMAC key for archives written without a passphrase, derived from a data key with HKDF.
+ */
+export async function deriveArchiveDataKey(key: CryptoKey): Promise<CryptoKey> {
+  const webCrypto = await requireWebCrypto();
+  const baseKey = await webCrypto.subtle.importKey('raw', await webCrypto.subtle.exportKey('raw', key), 'HKDF', false, ['deriveKey']);
+  return webCrypto.subtle.deriveKey(
+    { name: 'HKDF', hash: 'SHA-256', salt: new Uint8Array(0), info: encoder.encode('smartclone-archive-mac') },
+    baseKey,
+    { name: 'HMAC', hash: 'SHA-256' },
+    false,
+    ['sign']
+  );
+}
+
+/**
+ * Running digest over archive lines: HMAC-SHA-256 (or, without a key, SHA-256) of the concatenated
+ * SHA-256 of each line. It can be computed while streaming without holding the archive in memory.
+ */
+function createLineDigest() {
+  const digests: Uint8Array[] = [];
+  return {
+    async add(line: string) {
+      digests.push(await sha256(encoder.encode(line)));
+    },
+    get lines() {
+      return digests.length;
+    },
+    async finish(key?: CryptoKey): Promise<string> {
+      const joined = new Uint8Array(digests.length * 32);
+      digests.forEach((digest, index) => joined.set(digest, index * 32));
+      if (!key) return bytesToBase64(await sha256(joined));
+      const webCrypto = await requireWebCrypto();
+      return bytesToBase64(new Uint8Array(await webCrypto.subtle.sign('HMAC', key, joined)));
+    }
+  };
+}
+
+/**
+ * Write archive lines to a sink, closing the archive with the trailer. Without authentication the trailer
+ * only holds a plain digest, which detects corruption but not deliberate edits.
+ */
+export function createArchiveWriter(
+  sink: (chunk: string) => Promise<void> | void,
+  authentication?: { auth: ArchiveAuthentication; key: CryptoKey }
+) {
+  const digest = createLineDigest();
+  return {
+    async write(line: ArchiveLine) {
+      const text = JSON.stringify(line);
+      await digest.add(text);
+      await sink(`${text}\n`);
+    },
+    async end() {
+      const trailer: ArchiveLine = {
+        kind: 'end',
+        lines: digest.lines,
+        digest: await digest.finish(authentication?.key),
+        auth: authentication?.auth
+      };
+      await sink(`${JSON.stringify(trailer)}\n`);
+    }
+  };
+}
+
+/**
+ * Sink writing to a file through a write stream, respecting backpressure. Only available in Node.js.
+ */
+export async function createFileSink(filePath: string) {
+  const fs = await import('fs');
+  const path = await import('path');
+  await fs.promises.mkdir(path.dirname(filePath), { recursive: true });
+  const stream = fs.createWriteStream(filePath, { encoding: 'utf-8' });
+  let failure: Error | null = null;
+  stream.on('error', error => {
+    failure = error;
+  });
+
+  return {
+    async write(chunk: string) {
+      if (failure) throw failure;
+      if (!stream.write(chunk)) {
+        await new Promise<void>((resolve, reject) => {
+          stream.once('drain', resolve);
+          stream.once('error', reject);
+        });
+      }
+    },
+    close(): Promise<number> {
+      return new Promise((resolve, reject) => {
+        if (failure) return reject(failure);
+        stream.end(() => resolve(stream.bytesWritten));
+        stream.once('error', reject);
+      });
+    }
+  };
+}
+
+async function* chunksOf(source: ArchiveSource): AsyncGenerator<Uint8Array | string> {
+  if (typeof source === 'string') {
+    const fs = await import('fs');
+    yield* fs.createReadStream(source) as AsyncIterable<Uint8Array>;
+    return;
+  }
+
+  const stream = typeof Blob !== 'undefined' && source instanceof Blob ? source.stream() : source;
+  if (typeof (stream as ReadableStream<Uint8Array>).getReader === 'function') {
+    const reader = (stream as ReadableStream<Uint8Array>).getReader();
+    try {
+      for (;;) {
+        const { done, value } = await reader.read();
+        if (done) return;
+        yield value;
+      }
+    } finally {
+      reader.releaseLock();
+    }
+  }
+  yield* stream as AsyncIterable<Uint8Array | string>;
+}
+
+async function* linesOf(source: ArchiveSource): AsyncGenerator<string> {
+  const decoder = new TextDecoder();
+  let buffered = '';
+  for await (const chunk of chunksOf(source)) {
+    buffered += typeof chunk === 'string' ? chunk : decoder.decode(chunk, { stream: true });
+    let newline = buffered.indexOf('\n');
+    while (newline !== -1) {
+      yield buffered.slice(0, newline);
+      buffered = buffered.slice(newline + 1);
+      newline = buffered.indexOf('\n');
+    }
+  }
+  buffered += decoder.decode();
+  if (buffered) yield buffered;
+}
+
+/**
+ * A source that can be read more than once. Blobs and files already are; streams are buffered into a Blob.
+ */
+export async function replayableSource(source: ArchiveSource): Promise<Blob | string> {
+  if (typeof source === 'string' || (typeof Blob !== 'undefined' && source instanceof Blob)) return source;
+  const parts: Array<Uint8Array<ArrayBuffer> | string> = [];
+  for await (const chunk of chunksOf(source)) {
+    parts.push(typeof chunk === 'string' ? chunk : new Uint8Array(chunk));
+  }
+  return new Blob(parts);
+}
+
+function parseLine(text: string, number: number): ArchiveLine {
+  try {
+    return JSON.parse(text);
+  } catch {
+    throw new ArchiveIntegrityError(`Archive line ${number} is not valid JSON`);
+  }
+}
+
+/**
+ * Verify a whole archive while streaming it: the trailer HMAC over every line, the line kinds and each
+ * item's content hash. Items are checked one at a time and not kept.
+ * @throws ArchiveIntegrityError when any check fails, or the HMAC key is wrong
+ */
+export async function verifyArchive(source: ArchiveSource, options: ArchiveVerificationOptions): Promise<ArchiveSummary> {
+  const digest = createLineDigest();
+  let summary: ArchiveSummary | null = null;
+  let trailer: { lines: number; digest: string; auth?: ArchiveAuthentication } | null = null;
+
+  for await (const text of linesOf(source)) {
+    if (!text.trim()) continue;
+    if (trailer) {
+      throw new ArchiveIntegrityError('Unexpected data after the archive trailer');
+    }
+
+    const line = parseLine(text, digest.lines + 1);
+    if (line.kind === 'end') {
+      trailer = line;
+      continue;
+    }
+    await digest.add(text);
+
+    if (!summary) {
+      if (line.kind !== 'header' || line.format !== ARCHIVE_FORMAT) {
+        throw new ArchiveIntegrityError('Not a SmartClone archive');
+      }
+      if (line.v !== ARCHIVE_VERSION) {
+        throw new ArchiveIntegrityError(`Unsupported archive version ${line.v}`);
+      }
+      summary = { header: line, items: 0 };
+      continue;
+    }
+
+    switch (line.kind) {
+      case 'keyring':
+        summary.keyRing = line.record;
+        break;
+      case 'vector-index':
+        summary.vectorIndex = line;
+        break;
+      case 'item': {
+        const { store, item } = line;
+        if (!STORE_TYPES.includes(store) || !item || typeof item.id !== 'string') {
+          throw new ArchiveIntegrityError(`Malformed item ${item?.id ?? ''} in store ${store}`);
+        }
+        if (item.hash && item.hash !== await computeContentHash(item.data, item.metadata)) {
+          throw new ArchiveIntegrityError(`Content hash mismatch for item ${item.id}`);
+        }
+        summary.items++;
+        break;
+      }
+      default:
+        throw new ArchiveIntegrityError(`Unknown archive line kind ${(line as { kind?: string }).kind}`);
+    }
+  }
+
+  if (!summary) {
+    throw new ArchiveIntegrityError('The archive is empty');
+  }
+  if (!trailer) {
+    throw new ArchiveIntegrityError('The archive is truncated: its trailer is missing');
+  }
+  if (!trailer.auth && options.requireAuthentication) {
+    throw new ArchiveIntegrityError('The archive is not authenticated with a passphrase or key');
+  }
+  const key = trailer.auth ? await options.resolveKey(trailer.auth) : undefined;
+  if (trailer.lines !== digest.lines || trailer.digest !== await digest.finish(key)) {
+    throw new ArchiveIntegrityError('The archive does not match its authentication: it was altered or the passphrase is wrong');
+  }
+
+  return summary;
+}
+
+/**
+ * Stream the items of an archive checked with verifyArchive, in batches.
+ */
+export async function* readArchiveItems(
+  source: Blob | string,
+  batchSize: number
+): AsyncGenerator<Array<{ store: PersistedStoreType; item: PersistedItem }>> {
+  let batch: Array<{ store: PersistedStoreType; item: PersistedItem }> = [];
+  let number = 0;
+  for await (const text of linesOf(source)) {
+    number++;
+    if (!text.trim()) continue;
+    const line = parseLine(text, number);
+    if (line.kind !== 'item') continue;
+    batch.push({ store: line.store, item: line.item });
+    if (batch.length >= batchSize) {
+      yield batch;
+      batch = [];
+    }
+  }
+  if (batch.length) yield batch;
+}
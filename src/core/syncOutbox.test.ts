@@ -0,0 +1,126 @@
+/*
+ * Copyright 2025 SmartClone Contributors
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+import type { KeyStore } from './keyManagement';
+import type { ConnectorSyncResult } from './storageConnectors';
+import { SyncOutbox, type OutboxEntry } from './syncOutbox';
+
+function memoryKeyStore(): KeyStore & { values: Map<string, string> } {
+  const values = new Map<string, string>();
+  return {
+    values,
+    async get(name) {
+      return values.get(name) ?? null;
+    },
+    async set(name, value) {
+      values.set(name, value);
+    },
+    async delete(name) {
+      values.delete(name);
+    }
+  };
+}
+
+const operation = (id: string, connectorId = 'remote') =>
+  ({ connectorId, id, type: 'relational' as const, operation: 'store' as const, version: 1 });
+
+const failure = (providerId = 'remote'): ConnectorSyncResult => ({ providerId, success: false, error: new Error('offline') });
+
+describe('SyncOutbox', () => {
+  it('keeps failed entries with their error and drops confirmed ones', async () => {
+    const outbox = new SyncOutbox(null, 'outbox', async () => null);
+    const entries = await outbox.enqueue([operation('a'), operation('b')]);
+    expect(outbox.status().pending).toBe(2);
+
+    await outbox.settle(entries, [{ providerId: 'remote', success: true }]);
+    expect(outbox.status().pending).toBe(0);
+
+    const [retried] = await outbox.enqueue([operation('c')]);
+    await outbox.settle([retried], [failure()]);
+    expect(outbox.status().connectors).toEqual([
+      expect.objectContaining({ connectorId: 'remote', pending: 1, exhausted: 0, lastError: 'offline' })
+    ]);
+    expect(retried.attempts).toBe(1);
+    outbox.stop();
+  });
+
+  it('retries entries on flush until they are exhausted', async () => {
+    const delivered: OutboxEntry[] = [];
+    const outbox = new SyncOutbox(null, 'outbox', async entry => {
+      delivered.push(entry);
+      return failure();
+    }, { maxAttempts: 2 });
+    const entries = await outbox.enqueue([operation('a')]);
+    await outbox.settle(entries, [failure()]);
+
+    await outbox.flush(true);
+    expect(delivered).toHaveLength(1);
+    expect(outbox.status().connectors[0].exhausted).toBe(1);
+
+    // Exhausted entries are only retried when forced
+    await outbox.flush();
+    expect(delivered).toHaveLength(1);
+    outbox.stop();
+  });
+
+  it('replaces a queued entry with a newer operation for the same record', async () => {
+    const outbox = new SyncOutbox(null, 'outbox', async () => null);
+    const [first] = await outbox.enqueue([operation('a')]);
+    const [second] = await outbox.enqueue([{ ...operation('a'), operation: 'delete', version: 2 }]);
+
+    // The late result of the first attempt must not drop the newer entry
+    await outbox.settle([first], [{ providerId: 'remote', success: true }]);
+    expect(outbox.status().pending).toBe(1);
+    await outbox.settle([second], [{ providerId: 'remote', success: true }]);
+    expect(outbox.status().pending).toBe(0);
+    outbox.stop();
+  });
+
+  it('reloads pending entries from its store', async () => {
+    const store = memoryKeyStore();
+    const outbox = new SyncOutbox(store, 'outbox', async () => null);
+    const entries = await outbox.enqueue([operation('a')]);
+    await outbox.settle(entries, [failure()]);
+    await outbox.stop();
+
+    const delivered: string[] = [];
+    const reloaded = new SyncOutbox(store, 'outbox', async entry => {
+      delivered.push(entry.id);
+      return { providerId: entry.connectorId, success: true };
+    });
+    await reloaded.start();
+    expect(reloaded.status().pending).toBe(1);
+    await reloaded.flush(true);
+    expect(delivered).toEqual(['a']);
+    expect(reloaded.status()).toEqual(expect.objectContaining({ pending: 0 }));
+    reloaded.stop();
+  });
+
+  it('schedules no retries once stopped', async () => {
+    const delivered: string[] = [];
+    const outbox = new SyncOutbox(null, 'outbox', async entry => {
+      delivered.push(entry.id);
+      return { providerId: entry.connectorId, success: true };
+    }, { baseDelay: 1 });
+    await outbox.start();
+    await outbox.stop();
+
+    const entries = await outbox.enqueue([operation('a')]);
+    await outbox.settle(entries, [failure()]);
+    await new Promise(resolve => setTimeout(resolve, 20));
+    expect(delivered).toEqual([]);
+    expect(outbox.status().pending).toBe(1);
+  });
+});
@@ -0,0 +1,333 @@
+/*
+ * Copyright 2025 SmartClone Contributors
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+/**
+ * Durable outbox for connector synchronisation.
+ * Entries are written before a sync is attempted and removed once the connector confirmed it,
+ * so pending and failed syncs are retried with exponential backoff, also after a reload.
+ */
+
+import type { KeyStore } from './keyManagement';
+import type { ConnectorSyncResult } from './storageConnectors';
+
+export interface SyncOutboxOptions {
+  /**
+   * Store used to persist the outbox. Defaults to the storage's syncStateStore, then localStorage or IndexedDB
+   * when available. Without a store the outbox lives in memory only.
+   */
+  store?: KeyStore;
+  /** Delay before the first retry in milliseconds. Defaults to 1000. */
+  baseDelay?: number;
+  /** Upper bound for the retry delay in milliseconds. Defaults to 5 minutes. */
+  maxDelay?: number;
+  /** Attempts after which an entry stops being retried automatically. Defaults to 10. */
+  maxAttempts?: number;
+}
+
+export interface OutboxEntry {
+  connectorId: string;
+  /** Record ID. */
+  id: string;
+  type: 'vector' | 'graph' | 'relational';
+  operation: 'store' | 'delete';
+  version?: number;
+  /** Version vector of a queued tombstone. */
+  clock?: Record<string, number>;
+  attempts: number;
+  enqueuedAt: number;
+  nextAttemptAt: number;
+  lastError?: string;
+  /** Set once maxAttempts is reached; only flushSync retries the entry then. */
+  exhausted?: boolean;
+}
+
+export interface ConnectorSyncStatus {
+  connectorId: string;
+  /** Entries waiting for (re)delivery, including exhausted ones. */
+  pending: number;
+  exhausted: number;
+  lastError?: string;
+  lastErrorAt?: number;
+  lastSuccessAt?: number;
+}
+
+export interface SyncStatus {
+  pending: number;
+  online: boolean;
+  connectors: ConnectorSyncStatus[];
+}
+
+interface SerializedOutbox {
+  v: 1;
+  entries: OutboxEntry[];
+  connectors: Array<Omit<ConnectorSyncStatus, 'pending' | 'exhausted'>>;
+}
+
+function errorMessage(error: unknown): string {
+  if (error instanceof Error) return error.message;
+  return typeof error === 'string' ? error : JSON.stringify(error) ?? 'Unknown error';
+}
+
+function isOnline(): boolean {
+  return typeof navigator === 'undefined' || navigator.onLine !== false;
+}
+
+/**
+ * Outbox of pending connector operations, keyed by connector and record.
+ * A newer operation for the same record replaces the queued one.
+ */
+export class SyncOutbox {
+  private entries: Map<string, OutboxEntry> = new Map();
+  private connectorStatus: Map<string, Omit<ConnectorSyncStatus, 'pending' | 'exhausted'>> = new Map();
+  private inFlight: Set<OutboxEntry> = new Set();
+  private timer: ReturnType<typeof setTimeout> | null = null;
+  private saving: Promise<void> = Promise.resolve();
+  private flushing: Promise<void> | null = null;
+  private stopped = false;
+  private readonly baseDelay: number;
+  private readonly maxDelay: number;
+  private readonly maxAttempts: number;
+  private readonly handleOnline = () => {
+    this.flush(true).catch(error => console.warn('Sync outbox flush failed', error));
+  };
+
+  constructor(
+    private readonly store: KeyStore | null,
+    private readonly storeKey: string,
+    private readonly deliver: (entry: OutboxEntry) => Promise<ConnectorSyncResult | null>,
+    options: SyncOutboxOptions = {}
+  ) {
+    this.baseDelay = options.baseDelay ?? 1000;
+    this.maxDelay = options.maxDelay ?? 5 * 60 * 1000;
+    this.maxAttempts = options.maxAttempts ?? 10;
+  }
+
+  private static keyOf(entry: Pick<OutboxEntry, 'connectorId' | 'id'>) {
+    return `${entry.connectorId}:${entry.id}`;
+  }
+
+  /**
+   * Load persisted entries, listen for the network coming back and schedule due retries.
+   */
+  async start() {
+    this.stopped = false;
+    if (this.store) {
+      try {
+        const raw = await this.store.get(this.storeKey);
+        if (raw) {
+          const snapshot = JSON.parse(raw) as SerializedOutbox;
+          for (const entry of snapshot.entries ?? []) {
+            this.entries.set(SyncOutbox.keyOf(entry), entry);
+          }
+          for (const status of snapshot.connectors ?? []) {
+            this.connectorStatus.set(status.connectorId, status);
+          }
+        }
+      } catch (error) {
+        console.warn('Failed to load the sync outbox', error);
+      }
+    }
+
+    if (typeof globalThis.addEventListener === 'function') {
+      globalThis.addEventListener('online', this.handleOnline);
+    }
+    this.schedule();
+  }
+
+  /**
+   * Cancel scheduled retries and stop listening for the network. Resolves once pending writes are persisted;
+   * queued entries are retried after the next start().
+   */
+  stop(): Promise<void> {
+    this.stopped = true;
+    if (this.timer) clearTimeout(this.timer);
+    this.timer = null;
+    if (typeof globalThis.removeEventListener === 'function') {
+      globalThis.removeEventListener('online', this.handleOnline);
+    }
+    return this.saving;
+  }
+
+  private persist() {
+    if (!this.store) return Promise.resolve();
+    const snapshot: SerializedOutbox = {
+      v: 1,
+      entries: Array.from(this.entries.values()),
+      connectors: Array.from(this.connectorStatus.values())
+    };
+    // Serialise writes so an older snapshot never overwrites a newer one
+    this.saving = this.saving
+      .then(() => this.store!.set(this.storeKey, JSON.stringify(snapshot)))
+      .catch(error => console.warn('Failed to persist the sync outbox', error));
+    return this.saving;
+  }
+
+  private retryDelay(attempts: number) {
+    const delay = Math.min(this.maxDelay, this.baseDelay * 2 ** Math.max(0, attempts - 1));
+    // Equal jitter: half fixed, half random, so clients do not retry in lockstep
+    return delay / 2 + Math.random() * (delay / 2);
+  }
+
+  private schedule() {
+    if (this.timer) clearTimeout(this.timer);
+    this.timer = null;
+    if (this.stopped) return;
+
+    const due = Array.from(this.entries.values())
+      .filter(entry => !entry.exhausted && !this.inFlight.has(entry))
+      .map(entry => entry.nextAttemptAt);
+    if (!due.length) return;
+
+    const delay = Math.max(0, Math.min(...due) - Date.now());
+    this.timer = setTimeout(() => {
+      this.timer = null;
+      this.flush().catch(error => console.warn('Sync outbox flush failed', error));
+    }, delay);
+    // Pending retries must not keep a Node.js process alive
+    (this.timer as { unref?: () => void }).unref?.();
+  }
+
+  /**
+   * Record operations before they are attempted. They are retried if the attempt never settles.
+   */
+  async enqueue(
+    operations: Array<Pick<OutboxEntry, 'connectorId' | 'id' | 'type' | 'operation' | 'version' | 'clock'>>
+  ): Promise<OutboxEntry[]> {
+    const now = Date.now();
+    const entries = operations.map(operation => {
+      const entry: OutboxEntry = {
+        ...operation,
+        attempts: 0,
+        enqueuedAt: now,
+        nextAttemptAt: now + this.retryDelay(1)
+      };
+      this.entries.set(SyncOutbox.keyOf(entry), entry);
+      this.inFlight.add(entry);
+      return entry;
+    });
+    await this.persist();
+    return entries;
+  }
+
+  /**
+   * Settle enqueued entries with the results of their first attempt.
+   */
+  async settle(entries: OutboxEntry[], results: ConnectorSyncResult[]) {
+    for (const entry of entries) {
+      this.inFlight.delete(entry);
+      const result = results.find(candidate => candidate.providerId === entry.connectorId);
+      this.record(entry, result ?? { providerId: entry.connectorId, success: false, error: 'No result' });
+    }
+    await this.persist();
+    this.schedule();
+  }
+
+  /**
+   * Apply an attempt result. Entries replaced by a newer operation in the meantime are left alone.
+   */
+  private record(entry: OutboxEntry, result: ConnectorSyncResult) {
+    const key = SyncOutbox.keyOf(entry);
+    const current = this.entries.get(key) === entry;
+    const status = this.connectorStatus.get(result.providerId) ?? { connectorId: result.providerId };
+    this.connectorStatus.set(result.providerId, status);
+
+    if (result.success) {
+      status.lastSuccessAt = Date.now();
+      if (current) this.entries.delete(key);
+      return;
+    }
+
+    status.lastError = errorMessage(result.error);
+    status.lastErrorAt = Date.now();
+    if (!current) return;
+    entry.attempts++;
+    entry.lastError = status.lastError;
+    entry.nextAttemptAt = Date.now() + this.retryDelay(entry.attempts + 1);
+    entry.exhausted = entry.attempts >= this.maxAttempts;
+  }
+
+  /**
+   * Retry due entries. With force every entry is retried immediately, including exhausted ones.
+   */
+  flush(force = false): Promise<void> {
+    if (!this.flushing) {
+      this.flushing = this.runFlush(force).finally(() => {
+        this.flushing = null;
+        this.schedule();
+      });
+    }
+    return this.flushing;
+  }
+
+  private async runFlush(force: boolean) {
+    if (!isOnline()) return;
+
+    const now = Date.now();
+    const due = Array.from(this.entries.values()).filter(entry =>
+      !this.inFlight.has(entry) && (force || (!entry.exhausted && entry.nextAttemptAt <= now))
+    );
+
+    for (const entry of due) {
+      const key = SyncOutbox.keyOf(entry);
+      if (this.entries.get(key) !== entry) continue;
+      this.inFlight.add(entry);
+      try {
+        const result = await this.deliver(entry);
+        // Null means there is nothing left to deliver, e.g. the record is gone
+        if (!result) {
+          if (this.entries.get(key) === entry) this.entries.delete(key);
+        } else {
+          this.record(entry, result);
+        }
+      } catch (error) {
+        this.record(entry, { providerId: entry.connectorId, success: false, error });
+      } finally {
+        this.inFlight.delete(entry);
+      }
+    }
+
+    await this.persist();
+  }
+
+  /**
+   * Whether operations for a record are still waiting for delivery to any connector.
+   */
+  hasPending(id: string): boolean {
+    for (const entry of this.entries.values()) {
+      if (entry.id === id) return true;
+    }
+    return false;
+  }
+
+  status(): SyncStatus {
+    const connectors = new Map<string, ConnectorSyncStatus>();
+    for (const status of this.connectorStatus.values()) {
+      connectors.set(status.connectorId, { ...status, pending: 0, exhausted: 0 });
+    }
+    for (const entry of this.entries.values()) {
+      const status = connectors.get(entry.connectorId) ?? { connectorId: entry.connectorId, pending: 0, exhausted: 0 };
+      status.pending++;
+      if (entry.exhausted) status.exhausted++;
+      connectors.set(entry.connectorId, status);
+    }
+
+    return {
+      pending: this.entries.size,
+      online: isOnline(),
+      connectors: Array.from(connectors.values())
+    };
+  }
+}
@@ -0,0 +1,81 @@
+/*
+ * Copyright 2025 SmartClone Contributors
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+import {
+  bruteForceSearch,
+  cosineSimilarity,
+  extractQueryVector,
+  extractVectors,
+  matchesMetadataFilter,
+  similarityScore,
+  type VectorSearchEntry
+} from './vectorSearch';
+
+const entries: VectorSearchEntry[] = [
+  { id: 'x', vectors: [[1, 0]], metadata: { lang: 'en' }, timestamp: 1 },
+  { id: 'y', vectors: [[0, 1]], metadata: { lang: 'de' }, timestamp: 2 },
+  { id: 'xy', vectors: [[0, 3], [2, 2]], metadata: { lang: 'en' }, timestamp: 3 },
+  { id: 'other-dimension', vectors: [[1, 0, 0]], metadata: {}, timestamp: 4 }
+];
+
+describe('similarityScore', () => {
+  it('scores higher for more similar vectors under every metric', () => {
+    expect(cosineSimilarity([1, 0], [2, 0])).toBeCloseTo(1);
+    expect(cosineSimilarity([1, 0], [0, 0])).toBe(0);
+    expect(similarityScore([1, 2], [3, 4], 'dot')).toBe(11);
+    expect(similarityScore([0, 0], [3, 4], 'euclidean')).toBeCloseTo(1 / 6);
+    expect(similarityScore([1, 1], [1, 1], 'euclidean')).toBe(1);
+  });
+});
+
+describe('bruteForceSearch', () => {
+  it('returns the top k by the best matching vector of each record', () => {
+    const results = bruteForceSearch(entries, [1, 0], { k: 2 });
+
+    expect(results.map(result => result.id)).toEqual(['x', 'xy']);
+    expect(results[0].score).toBeCloseTo(1);
+    expect(results[1].score).toBeCloseTo(Math.SQRT1_2);
+  });
+
+  it('applies metadata filters and the minimum score', () => {
+    expect(bruteForceSearch(entries, [1, 0], { filter: { lang: 'de' } }).map(result => result.id)).toEqual(['y']);
+    expect(bruteForceSearch(entries, [1, 0], { filter: metadata => metadata.lang !== 'en' }).map(result => result.id)).toEqual(['y']);
+    expect(bruteForceSearch(entries, [1, 0], { minScore: 0.5 }).map(result => result.id)).toEqual(['x', 'xy']);
+  });
+
+  it('reports euclidean distances alongside the score', () => {
+    const [nearest] = bruteForceSearch(entries, [2, 2], { metric: 'euclidean', k: 1 });
+
+    expect(nearest).toMatchObject({ id: 'xy', score: 1, distance: 0 });
+  });
+});
+
+describe('extractVectors', () => {
+  it('accepts single vectors, vector lists and query objects', () => {
+    expect(extractVectors([1, 2])).toEqual([[1, 2]]);
+    expect(extractVectors([[1], [2]])).toEqual([[1], [2]]);
+    expect(extractVectors({ text: 'no' })).toBeNull();
+    expect(extractQueryVector({ vector: [1, 2] })).toEqual([1, 2]);
+    expect(extractQueryVector('text')).toBeNull();
+  });
+});
+
+describe('matchesMetadataFilter', () => {
+  it('matches plain values by equality and arrays by membership', () => {
+    expect(matchesMetadataFilter({ lang: 'en', n: 1 }, { lang: ['de', 'en'], n: 1 })).toBe(true);
+    expect(matchesMetadataFilter({ lang: 'fr' }, { lang: ['de', 'en'] })).toBe(false);
+    expect(matchesMetadataFilter({}, undefined)).toBe(true);
+  });
+});
@@ -0,0 +1,172 @@
+/*
+ * Copyright 2025 SmartClone Contributors
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+/**
+ * Vector similarity search over the vector store.
+ * Operates on decrypted vectors that hybrid storage keeps in memory only.
+ */
+
+export type SimilarityMetric = 'cosine' | 'dot' | 'euclidean';
+
+/**
+ * Metadata filter. Plain values match by equality, arrays match any of their values,
+ * and functions receive the full metadata object.
+ */
+export type MetadataFilter =
+  | Record<string, unknown>
+  | ((metadata: Record<string, any>) => boolean);
+
+/**
+ * Decrypted, searchable view of a vector record.
+ */
+export interface VectorSearchEntry {
+  id: string;
+  /** One or more vectors stored in the record. */
+  vectors: number[][];
+  metadata: Record<string, any>;
+  timestamp: number;
+}
+
+export interface VectorSearchOptions {
+  /** Number of results to return. Defaults to 10. */
+  k?: number;
+  metric?: SimilarityMetric;
+  /** Results scoring below this threshold are dropped. */
+  minScore?: number;
+  filter?: MetadataFilter;
+}
+
+export interface VectorSearchResult {
+  id: string;
+  type: 'vector';
+  /** Similarity score; higher is more similar for every metric. */
+  score: number;
+  /** Euclidean distance, only set for the euclidean metric. */
+  distance?: number;
+  metadata: Record<string, any>;
+  timestamp: number;
+}
+
+function isNumberArray(value: unknown): value is number[] {
+  return Array.isArray(value) && value.length > 0 && value.every(item => typeof item === 'number');
+}
+
+/**
+ * Extract vectors from record data: a single vector or an array of vectors.
+ * Returns null when the data does not hold vectors.
+ */
+export function extractVectors(data: unknown): number[][] | null {
+  if (isNumberArray(data)) return [data];
+  if (Array.isArray(data) && data.length > 0 && data.every(isNumberArray)) return data as number[][];
+  return null;
+}
+
+/**
+ * Extract the query vector from a query argument: a vector or an object with a vector property.
+ */
+export function extractQueryVector(query: unknown): number[] | null {
+  if (isNumberArray(query)) return query;
+  if (query && typeof query === 'object' && isNumberArray((query as { vector?: unknown }).vector)) {
+    return (query as { vector: number[] }).vector;
+  }
+  return null;
+}
+
+export function dotProduct(a: ArrayLike<number>, b: ArrayLike<number>): number {
+  let sum = 0;
+  for (let index = 0; index < a.length; index++) {
+    sum += a[index] * b[index];
+  }
+  return sum;
+}
+
+export function euclideanDistance(a: ArrayLike<number>, b: ArrayLike<number>): number {
+  let sum = 0;
+  for (let index = 0; index < a.length; index++) {
+    const delta = a[index] - b[index];
+    sum += delta * delta;
+  }
+  return Math.sqrt(sum);
+}
+
+export function cosineSimilarity(a: ArrayLike<number>, b: ArrayLike<number>): number {
+  const denominator = Math.sqrt(dotProduct(a, a)) * Math.sqrt(dotProduct(b, b));
+  return denominator === 0 ? 0 : dotProduct(a, b) / denominator;
+}
+
+/**
+ * Score two vectors. Euclidean distance d is mapped to 1 / (1 + d) so that higher is always better.
+ */
+export function similarityScore(a: ArrayLike<number>, b: ArrayLike<number>, metric: SimilarityMetric): number {
+  switch (metric) {
+    case 'dot':
+      return dotProduct(a, b);
+    case 'euclidean':
+      return 1 / (1 + euclideanDistance(a, b));
+    case 'cosine':
+    default:
+      return cosineSimilarity(a, b);
+  }
+}
+
+export function matchesMetadataFilter(metadata: Record<string, any>, filter?: MetadataFilter): boolean {
+  if (!filter) return true;
+  if (typeof filter === 'function') return filter(metadata ?? {});
+
+  return Object.entries(filter).every(([key, expected]) => {
+    const actual = metadata?.[key];
+    if (Array.isArray(expected)) {
+      return expected.includes(actual);
+    }
+    return actual === expected;
+  });
+}
+
+/**
+ * Exact top-k search by scanning every entry.
+ * Records holding several vectors are scored by their best matching vector.
+ */
+export function bruteForceSearch(
+  entries: Iterable<VectorSearchEntry>,
+  query: number[],
+  options: VectorSearchOptions = {}
+): VectorSearchResult[] {
+  const { k = 10, metric = 'cosine', minScore, filter } = options;
+  const results: VectorSearchResult[] = [];
+
+  for (const entry of entries) {
+    if (!matchesMetadataFilter(entry.metadata, filter)) continue;
+
+    let best = -Infinity;
+    for (const vector of entry.vectors) {
+      if (vector.length !== query.length) continue;
+      best = Math.max(best, similarityScore(query, vector, metric));
+    }
+    if (best === -Infinity) continue;
+    if (minScore !== undefined && best < minScore) continue;
+
+    results.push({
+      id: entry.id,
+      type: 'vector',
+      score: best,
+      ...(metric === 'euclidean' ? { distance: 1 / best - 1 } : {}),
+      metadata: entry.metadata,
+      timestamp: entry.timestamp
+    });
+  }
+
+  return results.sort((a, b) => b.score - a.score).slice(0, k);
+}
@@ -19,15 +19,67 @@ import {
   multiElasticResourceAllocation,
   encryptedHybridStorage,
   capabilityAwareFeatureActivation,
+  KnowledgeGraph,
+  EncryptionError,
+  DecryptionError,
+  createLocalStorageKeyStore,
+  createIndexedDBKeyStore,
+  createFileKeyStore,
+  createIndexedDBBackend,
+  createFileBackend,
+  ReauthRequiredError,
+  ArchiveIntegrityError,
+  SchemaVersionError,
+  CURRENT_SCHEMA_VERSION,
   type ResourceAllocationOptions,
   type StorageOptions,
   type StoreOptions,
   type RetrieveOptions,
+  type UpdateOptions,
+  type DeleteOptions,
   type QueryOptions,
   type FeatureActivationOptions,
   type MultiElasticRecommendation,
   type StorageConnectorConfig,
-  type ConnectorSyncResult
+  type ConnectorSyncResult,
+  type KeyStore,
+  type KeyDerivationOptions,
+  type WrappedKeyRecord,
+  type KeyRingRecord,
+  type PersistenceBackend,
+  type SyncOutboxOptions,
+  type SyncStatus,
+  type ConflictReport,
+  type ConflictStrategy,
+  type KeyRotationOptions,
+  type KeyRotationReport,
+  type SimilarityMetric,
+  type VectorSearchResult,
+  type VectorIndexOptions,
+  type GraphQueryOptions,
+  type PullOptions,
+  type PullReport,
+  type HybridQuery,
+  type HybridQueryResult,
+  type ScoreFusionOptions,
+  type RelationalQuery,
+  type RelationalQueryResult,
+  type WhereClause,
+  type TokenProvider,
+  type ReauthRequiredEvent,
+  type ChunkedUploadOptions,
+  type UploadProgress,
+  type PayloadEncodingOptions,
+  type CacheOptions,
+  type CacheUsage,
+  type QuotaPressureEvent,
+  type ArchiveExportOptions,
+  type ArchiveImportOptions,
+  type ArchiveImportReport,
+  type RecordMigration,
+  type MigrationContext,
+  type MigrationOptions,
+  type MigrationReport
 } from './core';
 import { SmartCloneIntegration } from './SmartCloneIntegration';
 
@@ -40,9 +92,25 @@ export interface SmartCloneOptions {
   storagePrefix?: string;
   encryptionLevel?: 'none' | 'metadata' | 'full';
   persistEncryptionKey?: boolean;
+  encryptionPassphrase?: string;
+  allowUnwrappedKey?: boolean;
+  keyStore?: KeyStore;
+  keyDerivation?: KeyDerivationOptions;
+  persistLocally?: boolean;
+  persistenceBackend?: PersistenceBackend;
   storageConnectors?: StorageConnectorConfig[];
   awaitStorageSync?: boolean;
   storageSyncTargets?: string[];
+  syncStateStore?: KeyStore;
+  syncOutbox?: SyncOutboxOptions | false;
+  replicaId?: string;
+  conflictStrategy?: ConflictStrategy;
+  onConflict?: (report: ConflictReport) => void;
+  vectorIndex?: VectorIndexOptions;
+  payloadEncoding?: PayloadEncodingOptions;
+  cache?: CacheOptions;
+  onQuotaPressure?: (event: QuotaPressureEvent) => void;
+  migrations?: RecordMigration[];
   models?: Record<string, any>;
   requiredFeatures?: string[];
   optionalFeatures?: string[];
@@ -96,9 +164,25 @@ export default class SmartClone {
       storagePrefix: this.options.storagePrefix,
       encryptionLevel: this.options.encryptionLevel,
       persistEncryptionKey: this.options.persistEncryptionKey,
+      encryptionPassphrase: this.options.encryptionPassphrase,
+      allowUnwrappedKey: this.options.allowUnwrappedKey,
+      keyStore: this.options.keyStore,
+      keyDerivation: this.options.keyDerivation,
+      persistLocally: this.options.persistLocally,
+      persistenceBackend: this.options.persistenceBackend,
       connectors: this.options.storageConnectors,
       awaitSyncByDefault: this.options.awaitStorageSync,
-      defaultSyncTargets: this.options.storageSyncTargets
+      defaultSyncTargets: this.options.storageSyncTargets,
+      syncStateStore: this.options.syncStateStore,
+      syncOutbox: this.options.syncOutbox,
+      replicaId: this.options.replicaId,
+      conflictStrategy: this.options.conflictStrategy,
+      onConflict: this.options.onConflict,
+      vectorIndex: this.options.vectorIndex,
+      payloadEncoding: this.options.payloadEncoding,
+      cache: this.options.cache,
+      onQuotaPressure: this.options.onQuotaPressure,
+      migrations: this.options.migrations
     });
 
     // Initialize feature activation
@@ -165,6 +249,56 @@ export default class SmartClone {
     return this._storage.retrieve(id, options);
   }
 
+  /**
+   * Update data in hybrid storage, keeping its ID
+   */
+  async update(id: string, patch: any, options: UpdateOptions = {}) {
+    if (!this._storage) {
+      await this.initialize();
+    }
+    return this._storage.update(id, patch, options);
+  }
+
+  /**
+   * Delete data from hybrid storage and connectors
+   */
+  async delete(id: string, options: DeleteOptions = {}) {
+    if (!this._storage) {
+      await this.initialize();
+    }
+    return this._storage.delete(id, options);
+  }
+
+  /**
+   * Download new and changed records from connectors since the last pull
+   */
+  async pull(options: PullOptions = {}): Promise<PullReport> {
+    if (!this._storage) {
+      await this.initialize();
+    }
+    return this._storage.pull(options);
+  }
+
+  /**
+   * Report pending connector synchronisation and the last error per connector
+   */
+  async getSyncStatus(): Promise<SyncStatus> {
+    if (!this._storage) {
+      await this.initialize();
+    }
+    return this._storage.getSyncStatus();
+  }
+
+  /**
+   * Retry all pending connector synchronisation now
+   */
+  async flushSync(): Promise<SyncStatus> {
+    if (!this._storage) {
+      await this.initialize();
+    }
+    return this._storage.flushSync();
+  }
+
   /**
    * Query data in hybrid storage
    */
@@ -175,6 +309,26 @@ export default class SmartClone {
     return this._storage.query(query, options);
   }
 
+  /**
+   * Rank records by vector similarity and graph proximity with relational filters
+   */
+  async hybridQuery(query: HybridQuery) {
+    if (!this._storage) {
+      await this.initialize();
+    }
+    return this._storage.hybridQuery(query);
+  }
+
+  /**
+   * Merge stored graph records into a queryable knowledge graph
+   */
+  async getGraph(options: GraphQueryOptions = {}) {
+    if (!this._storage) {
+      await this.initialize();
+    }
+    return this._storage.getGraph(options);
+  }
+
   /**
    * Check if feature is enabled
    */
@@ -205,6 +359,18 @@ export default class SmartClone {
     return this._features.loadFeatureDependencies(featureId);
   }
 
+  /**
+   * Stop the storage's background work (sync retries, network listener, expiry timer).
+   * The instance initializes again on next use.
+   */
+  async close() {
+    if (this._storage) {
+      await this._storage.close();
+    }
+    this._storage = null;
+    this.initialized = false;
+  }
+
   /**
    * Get all enabled features
    */
@@ -229,7 +395,19 @@ export {
   multiElasticResourceAllocation,
   encryptedHybridStorage,
   capabilityAwareFeatureActivation,
-  SmartCloneIntegration
+  SmartCloneIntegration,
+  KnowledgeGraph,
+  EncryptionError,
+  DecryptionError,
+  createLocalStorageKeyStore,
+  createIndexedDBKeyStore,
+  createFileKeyStore,
+  createIndexedDBBackend,
+  createFileBackend,
+  ReauthRequiredError,
+  ArchiveIntegrityError,
+  SchemaVersionError,
+  CURRENT_SCHEMA_VERSION
 };
 
 // Export utilities
@@ -241,9 +419,49 @@ export type {
   StorageOptions,
   StoreOptions,
   RetrieveOptions,
+  UpdateOptions,
+  DeleteOptions,
   QueryOptions,
   FeatureActivationOptions,
   MultiElasticRecommendation,
   StorageConnectorConfig,
-  ConnectorSyncResult
+  ConnectorSyncResult,
+  KeyStore,
+  KeyDerivationOptions,
+  WrappedKeyRecord,
+  KeyRingRecord,
+  PersistenceBackend,
+  SyncOutboxOptions,
+  SyncStatus,
+  ConflictReport,
+  ConflictStrategy,
+  KeyRotationOptions,
+  KeyRotationReport,
+  SimilarityMetric,
+  VectorSearchResult,
+  VectorIndexOptions,
+  GraphQueryOptions,
+  PullOptions,
+  PullReport,
+  RelationalQuery,
+  RelationalQueryResult,
+  WhereClause,
+  HybridQuery,
+  HybridQueryResult,
+  ScoreFusionOptions,
+  TokenProvider,
+  ReauthRequiredEvent,
+  ChunkedUploadOptions,
+  UploadProgress,
+  PayloadEncodingOptions,
+  CacheOptions,
+  CacheUsage,
+  QuotaPressureEvent,
+  ArchiveExportOptions,
+  ArchiveImportOptions,
+  ArchiveImportReport,
+  RecordMigration,
+  MigrationContext,
+  MigrationOptions,
+  MigrationReport
 };
@@ -135,6 +135,8 @@ export async function detectDeviceCapabilities(): Promise<DeviceCapabilities> {
     }
   }
 
+  const storage = await estimateStorage();
+
   return {
     cpu: {
       cores: cpuCores,
@@ -142,10 +144,30 @@ export async function detectDeviceCapabilities(): Promise<DeviceCapabilities> {
     },
     memory: estimatedMemory,
     gpu,
+    ...(storage ? { storage } : {}),
     battery
   };
 }
 
+/**
+ * Storage quota and free space for this origin in bytes, from navigator.storage.estimate().
+ * Resolves to undefined where the Storage API is not available.
+ */
+export async function estimateStorage(): Promise<DeviceCapabilities['storage'] | undefined> {
+  if (typeof navigator === 'undefined' || typeof navigator.storage?.estimate !== 'function') {
+    return undefined;
+  }
+
+  try {
+    const { quota, usage } = await navigator.storage.estimate();
+    if (quota === undefined) return undefined;
+    return { total: quota, available: Math.max(0, quota - (usage ?? 0)) };
+  } catch (e) {
+    console.warn('Storage estimation failed', e);
+    return undefined;
+  }
+}
+
 /**
  * Enhanced detection that also probes individual AI framework capabilities.
  */